@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "eventSequence" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Page" ADD COLUMN "eventsResetAt" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Frame" ADD COLUMN "eventSequence" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Frame" ADD COLUMN "eventsResetAt" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing logs have only been appended to, so cursors handed out so far (event counts)
+-- are their sequence numbers
+UPDATE "Page" SET "eventSequence" = json_array_length("designEvents");
+UPDATE "Frame" SET "eventSequence" = json_array_length("designEvents");
@@ -0,0 +1,22 @@
+/**
+ * Server Hooks
+ */
+
+import type { ServerInit } from '@sveltejs/kit';
+import { building, dev } from '$app/environment';
+import { env } from '$env/dynamic/public';
+import { DEFAULT_COLLAB_PORT } from '$lib/types/collab';
+import { listenForCollaboration } from '$lib/server/services/collaboration-socket';
+
+/**
+ * Start the collaboration server next to the built app (production and `vite preview`)
+ * The dev server serves collaboration itself (see vite.config.ts)
+ */
+export const init: ServerInit = async () => {
+	if (dev || building) return;
+
+	const port = Number(env.PUBLIC_COLLAB_PORT) || DEFAULT_COLLAB_PORT;
+	listenForCollaboration(port).on('error', (error) => {
+		console.error(`Collaboration server failed on port ${port}:`, error);
+	});
+};
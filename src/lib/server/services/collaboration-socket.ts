@@ -0,0 +1,149 @@
+/**
+ * Collaboration Socket
+ * Serves the collaboration hub over WebSocket, with rooms persisted to the page event logs
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { User } from '@prisma/client';
+import type { CollabClientMessage, CollabServerMessage } from '$lib/types/collab';
+import { db } from '../db/client';
+import { verifyAccessToken, getUserById } from './auth';
+import { getPageEvents, appendPageEvents } from './pages';
+import { createCollaborationHub } from './collaboration';
+
+export const COLLAB_PATH = '/api/collab';
+
+const EDITOR_ROLES = ['owner', 'manager', 'designer'];
+
+// Team of each page with an open room - checked when an editor joins
+const pageTeams = new Map<string, string>();
+
+const hub = createCollaborationHub({
+	async loadEvents(pageId) {
+		const result = await getPageEvents({ pageId, teamId: pageTeams.get(pageId)! }, 0);
+		if ('error' in result) {
+			throw new Error(result.error);
+		}
+		return result.events;
+	},
+	async saveEvents(pageId, events) {
+		const result = await appendPageEvents({ pageId, teamId: pageTeams.get(pageId)! }, { events });
+		if ('error' in result) {
+			throw new Error(result.error);
+		}
+	}
+});
+
+/**
+ * Send editors of a page the events appended to its log outside a co-editing session
+ */
+export async function refreshCollaborationRoom(pageId: string): Promise<void> {
+	await hub.refresh(pageId);
+}
+
+/**
+ * Authenticate an upgrade request from the `token` query parameter
+ * Only users who can edit pages may join a session
+ */
+async function authenticate(request: IncomingMessage): Promise<User | null> {
+	const url = new URL(request.url ?? '', 'http://localhost');
+	const token = url.searchParams.get('token');
+	if (!token) return null;
+
+	const payload = verifyAccessToken(token);
+	if (!payload) return null;
+
+	const user = await getUserById(payload.userId);
+	if (!user || !user.teamId || !EDITOR_ROLES.includes(user.role)) return null;
+
+	return user;
+}
+
+/**
+ * Check that the page belongs to the user's team
+ */
+async function canJoin(user: User, pageId: string): Promise<boolean> {
+	const page = await db.page.findFirst({
+		where: { id: pageId, teamId: user.teamId! },
+		select: { teamId: true }
+	});
+	if (!page) return false;
+
+	pageTeams.set(pageId, page.teamId);
+	return true;
+}
+
+function handleConnection(socket: WebSocket, user: User): void {
+	const send = (message: CollabServerMessage) => {
+		if (socket.readyState === socket.OPEN) {
+			socket.send(JSON.stringify(message));
+		}
+	};
+	const connection = hub.connect({ id: user.id, name: user.name }, send);
+
+	socket.on('message', async (data) => {
+		let message: CollabClientMessage;
+		try {
+			message = JSON.parse(data.toString());
+		} catch {
+			send({ type: 'error', message: 'Invalid message' });
+			return;
+		}
+
+		try {
+			if (message.type === 'join' && !(await canJoin(user, message.pageId))) {
+				send({ type: 'error', message: 'Page not found' });
+				return;
+			}
+			await connection.receive(message);
+		} catch (error) {
+			console.error('Collaboration message error:', error);
+			send({ type: 'error', message: 'Failed to handle message' });
+		}
+	});
+
+	socket.on('close', () => connection.disconnect());
+}
+
+/**
+ * Accept collaboration connections on an HTTP server
+ * Other upgrade requests (e.g. Vite's HMR socket) are left alone
+ */
+export function attachCollaborationServer(server: Server): void {
+	const wss = new WebSocketServer({ noServer: true });
+
+	server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+		const { pathname } = new URL(request.url ?? '', 'http://localhost');
+		if (pathname !== COLLAB_PATH) return;
+
+		try {
+			const user = await authenticate(request);
+			if (!user) {
+				socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+				socket.destroy();
+				return;
+			}
+
+			wss.handleUpgrade(request, socket, head, (ws) => handleConnection(ws, user));
+		} catch (error) {
+			console.error('Collaboration upgrade error:', error);
+			socket.destroy();
+		}
+	});
+}
+
+/**
+ * Serve collaboration on a port of its own
+ * Built servers use this, as the adapter's server can't be reached for upgrade requests
+ */
+export function listenForCollaboration(port: number): Server {
+	const server = createServer((_request, response) => {
+		response.writeHead(426, { 'Content-Type': 'text/plain' });
+		response.end('Upgrade required');
+	});
+	attachCollaborationServer(server);
+	server.listen(port);
+	return server;
+}
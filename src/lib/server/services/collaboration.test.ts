@@ -0,0 +1,311 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignEvent } from '$lib/types/events';
+import type {
+	CollabConnectionStatus,
+	CollabServerMessage,
+	CollabTransport,
+	CollabUser,
+	WelcomeMessage
+} from '$lib/types/collab';
+import { createCollabClient } from '$lib/stores/collab-client';
+import type { CollabChange } from '$lib/stores/collab-client';
+import { event } from '$tests/events';
+import { createCollaborationHub, createInProcessTransport } from './collaboration';
+import type { CollabConnection, CollaborationHub } from './collaboration';
+
+const PAGE_ID = 'page-1';
+
+/**
+ * Let queued messages travel both ways until the session is quiet
+ */
+async function settle(): Promise<void> {
+	for (let i = 0; i < 10; i++) {
+		await new Promise((resolve) => setTimeout(resolve, 0));
+	}
+}
+
+/**
+ * A hub with a page holding one element
+ */
+function createSeededHub() {
+	const seed: DesignEvent[] = [
+		event('CREATE_PAGE', { pageId: PAGE_ID, name: 'Home' }),
+		event('CREATE_ELEMENT', {
+			elementId: 'element-1',
+			parentId: null,
+			pageId: PAGE_ID,
+			elementType: 'div',
+			position: { x: 0, y: 0 },
+			size: { width: 100, height: 100 }
+		})
+	];
+	return createCollaborationHub({ loadEvents: async () => seed });
+}
+
+/**
+ * A seeded hub with two editors connected to it
+ */
+async function setupSession() {
+	const hub = createSeededHub();
+	const changes: Record<'alice' | 'bob', CollabChange[]> = { alice: [], bob: [] };
+	const alice = createCollabClient(createInProcessTransport(hub, { id: 'alice', name: 'Alice' }), {
+		pageId: PAGE_ID,
+		onChange: (change) => changes.alice.push(change)
+	});
+	const bob = createCollabClient(createInProcessTransport(hub, { id: 'bob', name: 'Bob' }), {
+		pageId: PAGE_ID,
+		onChange: (change) => changes.bob.push(change)
+	});
+	await settle();
+
+	return { alice, bob, changes };
+}
+
+/**
+ * An in-process transport whose connection can be dropped and restored, like a socket
+ * Messages still travelling when it drops are lost
+ */
+function createDroppableTransport(hub: CollaborationHub, user: CollabUser) {
+	let handler: ((message: CollabServerMessage) => void) | null = null;
+	let connectionHandler: ((status: CollabConnectionStatus) => void) | null = null;
+	let connection: CollabConnection | null = null;
+
+	function open(): void {
+		const current = hub.connect(user, (message) => {
+			const wire = JSON.stringify(message);
+			queueMicrotask(() => {
+				if (connection === current) handler?.(JSON.parse(wire));
+			});
+		});
+		connection = current;
+	}
+
+	const transport: CollabTransport = {
+		send(message) {
+			const current = connection;
+			if (!current) return;
+			const wire = JSON.stringify(message);
+			queueMicrotask(() => {
+				if (connection === current) current.receive(JSON.parse(wire));
+			});
+		},
+		onMessage(next) {
+			handler = next;
+		},
+		onConnectionChange(next) {
+			connectionHandler = next;
+		},
+		close() {
+			connection?.disconnect();
+			connection = null;
+		}
+	};
+
+	open();
+	return {
+		transport,
+		drop() {
+			transport.close();
+			connectionHandler?.('reconnecting');
+		},
+		restore() {
+			open();
+			connectionHandler?.('connected');
+		}
+	};
+}
+
+function move(x: number, y: number): DesignEvent {
+	return event('MOVE_ELEMENT', { elementId: 'element-1', position: { x, y } });
+}
+
+describe('collaboration', () => {
+	it('should relay committed transactions to every editor', async () => {
+		const { alice, bob } = await setupSession();
+
+		alice.submit('tx-alice', [move(10, 20)]);
+		await settle();
+
+		expect(bob.getState().elements['element-1'].position).toEqual({ x: 10, y: 20 });
+		expect(bob.getEvents()).toEqual(alice.getEvents());
+		expect(alice.getPendingTransactions()).toHaveLength(0);
+	});
+
+	it('should stamp the author and strictly increasing server timestamps', async () => {
+		const { alice, bob } = await setupSession();
+
+		alice.submit('tx-alice', [move(1, 1), move(2, 2)]);
+		bob.submit('tx-bob', [move(3, 3)]);
+		await settle();
+
+		const committed = alice.getEvents().slice(2);
+		expect(committed.map((e) => e.userId)).toEqual(['alice', 'alice', 'bob']);
+		expect(committed.map((e) => e.transactionId)).toEqual(['tx-alice', 'tx-alice', 'tx-bob']);
+		for (let i = 1; i < committed.length; i++) {
+			expect(committed[i].timestamp).toBeGreaterThan(committed[i - 1].timestamp);
+		}
+	});
+
+	it('should resolve concurrent edits to the same element in commit order', async () => {
+		const { alice, bob } = await setupSession();
+
+		// Both edit before either sees the other's change
+		alice.submit('tx-alice', [move(10, 10)]);
+		bob.submit('tx-bob', [move(20, 20)]);
+		expect(alice.getState().elements['element-1'].position).toEqual({ x: 10, y: 10 });
+		expect(bob.getState().elements['element-1'].position).toEqual({ x: 20, y: 20 });
+
+		await settle();
+
+		// Alice's transaction reached the server first, so Bob's is applied last everywhere
+		expect(alice.getState()).toEqual(bob.getState());
+		expect(alice.getState().elements['element-1'].position).toEqual({ x: 20, y: 20 });
+		expect(alice.getEvents().map((e) => e.id)).toEqual(bob.getEvents().map((e) => e.id));
+	});
+
+	it('should rebase pending local transactions on top of remote events', async () => {
+		const { alice, bob, changes } = await setupSession();
+
+		alice.submit('tx-alice', [
+			event('UPDATE_STYLES', { elementId: 'element-1', styles: { backgroundColor: 'red' } })
+		]);
+		await settle();
+		expect(changes.bob.at(-1)).toMatchObject({ kind: 'remote', userId: 'alice' });
+
+		// Bob's edit is still pending when Alice's next remote commit arrives
+		bob.submit('tx-bob', [move(5, 5)]);
+		alice.submit('tx-alice-2', [
+			event('UPDATE_STYLES', { elementId: 'element-1', styles: { color: 'blue' } })
+		]);
+		await settle();
+
+		const element = bob.getState().elements['element-1'];
+		expect(element.position).toEqual({ x: 5, y: 5 });
+		expect(element.styles).toMatchObject({ backgroundColor: 'red', color: 'blue' });
+		expect(bob.getState()).toEqual(alice.getState());
+		expect(changes.bob.some((change) => change.kind === 'ack')).toBe(true);
+	});
+
+	it('should reject a transaction that edits an element another editor deleted', async () => {
+		const { alice, bob, changes } = await setupSession();
+
+		alice.submit('tx-alice', [event('DELETE_ELEMENT', { elementId: 'element-1' })]);
+		bob.submit('tx-bob', [move(50, 50)]);
+		await settle();
+
+		expect(changes.bob.at(-1)).toMatchObject({ kind: 'reject', transactionId: 'tx-bob' });
+		expect(bob.getPendingTransactions()).toHaveLength(0);
+		expect(bob.getState().elements['element-1']).toBeUndefined();
+		expect(bob.getState()).toEqual(alice.getState());
+	});
+
+	it('should relay presence and drop it when an editor leaves', async () => {
+		const { alice, bob } = await setupSession();
+
+		alice.setPresence({
+			cursor: { x: 40, y: 60 },
+			designPageId: PAGE_ID,
+			selectedElementIds: ['element-1']
+		});
+		await settle();
+
+		expect(bob.getRemotePresence()).toEqual([
+			expect.objectContaining({
+				clientId: alice.getClientId(),
+				user: { id: 'alice', name: 'Alice' },
+				cursor: { x: 40, y: 60 },
+				selectedElementIds: ['element-1']
+			})
+		]);
+		expect(alice.getRemotePresence()).toHaveLength(0);
+
+		alice.close();
+		await settle();
+
+		expect(bob.getRemotePresence()).toHaveLength(0);
+	});
+
+	it('should rejoin after a dropped connection and only fetch the missed commits', async () => {
+		const hub = createSeededHub();
+		const alice = createCollabClient(createInProcessTransport(hub, { id: 'alice', name: 'Alice' }), {
+			pageId: PAGE_ID
+		});
+		const connection = createDroppableTransport(hub, { id: 'bob', name: 'Bob' });
+		const changes: CollabChange[] = [];
+		const statuses: CollabConnectionStatus[] = [];
+		const bob = createCollabClient(connection.transport, {
+			pageId: PAGE_ID,
+			onChange: (change) => changes.push(change),
+			onConnectionChange: (status) => statuses.push(status)
+		});
+		await settle();
+
+		connection.drop();
+		alice.submit('tx-alice', [move(10, 10)]);
+		// Made while offline: kept pending and sent once rejoined
+		bob.submit('tx-bob', [
+			event('UPDATE_STYLES', { elementId: 'element-1', styles: { backgroundColor: 'red' } })
+		]);
+		await settle();
+		expect(statuses).toEqual(['reconnecting']);
+
+		connection.restore();
+		await settle();
+
+		expect(statuses).toEqual(['reconnecting', 'connected']);
+		expect(changes).toContainEqual({ kind: 'resume', events: [expect.objectContaining({ transactionId: 'tx-alice' })] });
+		expect(bob.getPendingTransactions()).toHaveLength(0);
+		expect(bob.getEvents()).toEqual(alice.getEvents());
+		expect(bob.getEvents().filter((e) => e.transactionId === 'tx-bob')).toHaveLength(1);
+		expect(bob.getState()).toEqual(alice.getState());
+	});
+
+	it('should send the whole log to an editor whose log no longer matches', async () => {
+		const hub = createCollaborationHub({ loadEvents: async () => [move(1, 1)] });
+		const messages: CollabServerMessage[] = [];
+		const connection = hub.connect({ id: 'bob', name: 'Bob' }, (message) => messages.push(message));
+
+		await connection.receive({ type: 'join', pageId: PAGE_ID, resume: { seq: 1, lastEventId: 'unknown' } });
+
+		const welcome = messages[0] as WelcomeMessage;
+		expect(welcome.resumed).toBe(false);
+		expect(welcome.events).toHaveLength(1);
+	});
+
+	it('should commit a transaction resent from a new connection only once', async () => {
+		const hub = createSeededHub();
+		// Keeps the room open while Bob reconnects
+		const alice = hub.connect({ id: 'alice', name: 'Alice' }, () => {});
+		await alice.receive({ type: 'join', pageId: PAGE_ID });
+
+		const first = hub.connect({ id: 'bob', name: 'Bob' }, () => {});
+		await first.receive({ type: 'join', pageId: PAGE_ID });
+		await first.receive({ type: 'submit', transactionId: 'tx-bob', events: [move(5, 5)] });
+		first.disconnect();
+
+		const messages: CollabServerMessage[] = [];
+		const second = hub.connect({ id: 'bob', name: 'Bob' }, (message) => messages.push(message));
+		await second.receive({ type: 'join', pageId: PAGE_ID });
+		await second.receive({ type: 'submit', transactionId: 'tx-bob', events: [move(5, 5)] });
+
+		expect(messages.map((message) => message.type)).toEqual(['welcome']);
+		const welcome = messages[0] as WelcomeMessage;
+		expect(welcome.events.filter((e) => e.transactionId === 'tx-bob')).toHaveLength(1);
+	});
+
+	it('should send editors the page log when it is appended outside the hub', async () => {
+		const stored: DesignEvent[] = [move(1, 1)];
+		const hub = createCollaborationHub({ loadEvents: async () => [...stored] });
+		const alice = createCollabClient(createInProcessTransport(hub, { id: 'alice', name: 'Alice' }), {
+			pageId: PAGE_ID
+		});
+		await settle();
+
+		// Appended over the HTTP events route
+		stored.push(move(2, 2));
+		await hub.refresh(PAGE_ID);
+		await settle();
+
+		expect(alice.getEvents().map((e) => e.id)).toEqual(stored.map((e) => e.id));
+	});
+});
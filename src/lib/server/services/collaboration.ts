@@ -0,0 +1,362 @@
+/**
+ * Collaboration Service
+ * Relays design events between editors of the same page
+ *
+ * Ordering and conflict policy:
+ * - The server commits transactions one at a time in arrival order. That order
+ *   (the sequence number) is the only order every editor applies events in.
+ * - Concurrent edits to the same property of the same element: the transaction
+ *   committed last wins, since it is applied last everywhere.
+ * - A transaction that references an element, page, group or component that an
+ *   earlier commit removed is rejected as a whole, and its author rolls it back.
+ * - A transaction ID is committed once: a transaction resent after a reconnect
+ *   while the first copy was still queued is skipped.
+ * - When the page log is appended outside the hub (the HTTP events route), the room
+ *   reloads it and sends every editor the new log.
+ *
+ * Persistence is injected so rooms can run in-process (tests) or on the page's
+ * event log in the database.
+ */
+
+import { nanoid } from 'nanoid';
+import type { DesignEvent, DesignState } from '$lib/types/events';
+import type {
+	CollabClientMessage,
+	CollabServerMessage,
+	CollabTransport,
+	CollabUser,
+	Presence,
+	RemotePresence
+} from '$lib/types/collab';
+import { reduceEvent, reduceEvents } from '$lib/stores/event-reducer';
+import { validateEventLog, formatValidationIssues } from '$lib/stores/event-validation';
+
+export interface CollaborationOptions {
+	loadEvents?: (pageId: string) => Promise<DesignEvent[]>;
+	saveEvents?: (pageId: string, events: DesignEvent[]) => Promise<void>;
+}
+
+export interface CollabConnection {
+	receive(message: CollabClientMessage): Promise<void>;
+	disconnect(): void;
+}
+
+interface RoomClient {
+	id: string;
+	user: CollabUser;
+	send: (message: CollabServerMessage) => void;
+	presence: Presence | null;
+}
+
+interface Room {
+	pageId: string;
+	events: DesignEvent[];
+	transactionIds: Set<string>; // Transactions already in `events`
+	state: DesignState;
+	lastTimestamp: number;
+	clients: Map<string, RoomClient>;
+	queue: Promise<void>; // Serializes commits
+}
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+/**
+ * IDs an event expects to exist, grouped by collection
+ */
+function getReferencedIds(event: DesignEvent): Array<[keyof DesignState, string]> {
+	const payload = event.payload as Record<string, unknown>;
+	const refs: Array<[keyof DesignState, string]> = [];
+
+	const addElement = (id: unknown) => {
+		if (typeof id === 'string') refs.push(['elements', id]);
+	};
+
+	if (event.type !== 'CREATE_ELEMENT') addElement(payload.elementId);
+	addElement(payload.parentId);
+	addElement(payload.newParentId);
+	if (Array.isArray(payload.elementIds)) payload.elementIds.forEach(addElement);
+	if (Array.isArray(payload.elements)) {
+		payload.elements.forEach((entry) => addElement((entry as { elementId?: unknown }).elementId));
+	}
+
+	if (event.type !== 'CREATE_PAGE' && typeof payload.pageId === 'string') {
+		refs.push(['pages', payload.pageId]);
+	}
+	if (event.type !== 'CREATE_COMPONENT' && typeof payload.componentId === 'string') {
+		refs.push(['components', payload.componentId]);
+	}
+	if (event.type === 'UNGROUP_ELEMENTS') {
+		refs.push(['groups', event.payload.groupId]);
+	}
+
+	return refs;
+}
+
+/**
+ * Find the first thing a transaction references that no longer exists
+ * Events are checked against the state as it evolves through the transaction,
+ * so a transaction can create an element and then edit it
+ */
+export function findConflict(state: DesignState, events: DesignEvent[]): string | null {
+	let current = state;
+
+	for (const event of events) {
+		for (const [collection, id] of getReferencedIds(event)) {
+			const items = current[collection] as Record<string, unknown>;
+			if (!(id in items)) {
+				return `${event.type} references ${collection.slice(0, -1)} ${id}, which was removed by another editor`;
+			}
+		}
+		current = reduceEvent(current, event);
+	}
+
+	return null;
+}
+
+// ============================================================================
+// Rooms
+// ============================================================================
+
+/**
+ * Create a collaboration hub holding one room per page
+ */
+export function createCollaborationHub(options: CollaborationOptions = {}) {
+	const rooms = new Map<string, Promise<Room>>();
+
+	// Helper: Room fields derived from the page log
+	function fromLog(events: DesignEvent[]): Pick<Room, 'events' | 'transactionIds' | 'state' | 'lastTimestamp'> {
+		return {
+			events,
+			transactionIds: new Set(events.map((event) => event.transactionId ?? event.id)),
+			state: reduceEvents(events),
+			lastTimestamp: events.reduce((max, event) => Math.max(max, event.timestamp), 0)
+		};
+	}
+
+	function getRoom(pageId: string): Promise<Room> {
+		let room = rooms.get(pageId);
+		if (!room) {
+			room = (async () => {
+				const events = options.loadEvents ? await options.loadEvents(pageId) : [];
+				return {
+					pageId,
+					...fromLog(events),
+					clients: new Map(),
+					queue: Promise.resolve()
+				};
+			})();
+			rooms.set(pageId, room);
+			// Let a failed load be retried by the next editor
+			room.catch(() => rooms.delete(pageId));
+		}
+		return room;
+	}
+
+	/**
+	 * Run a task after every task already queued on the room
+	 */
+	function enqueue(room: Room, task: () => void | Promise<void>): Promise<void> {
+		room.queue = room.queue.then(task).catch((error) => {
+			console.error('Collaboration room error:', error);
+		});
+		return room.queue;
+	}
+
+	async function commit(
+		room: Room,
+		client: RoomClient,
+		transactionId: string,
+		submitted: DesignEvent[]
+	): Promise<void> {
+		// Already committed from the editor's previous connection - it has the commit already
+		if (room.transactionIds.has(transactionId)) return;
+
+		const issues = validateEventLog(submitted);
+		const conflict = issues.length > 0 ? formatValidationIssues(issues) : findConflict(room.state, submitted);
+		if (conflict) {
+			client.send({ type: 'reject', transactionId, reason: conflict });
+			return;
+		}
+
+		// Server timestamps are strictly increasing, so timestamp order matches commit order
+		const events = submitted.map((event) => {
+			room.lastTimestamp = Math.max(Date.now(), room.lastTimestamp + 1);
+			return { ...event, timestamp: room.lastTimestamp, userId: client.user.id, transactionId };
+		});
+
+		if (options.saveEvents) {
+			try {
+				await options.saveEvents(room.pageId, events);
+			} catch (error) {
+				console.error('Failed to save collaboration events:', error);
+				client.send({ type: 'reject', transactionId, reason: 'Failed to save changes' });
+				return;
+			}
+		}
+
+		room.events = [...room.events, ...events];
+		room.transactionIds.add(transactionId);
+		room.state = reduceEvents(events, room.state);
+
+		for (const recipient of room.clients.values()) {
+			recipient.send({
+				type: 'commit',
+				seq: room.events.length,
+				transactionId,
+				userId: client.user.id,
+				clientId: client.id,
+				events
+			});
+		}
+	}
+
+	/**
+	 * Send a message to every editor in a room except one
+	 */
+	function broadcast(room: Room, message: CollabServerMessage, exceptClientId: string): void {
+		for (const recipient of room.clients.values()) {
+			if (recipient.id !== exceptClientId) recipient.send(message);
+		}
+	}
+
+	function toRemotePresence(client: RoomClient): RemotePresence | null {
+		return client.presence ? { ...client.presence, clientId: client.id, user: client.user } : null;
+	}
+
+	/**
+	 * Send an editor the room's log (or only the commits after `fromSeq`) and who else is in it
+	 */
+	function welcome(room: Room, client: RoomClient, fromSeq: number | null): void {
+		client.send({
+			type: 'welcome',
+			clientId: client.id,
+			userId: client.user.id,
+			seq: room.events.length,
+			resumed: fromSeq !== null,
+			events: fromSeq !== null ? room.events.slice(fromSeq) : room.events,
+			presence: [...room.clients.values()]
+				.filter((other) => other.id !== client.id)
+				.map(toRemotePresence)
+				.filter((presence): presence is RemotePresence => presence !== null)
+		});
+	}
+
+	/**
+	 * Reload a page's log after it was appended outside the hub
+	 * Editors in the room get the whole new log, as when they joined
+	 */
+	async function refresh(pageId: string): Promise<void> {
+		const pending = rooms.get(pageId);
+		if (!pending || !options.loadEvents) return;
+
+		const room = await pending;
+		const loadEvents = options.loadEvents;
+		await enqueue(room, async () => {
+			const events = await loadEvents(pageId);
+			const isUnchanged =
+				events.length === room.events.length && events.every((event, i) => event.id === room.events[i].id);
+			if (isUnchanged) return;
+
+			Object.assign(room, fromLog(events));
+			for (const client of room.clients.values()) {
+				welcome(room, client, null);
+			}
+		});
+	}
+
+	/**
+	 * Connect an editor - messages for it are passed to `send`
+	 */
+	function connect(user: CollabUser, send: (message: CollabServerMessage) => void): CollabConnection {
+		const client: RoomClient = { id: nanoid(), user, send, presence: null };
+		let room: Room | null = null;
+
+		return {
+			async receive(message) {
+				if (message.type === 'join') {
+					if (room) {
+						send({ type: 'error', message: 'Already joined a page' });
+						return;
+					}
+					const joined = await getRoom(message.pageId);
+					// Join in the commit queue so no commit lands between the welcome and the first relay
+					await enqueue(joined, () => {
+						room = joined;
+						joined.clients.set(client.id, client);
+						// A rejoining editor only needs the commits it missed, if its log still matches ours
+						const { resume } = message;
+						const resumed =
+							!!resume && resume.seq > 0 && joined.events[resume.seq - 1]?.id === resume.lastEventId;
+						welcome(joined, client, resumed ? resume!.seq : null);
+					});
+					return;
+				}
+
+				if (!room) {
+					send({ type: 'error', message: 'Join a page first' });
+					return;
+				}
+
+				// Presence skips the commit queue - it is relayed straight away and never stored
+				if (message.type === 'presence') {
+					client.presence = message.presence;
+					broadcast(room, { type: 'presence', presence: toRemotePresence(client)! }, client.id);
+					return;
+				}
+
+				const current = room;
+				await enqueue(current, () =>
+					commit(current, client, message.transactionId, message.events)
+				);
+			},
+
+			disconnect() {
+				if (!room) return;
+				room.clients.delete(client.id);
+				broadcast(room, { type: 'leave', clientId: client.id }, client.id);
+				if (room.clients.size === 0) {
+					rooms.delete(room.pageId);
+				}
+				room = null;
+			}
+		};
+	}
+
+	return { connect, refresh };
+}
+
+export type CollaborationHub = ReturnType<typeof createCollaborationHub>;
+
+/**
+ * Connect an editor to a hub in the same process (no network)
+ * Messages are serialized and delivered asynchronously, like over a socket
+ */
+export function createInProcessTransport(hub: CollaborationHub, user: CollabUser): CollabTransport {
+	let handler: ((message: CollabServerMessage) => void) | null = null;
+	let isClosed = false;
+
+	const connection = hub.connect(user, (message) => {
+		const wire = JSON.stringify(message);
+		queueMicrotask(() => {
+			if (!isClosed) handler?.(JSON.parse(wire));
+		});
+	});
+
+	return {
+		send(message) {
+			const wire = JSON.stringify(message);
+			queueMicrotask(() => {
+				if (!isClosed) connection.receive(JSON.parse(wire));
+			});
+		},
+		onMessage(next) {
+			handler = next;
+		},
+		close() {
+			isClosed = true;
+			connection.disconnect();
+		}
+	};
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { MoveElementEvent } from '$lib/types/events';
+import { appendToEventLog, getEventsSince } from './event-log';
+import type { SequencedEventLog } from './event-log';
+
+function moveEvent(id: string): MoveElementEvent {
+	return { id, type: 'MOVE_ELEMENT', timestamp: 0, payload: { elementId: 'element-1', position: { x: 0, y: 0 } } };
+}
+
+const EMPTY_LOG: SequencedEventLog = { events: [], sequence: 0, resetAt: 0 };
+
+function ids(events: Array<{ id: string }>): string[] {
+	return events.map((event) => event.id);
+}
+
+describe('getEventsSince', () => {
+	it('should return the events appended after the cursor', () => {
+		const { log } = appendToEventLog(EMPTY_LOG, [moveEvent('a'), moveEvent('b'), moveEvent('c')]);
+
+		expect(getEventsSince(log, 0)).toEqual({ events: log.events, cursor: 3, reset: false });
+		expect(ids(getEventsSince(log, 1).events)).toEqual(['b', 'c']);
+		expect(getEventsSince(log, 3).events).toEqual([]);
+	});
+
+	it('should send the whole log to a cursor past the end', () => {
+		const { log } = appendToEventLog(EMPTY_LOG, [moveEvent('a')]);
+		expect(getEventsSince(log, 5)).toEqual({ events: log.events, cursor: 1, reset: true });
+	});
+});
+
+describe('appendToEventLog', () => {
+	it('should skip events already in the log', () => {
+		const first = appendToEventLog(EMPTY_LOG, [moveEvent('a'), moveEvent('b')]);
+		const retried = appendToEventLog(first.log, [moveEvent('a'), moveEvent('b')]);
+
+		expect(retried.appended).toBe(0);
+		expect(retried.log).toEqual(first.log);
+	});
+
+	it('should keep sequence numbers increasing when events are discarded', () => {
+		const { log } = appendToEventLog(EMPTY_LOG, [moveEvent('a'), moveEvent('b'), moveEvent('c')]);
+		const rewritten = appendToEventLog(log, [moveEvent('d')], ['b', 'c']);
+
+		expect(ids(rewritten.log.events)).toEqual(['a', 'd']);
+		expect(rewritten.log.sequence).toBe(4);
+		expect(rewritten.log.resetAt).toBe(4);
+	});
+});
+
+describe('pulling after another client discards events', () => {
+	it('should send client B the rewritten log, then only the events after it', () => {
+		// Both clients have pulled a, b, c
+		let log = appendToEventLog(EMPTY_LOG, [moveEvent('a'), moveEvent('b'), moveEvent('c')]).log;
+		const cursorB = getEventsSince(log, 0).cursor;
+
+		// Client A undoes c, then edits: c is discarded and d appended
+		log = appendToEventLog(log, [moveEvent('d')], ['c']).log;
+
+		// B's cursor is from before the rewrite, so it gets the whole log to replace its own
+		const pull = getEventsSince(log, cursorB);
+		expect(pull.reset).toBe(true);
+		expect(ids(pull.events)).toEqual(['a', 'b', 'd']);
+
+		// Later pulls from B's new cursor only see new events
+		log = appendToEventLog(log, [moveEvent('e')]).log;
+		const next = getEventsSince(log, pull.cursor);
+		expect(next.reset).toBe(false);
+		expect(ids(next.events)).toEqual(['e']);
+	});
+
+	it('should not repeat or skip events for a client that pulled between appends', () => {
+		let log = appendToEventLog(EMPTY_LOG, [moveEvent('a'), moveEvent('b')], []).log;
+		log = appendToEventLog(log, [moveEvent('c')], ['b']).log;
+		const cursorB = getEventsSince(log, 0).cursor;
+
+		log = appendToEventLog(log, [moveEvent('d'), moveEvent('e')]).log;
+
+		expect(getEventsSince(log, cursorB)).toEqual({ events: [moveEvent('d'), moveEvent('e')], cursor: 5, reset: false });
+	});
+});
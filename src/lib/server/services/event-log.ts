@@ -0,0 +1,60 @@
+/**
+ * Event Log - Sequence numbers for the server copies of page event logs
+ *
+ * Every appended event takes the next sequence number, and numbers are never reused,
+ * so a client's cursor (the sequence of the newest event it has pulled) stays valid
+ * while the log grows. Discarding events rewrites the log: `resetAt` records the
+ * sequence at that moment, and clients with an older cursor get the whole log back.
+ */
+
+import type { DesignEvent } from '$lib/types/events';
+
+export interface SequencedEventLog {
+	events: DesignEvent[];
+	sequence: number; // Sequence number of the newest event (0 for a new log)
+	resetAt: number; // Sequence when events were last removed from the log
+}
+
+/**
+ * Events recorded after a cursor
+ * A cursor from before the last rewrite (or past the end) gets the whole log, flagged `reset`
+ */
+export function getEventsSince(
+	log: SequencedEventLog,
+	since: number
+): { events: DesignEvent[]; cursor: number; reset: boolean } {
+	const reset = since < log.resetAt || since > log.sequence;
+	if (reset) {
+		return { events: log.events, cursor: log.sequence, reset };
+	}
+
+	// Only appends happened since the rewrite, so the newest events are at the end
+	const count = Math.min(log.sequence - since, log.events.length);
+	return { events: log.events.slice(log.events.length - count), cursor: log.sequence, reset };
+}
+
+/**
+ * Remove discarded events and append the batch (events already in the log are skipped)
+ */
+export function appendToEventLog(
+	log: SequencedEventLog,
+	batch: DesignEvent[],
+	discardedEventIds: string[] = []
+): { log: SequencedEventLog; appended: number } {
+	const discarded = new Set(discardedEventIds);
+	const kept = log.events.filter((event) => !discarded.has(event.id));
+	const knownIds = new Set(kept.map((event) => event.id));
+	const newEvents = batch.filter((event) => !knownIds.has(event.id));
+
+	const sequence = log.sequence + newEvents.length;
+	const isRewritten = kept.length < log.events.length;
+
+	return {
+		log: {
+			events: [...kept, ...newEvents],
+			sequence,
+			resetAt: isRewritten ? sequence : log.resetAt
+		},
+		appended: newEvents.length
+	};
+}
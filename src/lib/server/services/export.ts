@@ -0,0 +1,99 @@
+/**
+ * Export Service
+ * Exports a team's published pages as a static site (HTML, CSS and media) in a zip
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { db } from '../db/client';
+import { getComponentParts } from '$lib/utils/code-generator';
+import { findPathCollisions, renderStaticPage, STYLESHEET_PATH, MEDIA_DIR } from '$lib/utils/static-site';
+import type { StaticPage } from '$lib/utils/static-site';
+import { getTokens, tokensToCss } from './tokens';
+import { UPLOAD_DIR, UPLOAD_URL } from './media';
+import { createZipStream } from './zip';
+import type { ZipEntry } from './zip';
+
+/**
+ * Files of the site: the shared stylesheet, one HTML file per page, then the media they use
+ * Only the team's own uploads are copied - pages can link any file under /uploads
+ */
+async function* siteEntries(teamId: string, pages: StaticPage[], stylesheet: string): AsyncGenerator<ZipEntry> {
+	const encoder = new TextEncoder();
+	const media = new Set<string>();
+
+	yield { name: STYLESHEET_PATH, data: encoder.encode(stylesheet) };
+
+	for (const page of pages) {
+		const { path: pagePath, html } = renderStaticPage(page, media);
+		yield { name: pagePath, data: encoder.encode(html) };
+	}
+
+	const records = await db.media.findMany({
+		where: { teamId, url: { in: [...media].map((filename) => `${UPLOAD_URL}/${filename}`) } },
+		select: { url: true }
+	});
+	const owned = new Set(records.map((record: { url: string }) => record.url.slice(UPLOAD_URL.length + 1)));
+
+	for (const filename of media) {
+		if (!owned.has(filename)) {
+			console.warn(`Static export: media file ${filename} is not one of the team's uploads, skipped`);
+			continue;
+		}
+		try {
+			const data = await readFile(path.join(UPLOAD_DIR, filename));
+			yield { name: `${MEDIA_DIR}/${filename}`, data };
+		} catch (error) {
+			console.warn(`Static export: media file ${filename} is missing, skipped`, error);
+		}
+	}
+}
+
+/**
+ * Zip of the team's published pages, written as it is streamed
+ * Refused when page slugs would overwrite each other's files
+ */
+export async function exportStaticSite(
+	teamId: string
+): Promise<{ stream: ReadableStream<Uint8Array> } | { error: string; status: number }> {
+	const pages = await db.page.findMany({
+		where: { teamId, isPublished: true, publishedCode: { not: null } },
+		select: {
+			slug: true,
+			title: true,
+			metaTitle: true,
+			metaDescription: true,
+			metaImage: true,
+			publishedCode: true
+		},
+		orderBy: { slug: 'asc' }
+	});
+
+	if (pages.length === 0) {
+		return { error: 'No published pages to export', status: 404 };
+	}
+
+	const staticPages: StaticPage[] = [];
+	for (const page of pages) {
+		staticPages.push({
+			slug: page.slug,
+			title: page.title,
+			metaTitle: page.metaTitle,
+			metaDescription: page.metaDescription,
+			metaImage: page.metaImage,
+			...getComponentParts(page.publishedCode ?? '')
+		});
+	}
+
+	const collisions = findPathCollisions(staticPages.map((page) => page.slug));
+	if (collisions.length > 0) {
+		const clashes = collisions.map(
+			(collision) => `${collision.slugs.map((slug) => `"${slug}"`).join(', ')} at ${collision.path}`
+		);
+		return { error: `Rename pages whose files would collide: ${clashes.join('; ')}`, status: 409 };
+	}
+
+	const stylesheet = tokensToCss(await getTokens(teamId));
+
+	return { stream: createZipStream(siteEntries(teamId, staticPages, stylesheet)) };
+}
@@ -11,7 +11,8 @@ import path from 'path';
 import { nanoid } from 'nanoid';
 import type { Media } from '@prisma/client';
 
-const UPLOAD_DIR = 'static/uploads';
+export const UPLOAD_DIR = 'static/uploads';
+export const UPLOAD_URL = '/uploads'; // Public URL of UPLOAD_DIR
 const MAX_IMAGE_WIDTH = 2400;
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
 const ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/webm'];
@@ -57,7 +58,7 @@ export async function uploadMedia(data: {
 		const ext = path.extname(file.name);
 		const filename = `${nanoid()}-${Date.now()}${ext}`;
 		const filepath = path.join(UPLOAD_DIR, filename);
-		const url = `/uploads/${filename}`;
+		const url = `${UPLOAD_URL}/${filename}`;
 
 		// Get file buffer
 		const buffer = Buffer.from(await file.arrayBuffer());
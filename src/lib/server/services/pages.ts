@@ -0,0 +1,133 @@
+/**
+ * Pages Service
+ * Stores the design event logs of pages (and their frames) for sync between browsers
+ */
+
+import { db } from '../db/client';
+import type { DesignEvent } from '$lib/types/events';
+import { validateEventLog, formatValidationIssues } from '$lib/stores/event-validation';
+import { getEventsSince, appendToEventLog } from './event-log';
+import type { SequencedEventLog } from './event-log';
+
+const MAX_BATCH_SIZE = 1000; // Events per append request
+
+export interface EventLogTarget {
+	pageId: string;
+	teamId: string;
+	frameId?: string; // Use the frame's log instead of the page's
+}
+
+/**
+ * Parse a stored designEvents column
+ */
+function parseEventLog(json: string): DesignEvent[] {
+	try {
+		const events = JSON.parse(json);
+		return Array.isArray(events) ? events : [];
+	} catch (error) {
+		console.error('Failed to parse design events:', error);
+		return [];
+	}
+}
+
+const EVENT_LOG_FIELDS = { designEvents: true, eventSequence: true, eventsResetAt: true } as const;
+
+/**
+ * Read the event log of a page or frame the team owns
+ */
+async function readEventLog(
+	client: Pick<typeof db, 'page' | 'frame'>,
+	target: EventLogTarget
+): Promise<{ title: string; log: SequencedEventLog } | null> {
+	const page = await client.page.findFirst({
+		where: { id: target.pageId, teamId: target.teamId },
+		select: { title: true, ...EVENT_LOG_FIELDS }
+	});
+	if (!page) return null;
+
+	const record = target.frameId
+		? await client.frame.findFirst({
+				where: { id: target.frameId, pageId: target.pageId },
+				select: EVENT_LOG_FIELDS
+			})
+		: page;
+	if (!record) return null;
+
+	return {
+		title: page.title,
+		log: {
+			events: parseEventLog(record.designEvents),
+			sequence: record.eventSequence,
+			resetAt: record.eventsResetAt
+		}
+	};
+}
+
+/**
+ * Get the events recorded after a cursor (the sequence number of the newest event the client has)
+ * A cursor from before the log was rewritten gets the whole log back (see event-log.ts)
+ */
+export async function getPageEvents(
+	target: EventLogTarget,
+	since: number
+): Promise<
+	| { title: string; events: DesignEvent[]; cursor: number; reset: boolean }
+	| { error: string }
+> {
+	const record = await readEventLog(db, target);
+	if (!record) {
+		return { error: target.frameId ? 'Frame not found' : 'Page not found' };
+	}
+
+	return { title: record.title, ...getEventsSince(record.log, since) };
+}
+
+/**
+ * Append a batch of events
+ * Events already in the log are skipped, so a retried batch is applied only once.
+ * `discardedEventIds` are undone events the client dropped before recording the batch.
+ */
+export async function appendPageEvents(
+	target: EventLogTarget,
+	data: { events: unknown; discardedEventIds?: unknown }
+): Promise<{ cursor: number; appended: number } | { error: string; status: number }> {
+	const { events, discardedEventIds = [] } = data;
+
+	const issues = validateEventLog(events);
+	if (issues.length > 0) {
+		return { error: `Invalid events:\n${formatValidationIssues(issues)}`, status: 400 };
+	}
+	const batch = events as DesignEvent[];
+	if (batch.length > MAX_BATCH_SIZE) {
+		return { error: `Too many events: maximum ${MAX_BATCH_SIZE} per request`, status: 400 };
+	}
+	if (
+		!Array.isArray(discardedEventIds) ||
+		!discardedEventIds.every((id) => typeof id === 'string')
+	) {
+		return { error: 'Invalid discardedEventIds: must be an array of strings', status: 400 };
+	}
+
+	// Read-modify-write in one transaction so concurrent batches don't overwrite each other
+	return db.$transaction(async (tx) => {
+		const record = await readEventLog(tx, target);
+		if (!record) {
+			return { error: target.frameId ? 'Frame not found' : 'Page not found', status: 404 };
+		}
+
+		const { log, appended } = appendToEventLog(record.log, batch, discardedEventIds);
+		const data = {
+			designEvents: JSON.stringify(log.events),
+			eventSequence: log.sequence,
+			eventsResetAt: log.resetAt
+		};
+
+		if (target.frameId) {
+			await tx.frame.update({ where: { id: target.frameId }, data });
+		} else {
+			await tx.page.update({ where: { id: target.pageId }, data });
+		}
+
+		return { cursor: log.sequence, appended };
+	});
+}
@@ -0,0 +1,101 @@
+/**
+ * Publishing Service
+ * Generates the published Svelte component of a page from its design events,
+ * and serves published pages by slug
+ */
+
+import { db } from '../db/client';
+import { reduceEvents } from '$lib/stores/event-reducer';
+import { generateSvelteComponent, getComponentParts } from '$lib/utils/code-generator';
+import { getPageEvents } from './pages';
+
+export interface PublishedPage {
+	title: string;
+	metaTitle: string | null;
+	metaDescription: string | null;
+	metaImage: string | null;
+	markup: string;
+	css: string;
+}
+
+/**
+ * Generate the component for a page's design (the first page of the design is the one published)
+ */
+async function generatePageCode(
+	pageId: string,
+	teamId: string
+): Promise<{ code: string } | { error: string; status: number }> {
+	const log = await getPageEvents({ pageId, teamId }, 0);
+	if ('error' in log) {
+		return { error: log.error, status: 404 };
+	}
+
+	const state = reduceEvents(log.events);
+	const designPageId = state.pageOrder[0];
+	if (!designPageId) {
+		return { error: 'Page has no design to publish', status: 400 };
+	}
+
+	return { code: generateSvelteComponent(state, designPageId) };
+}
+
+/**
+ * Publish a page: regenerate its publishedCode from the current design
+ */
+export async function publishPage(
+	pageId: string,
+	teamId: string
+): Promise<{ slug: string; publishedAt: Date } | { error: string; status: number }> {
+	const generated = await generatePageCode(pageId, teamId);
+	if ('error' in generated) return generated;
+
+	const page = await db.page.update({
+		where: { id: pageId },
+		data: { publishedCode: generated.code, isPublished: true, publishedAt: new Date() },
+		select: { slug: true, publishedAt: true }
+	});
+
+	return { slug: page.slug, publishedAt: page.publishedAt! };
+}
+
+/**
+ * Unpublish a page (its publishedCode is kept until the next publish)
+ */
+export async function unpublishPage(
+	pageId: string,
+	teamId: string
+): Promise<{ slug: string } | { error: string; status: number }> {
+	const page = await db.page.findFirst({ where: { id: pageId, teamId }, select: { id: true } });
+	if (!page) {
+		return { error: 'Page not found', status: 404 };
+	}
+
+	const updated = await db.page.update({
+		where: { id: pageId },
+		data: { isPublished: false, publishedAt: null },
+		select: { slug: true }
+	});
+
+	return { slug: updated.slug };
+}
+
+/**
+ * Get a published page by its slug (null when there is none)
+ */
+export async function getPublishedPage(slug: string): Promise<PublishedPage | null> {
+	const page = await db.page.findFirst({
+		where: { slug, isPublished: true },
+		select: { title: true, metaTitle: true, metaDescription: true, metaImage: true, publishedCode: true }
+	});
+	if (!page?.publishedCode) return null;
+
+	const { markup, css } = getComponentParts(page.publishedCode);
+	return {
+		title: page.title,
+		metaTitle: page.metaTitle,
+		metaDescription: page.metaDescription,
+		metaImage: page.metaImage,
+		markup,
+		css
+	};
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { createZipStream, crc32 } from './zip';
+import type { ZipEntry } from './zip';
+
+async function* fromArray(entries: ZipEntry[]): AsyncGenerator<ZipEntry> {
+	yield* entries;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+	const chunks: Uint8Array[] = [];
+	const reader = stream.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		chunks.push(value);
+	}
+	return Buffer.concat(chunks);
+}
+
+describe('crc32', () => {
+	it('should match the standard check value', () => {
+		expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+	});
+});
+
+describe('createZipStream', () => {
+	it('should write entries that can be read back through the central directory', async () => {
+		const encoder = new TextEncoder();
+		const entries = [
+			{ name: 'index.html', data: encoder.encode('<!doctype html><p>Home</p>') },
+			{ name: 'about/index.html', data: encoder.encode('<!doctype html><p>About</p>'.repeat(20)) },
+			{ name: 'uploads/photo.png', data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]) }
+		];
+
+		const zip = await readAll(createZipStream(fromArray(entries)));
+
+		// End of central directory record
+		const end = zip.length - 22;
+		expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+		expect(zip.readUInt16LE(end + 10)).toBe(3);
+
+		let central = zip.readUInt32LE(end + 16);
+		for (const entry of entries) {
+			expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+			const method = zip.readUInt16LE(central + 10);
+			const compressedSize = zip.readUInt32LE(central + 20);
+			const nameLength = zip.readUInt16LE(central + 28);
+			const offset = zip.readUInt32LE(central + 42);
+			expect(zip.toString('utf8', central + 46, central + 46 + nameLength)).toBe(entry.name);
+			expect(zip.readUInt32LE(central + 16)).toBe(crc32(entry.data));
+
+			// Local header, then the data (deflated, or stored for already-compressed files)
+			expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+			const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+			const stored = zip.subarray(dataStart, dataStart + compressedSize);
+			expect(method).toBe(entry.name.endsWith('.png') ? 0 : 8);
+			const data = method === 0 ? stored : inflateRawSync(stored);
+			expect(Buffer.from(data).equals(entry.data)).toBe(true);
+
+			central += 46 + nameLength;
+		}
+	});
+
+	it('should write an empty archive', async () => {
+		const zip = await readAll(createZipStream(fromArray([])));
+		expect(zip.length).toBe(22);
+		expect(zip.readUInt32LE(0)).toBe(0x06054b50);
+	});
+});
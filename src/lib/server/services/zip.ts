@@ -0,0 +1,163 @@
+/**
+ * Zip Service
+ * Writes zip archives as a stream, one entry at a time (deflated with zlib)
+ * Files that are already compressed (images, fonts, video) are stored as-is
+ */
+
+import { deflateRaw } from 'zlib';
+import { promisify } from 'util';
+
+export interface ZipEntry {
+	name: string; // Path inside the archive, '/' separated
+	data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const VERSION = 20; // 2.0: deflate
+const UTF8_FLAG = 0x0800;
+const STORE = 0;
+const DEFLATE = 8;
+
+// Formats that don't shrink when deflated again
+const COMPRESSED_EXTENSIONS = /\.(png|jpe?g|gif|webp|avif|woff2?|mp3|mp4|webm|zip|gz)$/i;
+
+const deflate = promisify(deflateRaw);
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * CRC-32 of the data (as stored in zip headers)
+ */
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Helper: MS-DOS time and date of a moment
+function toDosTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+interface WrittenEntry {
+	name: Uint8Array;
+	method: number; // STORE or DEFLATE
+	crc: number;
+	compressedSize: number;
+	size: number;
+	offset: number;
+}
+
+// Helper: Header fields shared by the local and central headers
+function writeEntryFields(view: DataView, at: number, entry: WrittenEntry, modified: { time: number; date: number }) {
+	view.setUint16(at, UTF8_FLAG, true);
+	view.setUint16(at + 2, entry.method, true);
+	view.setUint16(at + 4, modified.time, true);
+	view.setUint16(at + 6, modified.date, true);
+	view.setUint32(at + 8, entry.crc, true);
+	view.setUint32(at + 12, entry.compressedSize, true);
+	view.setUint32(at + 16, entry.size, true);
+	view.setUint16(at + 20, entry.name.length, true);
+}
+
+function localHeader(entry: WrittenEntry, modified: { time: number; date: number }): Uint8Array {
+	const header = new Uint8Array(30 + entry.name.length);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+	view.setUint16(4, VERSION, true);
+	writeEntryFields(view, 6, entry, modified);
+	header.set(entry.name, 30);
+	return header;
+}
+
+function centralHeader(entry: WrittenEntry, modified: { time: number; date: number }): Uint8Array {
+	const header = new Uint8Array(46 + entry.name.length);
+	const view = new DataView(header.buffer);
+	view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+	view.setUint16(4, VERSION, true); // Made by
+	view.setUint16(6, VERSION, true); // Needed to extract
+	writeEntryFields(view, 8, entry, modified);
+	view.setUint32(42, entry.offset, true);
+	header.set(entry.name, 46);
+	return header;
+}
+
+function endOfCentralDirectory(count: number, size: number, offset: number): Uint8Array {
+	const record = new Uint8Array(22);
+	const view = new DataView(record.buffer);
+	view.setUint32(0, END_SIGNATURE, true);
+	view.setUint16(8, count, true);
+	view.setUint16(10, count, true);
+	view.setUint32(12, size, true);
+	view.setUint32(16, offset, true);
+	return record;
+}
+
+/**
+ * Stream a zip archive of the entries (read as the stream is consumed)
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>, modifiedAt = new Date()): ReadableStream<Uint8Array> {
+	const modified = toDosTime(modifiedAt);
+	const encoder = new TextEncoder();
+	const iterator = entries[Symbol.asyncIterator]();
+	const written: WrittenEntry[] = [];
+	let offset = 0;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const next = await iterator.next();
+
+			if (!next.done) {
+				const { name, data } = next.value;
+				const method = COMPRESSED_EXTENSIONS.test(name) ? STORE : DEFLATE;
+				const compressed = method === DEFLATE ? await deflate(data) : data;
+				const entry: WrittenEntry = {
+					name: encoder.encode(name),
+					method,
+					crc: crc32(data),
+					compressedSize: compressed.length,
+					size: data.length,
+					offset
+				};
+				const header = localHeader(entry, modified);
+
+				controller.enqueue(header);
+				controller.enqueue(new Uint8Array(compressed));
+				written.push(entry);
+				offset += header.length + compressed.length;
+				return;
+			}
+
+			// All entries written: the central directory closes the archive
+			let size = 0;
+			for (const entry of written) {
+				const header = centralHeader(entry, modified);
+				controller.enqueue(header);
+				size += header.length;
+			}
+			controller.enqueue(endOfCentralDirectory(written.length, size, offset));
+			controller.close();
+		},
+
+		async cancel() {
+			await iterator.return?.();
+		}
+	});
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { Position } from '$lib/types/events';
+import { createElement, event, fromDrafts } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { buildAutoLayoutUpdate } from './auto-layout-update';
+
+const base = reduceEvents([
+	createElement('stack'),
+	createElement('child-1', 'stack'),
+	createElement('child-2', 'stack'),
+	createElement('other'),
+	event('UPDATE_AUTO_LAYOUT', { elementId: 'stack', autoLayout: { enabled: true, direction: 'column' } })
+]);
+
+// Where the column layout rendered the children
+const rendered = new Map<string, Position>([
+	['child-1', { x: 0, y: 0 }],
+	['child-2', { x: 0, y: 100 }]
+]);
+
+describe('buildAutoLayoutUpdate', () => {
+	it('should move children to their rendered positions before turning auto layout off', () => {
+		const drafts = buildAutoLayoutUpdate(
+			base,
+			[
+				{ elementId: 'stack', autoLayout: { enabled: false } },
+				{ elementId: 'other', autoLayout: { enabled: false } }
+			],
+			() => rendered
+		);
+
+		expect(drafts.map((draft) => draft.type)).toEqual(['MOVE_ELEMENT', 'MOVE_ELEMENT', 'GROUP_UPDATE_AUTO_LAYOUT']);
+
+		const after = reduceEvents(fromDrafts(drafts, 'update'), base);
+		expect(after.elements['stack'].autoLayout?.enabled).toBe(false);
+		expect(after.elements['child-1'].position).toEqual({ x: 0, y: 0 });
+		expect(after.elements['child-2'].position).toEqual({ x: 0, y: 100 });
+	});
+
+	it('should not move children when auto layout is turned on', () => {
+		const drafts = buildAutoLayoutUpdate(
+			base,
+			[
+				{ elementId: 'stack', autoLayout: { gap: '8px' } },
+				{ elementId: 'other', autoLayout: { enabled: true } }
+			],
+			() => rendered
+		);
+
+		expect(drafts).toEqual([
+			{
+				type: 'GROUP_UPDATE_AUTO_LAYOUT',
+				payload: {
+					elements: [
+						{ elementId: 'stack', autoLayout: { gap: '8px' } },
+						{ elementId: 'other', autoLayout: { enabled: true } }
+					]
+				}
+			}
+		]);
+	});
+
+	it('should use a single element event for one change', () => {
+		const drafts = buildAutoLayoutUpdate(base, [{ elementId: 'stack', autoLayout: { enabled: false } }], () => rendered);
+
+		expect(drafts.map((draft) => draft.type)).toEqual(['MOVE_ELEMENT', 'MOVE_ELEMENT', 'UPDATE_AUTO_LAYOUT']);
+	});
+});
@@ -0,0 +1,54 @@
+/**
+ * Auto Layout Update - The events that change auto layout on one or more elements
+ *
+ * Turning auto layout off would drop children back to their stored positions, which
+ * are stale while the layout placed them. Children are moved to where they were
+ * rendered first, and the whole update is committed as one transaction (one undo step).
+ */
+
+import type { AutoLayoutStyle, DesignState, Element, Position } from '$lib/types/events';
+import type { EventDraft } from './compensating-events';
+
+export interface AutoLayoutChange {
+	elementId: string;
+	autoLayout: Partial<AutoLayoutStyle>;
+}
+
+/**
+ * Whether an update turns an element's auto layout off
+ */
+export function isDisablingAutoLayout(
+	element: Element | undefined,
+	autoLayout: Partial<AutoLayoutStyle>
+): element is Element {
+	return !!element && autoLayout.enabled === false && element.autoLayout?.enabled === true;
+}
+
+/**
+ * Events for an auto layout update, in dispatch order
+ *
+ * @param getChildPositions - Where the layout rendered an element's children (read from the DOM)
+ */
+export function buildAutoLayoutUpdate(
+	state: DesignState,
+	changes: AutoLayoutChange[],
+	getChildPositions: (element: Element) => Map<string, Position>
+): EventDraft[] {
+	const moves: EventDraft[] = [];
+	for (const { elementId, autoLayout } of changes) {
+		const element = state.elements[elementId];
+		if (!isDisablingAutoLayout(element, autoLayout)) continue;
+
+		for (const [childId, position] of getChildPositions(element)) {
+			moves.push({ type: 'MOVE_ELEMENT', payload: { elementId: childId, position, snapToBaseline: false } });
+		}
+	}
+
+	const update: EventDraft =
+		changes.length === 1
+			? { type: 'UPDATE_AUTO_LAYOUT', payload: changes[0] }
+			: { type: 'GROUP_UPDATE_AUTO_LAYOUT', payload: { elements: changes } };
+
+	// Children get their positions while the layout is still on, so they stay in place
+	return [...moves, update];
+}
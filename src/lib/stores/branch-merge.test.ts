@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignEvent } from '$lib/types/events';
+import { createElement, event, fromDrafts } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { mergeEventLogs, findMergeBase } from './branch-merge';
+import type { EventDraft } from './compensating-events';
+
+function apply(events: DesignEvent[], drafts: EventDraft[]) {
+	return reduceEvents([...events, ...fromDrafts(drafts, 'merge')]);
+}
+
+// Shared history both branches were forked from
+const shared = [event('CREATE_PAGE', { pageId: 'page-1', name: 'Home' }), createElement('hero')];
+
+describe('mergeEventLogs', () => {
+	it('should find where the logs diverge', () => {
+		const ours = [...shared, createElement('a')];
+		const theirs = [...shared, createElement('b')];
+
+		expect(findMergeBase(ours, theirs)).toBe(2);
+		expect(findMergeBase(shared, ours)).toBe(2);
+	});
+
+	it('should combine changes to different elements and properties', () => {
+		const ours = [
+			...shared,
+			event('MOVE_ELEMENT', { elementId: 'hero', position: { x: 40, y: 0 } })
+		];
+		const theirs = [
+			...shared,
+			event('UPDATE_STYLES', { elementId: 'hero', styles: { backgroundColor: 'navy' } }),
+			createElement('cta')
+		];
+
+		const { events, conflicts } = mergeEventLogs(ours, theirs);
+		const merged = apply(ours, events);
+
+		expect(conflicts).toEqual([]);
+		expect(merged.elements.hero.position).toEqual({ x: 40, y: 0 });
+		expect(merged.elements.hero.styles.backgroundColor).toBe('navy');
+		expect(merged.elements.cta).toBeDefined();
+	});
+
+	it('should report properties both branches changed and keep the chosen side', () => {
+		const ours = [
+			...shared,
+			event('UPDATE_STYLES', { elementId: 'hero', styles: { color: 'red' } })
+		];
+		const theirs = [
+			...shared,
+			event('UPDATE_STYLES', { elementId: 'hero', styles: { color: 'blue' } })
+		];
+
+		const keepOurs = mergeEventLogs(ours, theirs);
+		const takeTheirs = mergeEventLogs(ours, theirs, undefined, 'theirs');
+
+		expect(keepOurs.conflicts).toEqual([
+			expect.objectContaining({ elementId: 'hero', property: 'styles (color)', ours: 'red', theirs: 'blue' })
+		]);
+		expect(apply(ours, keepOurs.events).elements.hero.styles.color).toBe('red');
+		expect(apply(ours, takeTheirs.events).elements.hero.styles.color).toBe('blue');
+		expect(takeTheirs.conflicts).toHaveLength(1);
+	});
+
+	it('should not delete an element the other branch deleted if this branch edited it', () => {
+		const ours = [...shared, event('RENAME_ELEMENT', { elementId: 'hero', name: 'Hero' })];
+		const theirs = [...shared, event('DELETE_ELEMENT', { elementId: 'hero' })];
+
+		const { events, conflicts } = mergeEventLogs(ours, theirs);
+
+		expect(apply(ours, events).elements.hero).toBeDefined();
+		expect(conflicts.map((conflict) => conflict.message)).toEqual([
+			'"Hero" was deleted on the merged branch but edited on this one'
+		]);
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * Branch Merge - Three-way merge of two branches' event logs
+ *
+ * Both logs start with the events they shared when the branch was forked. The
+ * longest shared run of events is the merge base; each log reduced from it gives
+ * "ours" (the checked-out branch) and "theirs" (the branch being merged in).
+ * Everything theirs changed since the base is carried over to ours, property by
+ * property. When both sides changed the same property of the same element (or one
+ * deleted what the other edited), that is a conflict: it is reported, and the
+ * strategy decides which side wins.
+ */
+
+import type { DesignEvent, DesignState } from '$lib/types/events';
+import { reduceEvents } from './event-reducer';
+import { buildCompensation, isEqual } from './compensating-events';
+import type { CompensationConflict, EventDraft } from './compensating-events';
+
+export type MergeStrategy = 'ours' | 'theirs';
+
+export interface MergeConflict {
+	elementId: string | null; // null for pages, components and ordering
+	label: string;
+	property: string; // e.g. 'position', 'styles (color)', 'parent', 'element'
+	ours?: unknown;
+	theirs?: unknown;
+	message: string;
+}
+
+export interface MergeResult {
+	events: EventDraft[]; // Apply to ours to get the merged design
+	conflicts: MergeConflict[];
+	baseEventCount: number; // Events shared by both logs
+}
+
+/**
+ * Number of leading events both logs share
+ */
+export function findMergeBase(ours: DesignEvent[], theirs: DesignEvent[]): number {
+	const length = Math.min(ours.length, theirs.length);
+	let count = 0;
+	while (count < length && ours[count].id === theirs[count].id) count++;
+	return count;
+}
+
+function toMergeConflict(conflict: CompensationConflict): MergeConflict {
+	const subject =
+		conflict.property === 'element' || !conflict.label
+			? conflict.label || conflict.property
+			: `${conflict.property} of ${conflict.label}`;
+
+	let message: string;
+	switch (conflict.reason) {
+		case 'deleted':
+			message = `${conflict.label} was edited on the merged branch but deleted on this one`;
+			break;
+		case 'parent-removed':
+			message = `${conflict.label} can't be merged: its parent was deleted on this branch`;
+			break;
+		default:
+			message =
+				conflict.property === 'element'
+					? `${subject} was deleted on the merged branch but edited on this one`
+					: `${subject} was changed on both branches`;
+	}
+
+	return {
+		elementId: conflict.elementId,
+		label: conflict.label,
+		property: conflict.property,
+		ours: conflict.current,
+		theirs: conflict.target,
+		message
+	};
+}
+
+/**
+ * Merge the changes base -> theirs into ours
+ */
+export function mergeDesignStates(
+	base: DesignState,
+	ours: DesignState,
+	theirs: DesignState,
+	strategy: MergeStrategy = 'ours'
+): Omit<MergeResult, 'baseEventCount'> {
+	if (isEqual(base, theirs)) {
+		return { events: [], conflicts: [] };
+	}
+
+	// Putting theirs' changes back on top of ours is the same problem as undoing base -> theirs
+	const { events, conflicts } = buildCompensation(theirs, base, ours, {
+		overwrite: strategy === 'theirs'
+	});
+
+	return { events, conflicts: conflicts.map(toMergeConflict) };
+}
+
+/**
+ * Three-way merge of two event logs that share their first events
+ *
+ * @param initial - State both logs start from (their compacted baseline, if any)
+ */
+export function mergeEventLogs(
+	ours: DesignEvent[],
+	theirs: DesignEvent[],
+	initial?: DesignState,
+	strategy: MergeStrategy = 'ours'
+): MergeResult {
+	const baseEventCount = findMergeBase(ours, theirs);
+	const base = reduceEvents(ours.slice(0, baseEventCount), initial);
+	const oursState = reduceEvents(ours.slice(baseEventCount), base);
+	const theirsState = reduceEvents(theirs.slice(baseEventCount), base);
+
+	return { ...mergeDesignStates(base, oursState, theirsState, strategy), baseEventCount };
+}
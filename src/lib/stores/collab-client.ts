@@ -0,0 +1,341 @@
+/**
+ * Collaboration Client - One editor's side of a co-editing session
+ *
+ * Keeps the page log in two parts:
+ * - Confirmed events, in the server's commit order (identical for every editor)
+ * - Pending local transactions, sent but not yet committed
+ *
+ * The visible state is the confirmed state with the pending transactions
+ * replayed on top. When a remote commit arrives, it is appended to the
+ * confirmed part and the pending transactions are rebased onto it. When the
+ * server commits one of ours it moves to the confirmed part; when it rejects
+ * one, that transaction is dropped.
+ *
+ * Presence (cursor, page and selection) of the other editors is tracked alongside.
+ *
+ * When the connection drops, the client rejoins from its last confirmed event and
+ * only receives the commits it missed. Pending transactions that were committed in
+ * the meantime are taken from those commits; the rest are sent again.
+ */
+
+import type { DesignEvent, DesignState } from '$lib/types/events';
+import type {
+	CollabTransport,
+	CollabServerMessage,
+	CollabClientMessage,
+	CollabConnectionStatus,
+	Presence,
+	RemotePresence
+} from '$lib/types/collab';
+import { reduceEvents, getInitialState } from './event-reducer';
+
+export interface PendingTransaction {
+	transactionId: string;
+	events: DesignEvent[];
+}
+
+export type CollabChange =
+	| { kind: 'welcome' }
+	| { kind: 'resume'; events: DesignEvent[] } // Commits missed while reconnecting
+	| { kind: 'remote'; userId: string; events: DesignEvent[] }
+	| { kind: 'ack'; transactionId: string; events: DesignEvent[] }
+	| { kind: 'reject'; transactionId: string; reason: string; events: DesignEvent[] };
+
+export interface CollabClientOptions {
+	pageId: string;
+	onChange?: (change: CollabChange) => void;
+	onPresence?: (presence: RemotePresence[]) => void;
+	onConnectionChange?: (status: CollabConnectionStatus) => void; // 'connected' once rejoined
+}
+
+const RECONNECT_BASE_DELAY = 1000; // First reconnect attempt after this long (ms), doubled per failure
+const RECONNECT_MAX_DELAY = 30000;
+
+// Colours for other editors' cursors and selections
+const PRESENCE_COLORS = ['#e5484d', '#f76b15', '#30a46c', '#12a594', '#0090ff', '#8e4ec6', '#d6409f', '#ad7f58'];
+
+/**
+ * Colour for an editor - stable for a user across sessions and browsers
+ */
+export function getPresenceColor(userId: string): string {
+	let hash = 0;
+	for (let i = 0; i < userId.length; i++) {
+		hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+	}
+	return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+/**
+ * Join a page's co-editing session over a transport
+ */
+export function createCollabClient(transport: CollabTransport, options: CollabClientOptions) {
+	let clientId: string | null = null;
+	let userId: string | null = null;
+	let confirmedEvents: DesignEvent[] = [];
+	let confirmedState: DesignState = getInitialState();
+	let pending: PendingTransaction[] = [];
+	let state: DesignState = confirmedState;
+	let isJoined = false;
+	let isReconnecting = false;
+	let presence: Presence | null = null;
+	const remotePresence = new Map<string, RemotePresence>();
+
+	function notifyPresence(): void {
+		options.onPresence?.([...remotePresence.values()]);
+	}
+
+	function rebase(): void {
+		state =
+			pending.length === 0
+				? confirmedState
+				: reduceEvents(
+						pending.flatMap((transaction) => transaction.events),
+						confirmedState
+					);
+	}
+
+	function send(transaction: PendingTransaction): void {
+		const message: CollabClientMessage = {
+			type: 'submit',
+			transactionId: transaction.transactionId,
+			events: transaction.events
+		};
+		transport.send(message);
+	}
+
+	function join(): void {
+		const lastEvent = confirmedEvents[confirmedEvents.length - 1];
+		transport.send({
+			type: 'join',
+			pageId: options.pageId,
+			resume: lastEvent ? { seq: confirmedEvents.length, lastEventId: lastEvent.id } : undefined
+		});
+	}
+
+	function handleConnectionChange(status: CollabConnectionStatus): void {
+		if (status === 'reconnecting') {
+			isJoined = false;
+			isReconnecting = true;
+			remotePresence.clear();
+			notifyPresence();
+			options.onConnectionChange?.(status);
+		} else {
+			join();
+		}
+	}
+
+	function handleMessage(message: CollabServerMessage): void {
+		switch (message.type) {
+			case 'welcome': {
+				clientId = message.clientId;
+				userId = message.userId;
+				isJoined = true;
+				if (message.resumed) {
+					confirmedEvents = [...confirmedEvents, ...message.events];
+					confirmedState = reduceEvents(message.events, confirmedState);
+				} else {
+					confirmedEvents = message.events;
+					confirmedState = reduceEvents(message.events);
+				}
+				// Transactions committed while the connection was down are already in the log;
+				// the others were never sent, or were lost with the old connection
+				const committedIds = new Set(message.events.map((event) => event.transactionId));
+				pending = pending.filter((transaction) => !committedIds.has(transaction.transactionId));
+				pending.forEach(send);
+				if (presence) transport.send({ type: 'presence', presence });
+				rebase();
+				options.onChange?.(message.resumed ? { kind: 'resume', events: message.events } : { kind: 'welcome' });
+				if (isReconnecting) {
+					isReconnecting = false;
+					options.onConnectionChange?.('connected');
+				}
+
+				remotePresence.clear();
+				for (const entry of message.presence) {
+					remotePresence.set(entry.clientId, entry);
+				}
+				notifyPresence();
+				break;
+			}
+
+			case 'commit': {
+				confirmedEvents = [...confirmedEvents, ...message.events];
+				confirmedState = reduceEvents(message.events, confirmedState);
+
+				// Our transactions are committed in the order we sent them. One sent just before a
+				// reconnect can be committed from the old connection, so match by transaction, not client
+				const isOwn = message.userId === userId && pending[0]?.transactionId === message.transactionId;
+				if (isOwn) {
+					pending = pending.slice(1);
+				}
+				rebase();
+
+				options.onChange?.(
+					isOwn
+						? { kind: 'ack', transactionId: message.transactionId, events: message.events }
+						: { kind: 'remote', userId: message.userId, events: message.events }
+				);
+				break;
+			}
+
+			case 'reject': {
+				const rejected = pending.find((t) => t.transactionId === message.transactionId);
+				pending = pending.filter((t) => t.transactionId !== message.transactionId);
+				rebase();
+				options.onChange?.({
+					kind: 'reject',
+					transactionId: message.transactionId,
+					reason: message.reason,
+					events: rejected?.events ?? []
+				});
+				break;
+			}
+
+			case 'presence':
+				remotePresence.set(message.presence.clientId, message.presence);
+				notifyPresence();
+				break;
+
+			case 'leave':
+				if (remotePresence.delete(message.clientId)) notifyPresence();
+				break;
+
+			case 'error':
+				console.error('Collaboration error:', message.message);
+				break;
+		}
+	}
+
+	transport.onMessage(handleMessage);
+	transport.onConnectionChange?.(handleConnectionChange);
+	join();
+
+	return {
+		/**
+		 * Apply a local transaction immediately and send it to the server
+		 */
+		submit(transactionId: string, events: DesignEvent[]): void {
+			const transaction = { transactionId, events };
+			pending = [...pending, transaction];
+			state = reduceEvents(events, state);
+			if (isJoined) {
+				send(transaction);
+			}
+		},
+
+		/**
+		 * Share this editor's cursor, page and selection (the latest one is sent once joined)
+		 */
+		setPresence(next: Presence): void {
+			presence = next;
+			if (isJoined) {
+				transport.send({ type: 'presence', presence: next });
+			}
+		},
+
+		getRemotePresence: (): RemotePresence[] => [...remotePresence.values()],
+
+		/** Visible state: confirmed events plus pending local transactions */
+		getState: (): DesignState => state,
+
+		/** Confirmed events followed by pending events */
+		getEvents: (): DesignEvent[] => [
+			...confirmedEvents,
+			...pending.flatMap((transaction) => transaction.events)
+		],
+
+		getConfirmedCount: (): number => confirmedEvents.length,
+
+		getPendingTransactions: (): PendingTransaction[] => pending,
+
+		getClientId: (): string | null => clientId,
+
+		getUserId: (): string | null => userId,
+
+		close(): void {
+			transport.close();
+		}
+	};
+}
+
+export type CollabClient = ReturnType<typeof createCollabClient>;
+
+/**
+ * Connect to the collaboration server over WebSocket
+ * Messages sent before the socket opens are buffered. A dropped socket is reopened with
+ * exponential backoff; `getUrl` is called for every attempt so it can pick up a fresh token.
+ */
+export function createWebSocketTransport(getUrl: () => string): CollabTransport {
+	const buffer: CollabClientMessage[] = [];
+	let handler: ((message: CollabServerMessage) => void) | null = null;
+	let connectionHandler: ((status: CollabConnectionStatus) => void) | null = null;
+	let socket: WebSocket;
+	let isClosed = false;
+	let isDown = false;
+	let retryDelay = RECONNECT_BASE_DELAY;
+	let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+	function connect(): void {
+		socket = new WebSocket(getUrl());
+
+		socket.addEventListener('open', () => {
+			retryDelay = RECONNECT_BASE_DELAY;
+			if (isDown) {
+				isDown = false;
+				connectionHandler?.('connected');
+			}
+			for (const message of buffer.splice(0)) {
+				socket.send(JSON.stringify(message));
+			}
+		});
+
+		socket.addEventListener('message', (event) => {
+			try {
+				handler?.(JSON.parse(event.data));
+			} catch (error) {
+				console.error('Failed to handle collaboration message:', error);
+			}
+		});
+
+		socket.addEventListener('close', () => {
+			if (isClosed) return;
+			// Unsent messages are dropped - the client sends what it still needs once it rejoins
+			buffer.length = 0;
+			if (!isDown) {
+				isDown = true;
+				connectionHandler?.('reconnecting');
+			}
+			retryTimer = setTimeout(() => {
+				retryTimer = null;
+				connect();
+			}, retryDelay);
+			retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_DELAY);
+		});
+	}
+
+	connect();
+
+	return {
+		send(message) {
+			if (socket.readyState === WebSocket.OPEN) {
+				socket.send(JSON.stringify(message));
+			} else {
+				buffer.push(message);
+			}
+		},
+		onMessage(next) {
+			handler = next;
+		},
+		onConnectionChange(next) {
+			connectionHandler = next;
+		},
+		close() {
+			isClosed = true;
+			if (retryTimer !== null) {
+				clearTimeout(retryTimer);
+				retryTimer = null;
+			}
+			socket.close();
+		}
+	};
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignState } from '$lib/types/events';
+import { createElement, event, fromDrafts } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { buildCompensation, describeConflict } from './compensating-events';
+import type { EventDraft } from './compensating-events';
+
+function apply(state: DesignState, drafts: EventDraft[]): DesignState {
+	return reduceEvents(fromDrafts(drafts, 'undo'), state);
+}
+
+const base = reduceEvents([
+	event('CREATE_PAGE', { pageId: 'page-1', name: 'Home' }),
+	createElement('element-1')
+]);
+
+describe('buildCompensation', () => {
+	it('should revert changed properties', () => {
+		const after = reduceEvents(
+			[
+				event('MOVE_ELEMENT', { elementId: 'element-1', position: { x: 50, y: 50 } }),
+				event('UPDATE_STYLES', { elementId: 'element-1', styles: { color: 'red' } })
+			],
+			base
+		);
+
+		const { events, conflicts } = buildCompensation(base, after, after);
+		const undone = apply(after, events);
+
+		expect(conflicts).toEqual([]);
+		expect(undone.elements['element-1'].position).toEqual({ x: 0, y: 0 });
+		expect(undone.elements['element-1'].styles).not.toHaveProperty('color');
+	});
+
+	it('should remove typography keys the transaction added instead of blanking them', () => {
+		const withFont = reduceEvents(
+			[event('UPDATE_TYPOGRAPHY', { elementId: 'element-1', typography: { fontFamily: 'Inter' } })],
+			base
+		);
+		const after = reduceEvents(
+			[event('UPDATE_TYPOGRAPHY', { elementId: 'element-1', typography: { baselineGrid: 8, fontFamily: 'Lora' } })],
+			withFont
+		);
+
+		const { events } = buildCompensation(withFont, after, after);
+		const undone = apply(after, events);
+
+		expect(events).toEqual([
+			{
+				type: 'UPDATE_TYPOGRAPHY',
+				payload: { elementId: 'element-1', typography: { fontFamily: 'Inter' }, unset: ['baselineGrid'] }
+			}
+		]);
+		expect(undone.elements['element-1'].typography).toEqual(withFont.elements['element-1'].typography);
+	});
+
+	it('should clear the name and width when undoing a view toggle on an unnamed element', () => {
+		const after = reduceEvents(
+			[event('TOGGLE_VIEW', { elementId: 'element-1', isView: true, viewName: 'Desktop', breakpointWidth: 1280 })],
+			base
+		);
+
+		const { events } = buildCompensation(base, after, after);
+		const undone = apply(after, events);
+
+		expect(events).toEqual([
+			{
+				type: 'TOGGLE_VIEW',
+				payload: {
+					elementId: 'element-1',
+					isView: false,
+					viewName: undefined,
+					breakpointWidth: undefined,
+					unset: ['viewName', 'breakpointWidth']
+				}
+			}
+		]);
+		expect(undone.elements['element-1'].isView).toBe(false);
+		expect(undone.elements['element-1']).not.toHaveProperty('viewName');
+		expect(undone.elements['element-1']).not.toHaveProperty('breakpointWidth');
+	});
+
+	it("should keep another editor's later change to the same property", () => {
+		const after = reduceEvents(
+			[event('MOVE_ELEMENT', { elementId: 'element-1', position: { x: 50, y: 50 } })],
+			base
+		);
+		const current = reduceEvents(
+			[
+				event('MOVE_ELEMENT', { elementId: 'element-1', position: { x: 80, y: 80 } }),
+				event('UPDATE_STYLES', { elementId: 'element-1', styles: { color: 'blue' } })
+			],
+			after
+		);
+
+		const { events, conflicts } = buildCompensation(base, after, current);
+		const undone = apply(current, events);
+
+		expect(conflicts).toHaveLength(1);
+		expect(undone.elements['element-1'].position).toEqual({ x: 80, y: 80 });
+		expect(undone.elements['element-1'].styles.color).toBe('blue');
+	});
+
+	it('should delete created elements unless someone changed them since', () => {
+		const after = reduceEvents([createElement('element-2'), createElement('element-3')], base);
+		const current = reduceEvents(
+			[event('RENAME_ELEMENT', { elementId: 'element-3', name: 'Hero' })],
+			after
+		);
+
+		const { events, conflicts } = buildCompensation(base, after, current);
+		const undone = apply(current, events);
+
+		expect(undone.elements['element-2']).toBeUndefined();
+		expect(undone.elements['element-3']).toBeDefined();
+		expect(conflicts.map(describeConflict)).toEqual(['"Hero" was changed by someone else']);
+	});
+
+	it('should recreate deleted elements with their children and layer order', () => {
+		const before = reduceEvents(
+			[
+				createElement('element-2'),
+				createElement('child-1', 'element-2'),
+				event('UPDATE_TYPOGRAPHY', { elementId: 'child-1', typography: { fontSize: '24px' } }),
+				event('REORDER_ELEMENT', { elementId: 'element-2', newParentId: null, newIndex: 0 })
+			],
+			base
+		);
+		const after = reduceEvents([event('DELETE_ELEMENT', { elementId: 'element-2' })], before);
+
+		const { events, conflicts } = buildCompensation(before, after, after);
+		const undone = apply(after, events);
+
+		expect(conflicts).toEqual([]);
+		expect(undone.pages['page-1'].canvasElements).toEqual(['element-2', 'element-1']);
+		expect(undone.elements['element-2'].children).toEqual(['child-1']);
+		expect(undone.elements['child-1'].typography).toEqual({ fontSize: '24px' });
+	});
+
+	it('should put ruler guides back', () => {
+		const before = reduceEvents(
+			[
+				event('CREATE_GUIDE', { guideId: 'guide-1', pageId: 'page-1', viewId: null, axis: 'x', position: 100 }),
+				event('CREATE_GUIDE', { guideId: 'guide-2', pageId: 'page-1', viewId: null, axis: 'y', position: 40 })
+			],
+			base
+		);
+		const after = reduceEvents(
+			[
+				event('MOVE_GUIDE', { guideId: 'guide-1', position: 180 }),
+				event('DELETE_GUIDE', { guideId: 'guide-2' }),
+				event('CREATE_GUIDE', { guideId: 'guide-3', pageId: 'page-1', viewId: null, axis: 'x', position: 0 })
+			],
+			before
+		);
+
+		const { events, conflicts } = buildCompensation(before, after, after);
+		const undone = apply(after, events);
+
+		expect(conflicts).toEqual([]);
+		expect(undone.guides).toEqual(before.guides);
+	});
+});
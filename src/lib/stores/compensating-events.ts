@@ -0,0 +1,757 @@
+/**
+ * Compensating Events - Undo a transaction by appending events instead of rewinding the log
+ *
+ * In a co-editing session the log is shared, so undo can't truncate it: other
+ * editors' later changes would be lost. Instead, the state before and after the
+ * transaction is compared and events are built that put back what it changed.
+ *
+ * Conflict policy: every change is reverted per property. If another editor has
+ * changed the same property since (its current value no longer matches the value
+ * the transaction left), their newer change wins and the property is reported as a
+ * conflict. Elements that were removed since can't be edited, and elements the
+ * transaction created are only deleted if nobody has changed them since.
+ */
+
+import type {
+	DesignEvent,
+	DesignState,
+	Element,
+	ElementStyles,
+	TypographyStyle,
+	SpacingStyle,
+	AutoLayoutStyle
+} from '$lib/types/events';
+import { reduceEvent, reduceEvents } from './event-reducer';
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * An event without ID and timestamp - stamped when dispatched
+ */
+export type EventDraft = DistributiveOmit<DesignEvent, 'id' | 'timestamp'>;
+
+/**
+ * A change that couldn't be put back because `current` no longer matches
+ */
+export interface CompensationConflict {
+	elementId: string | null; // null for pages, components, guides and ordering
+	label: string; // e.g. '"Hero"', 'page "Home"' ('' for page order)
+	property: string; // e.g. 'position', 'styles (color)', 'parent', 'element', 'layer order'
+	reason: 'changed' | 'deleted' | 'parent-removed';
+	current?: unknown; // Value now
+	target?: unknown; // Value that would have been restored
+}
+
+export interface Compensation {
+	events: EventDraft[];
+	conflicts: CompensationConflict[]; // Changes left alone because someone else changed the same thing since
+}
+
+export interface CompensationOptions {
+	overwrite?: boolean; // Restore conflicting properties anyway (they are still reported)
+}
+
+/**
+ * Apply drafts to a state (the reducer only reads type and payload)
+ */
+function applyDrafts(state: DesignState, drafts: EventDraft[]): DesignState {
+	return reduceEvents(drafts.map((draft) => ({ ...draft, id: '', timestamp: 0 }) as DesignEvent), state);
+}
+
+/**
+ * Whether the elements two lists share are in the same relative order
+ */
+function isSameOrder(a: string[], b: string[]): boolean {
+	return isEqual(
+		a.filter((id) => b.includes(id)),
+		b.filter((id) => a.includes(id))
+	);
+}
+
+/**
+ * Structural equality of plain state values
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+	const aRecord = a as Record<string, unknown>;
+	const bRecord = b as Record<string, unknown>;
+	const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+	for (const key of keys) {
+		if (!isEqual(aRecord[key], bRecord[key])) return false;
+	}
+	return true;
+}
+
+function describeElement(element: Element): string {
+	return element.name ? `"${element.name}"` : `${element.type} ${element.id}`;
+}
+
+/**
+ * Explain a conflict in undo terms ("... was changed by someone else")
+ */
+export function describeConflict(conflict: CompensationConflict): string {
+	const subject =
+		conflict.property === 'element' || !conflict.label
+			? conflict.label || conflict.property
+			: `${conflict.property} of ${conflict.label}`;
+
+	switch (conflict.reason) {
+		case 'deleted':
+			return `${conflict.label} was deleted by someone else`;
+		case 'parent-removed':
+			return `${conflict.label} can't be restored: its parent was removed by someone else`;
+		default:
+			return `${subject} was changed by someone else`;
+	}
+}
+
+// ============================================================================
+// Element Properties
+// ============================================================================
+
+interface ScalarProperty {
+	label: string;
+	get: (element: Element) => unknown;
+	restore: (target: Element) => EventDraft;
+}
+
+/**
+ * Properties restored with one event each
+ * (parent and layer order are restored separately, see restoreOrder)
+ */
+const SCALAR_PROPERTIES: ScalarProperty[] = [
+	{
+		label: 'position',
+		get: (element) => element.position,
+		restore: (target) => ({
+			type: 'MOVE_ELEMENT',
+			payload: { elementId: target.id, position: target.position }
+		})
+	},
+	{
+		label: 'size',
+		get: (element) => element.size,
+		restore: (target) => ({
+			type: 'RESIZE_ELEMENT',
+			payload: { elementId: target.id, size: target.size }
+		})
+	},
+	{
+		label: 'rotation',
+		get: (element) => element.rotation ?? 0,
+		restore: (target) => ({
+			type: 'ROTATE_ELEMENT',
+			payload: { elementId: target.id, rotation: target.rotation ?? 0 }
+		})
+	},
+	{
+		label: 'visibility',
+		get: (element) => element.visible ?? true,
+		restore: (target) => ({
+			type: 'TOGGLE_VISIBILITY',
+			payload: { elementId: target.id, visible: target.visible ?? true }
+		})
+	},
+	{
+		label: 'lock',
+		get: (element) => element.locked ?? false,
+		restore: (target) => ({
+			type: 'TOGGLE_LOCK',
+			payload: { elementId: target.id, locked: target.locked ?? false }
+		})
+	},
+	{
+		label: 'name',
+		get: (element) => element.name ?? '',
+		restore: (target) => ({
+			type: 'RENAME_ELEMENT',
+			payload: { elementId: target.id, name: target.name ?? '' }
+		})
+	},
+	{
+		label: 'view',
+		get: (element) => [element.isView ?? false, element.viewName || undefined, element.breakpointWidth || undefined],
+		// TOGGLE_VIEW keeps the current name and width when they are left out, so clear them explicitly
+		restore: (target) => ({
+			type: 'TOGGLE_VIEW',
+			payload: {
+				elementId: target.id,
+				isView: target.isView ?? false,
+				viewName: target.viewName || undefined,
+				breakpointWidth: target.breakpointWidth || undefined,
+				...withUnset([
+					...(target.viewName ? [] : ['viewName' as const]),
+					...(target.breakpointWidth ? [] : ['breakpointWidth' as const])
+				])
+			}
+		})
+	},
+	{
+		label: 'baseline snapping',
+		get: (element) => element.baselineSnap ?? false,
+		restore: (target) => ({
+			type: 'TOGGLE_BASELINE_SNAP',
+			payload: { elementId: target.id, enabled: target.baselineSnap ?? false }
+		})
+	},
+	{
+		label: 'layout grid',
+		get: (element) => element.layoutGrid ?? null,
+		restore: (target) => ({
+			type: 'SET_LAYOUT_GRID',
+			payload: { elementId: target.id, layoutGrid: target.layoutGrid ?? null }
+		})
+	}
+];
+
+// Helper: `unset` payload field, left out when no keys are removed
+function withUnset<K extends string>(keys: K[]): { unset?: K[] } {
+	return keys.length > 0 ? { unset: keys } : {};
+}
+
+interface MapProperty {
+	label: string;
+	get: (element: Element) => Record<string, unknown>;
+	restore: (elementId: string, changes: Record<string, unknown>, unset: string[]) => EventDraft;
+}
+
+/**
+ * Properties holding several keys - merged by the reducer, so each key is restored on its own
+ * A key the transaction added is removed through the event's `unset` list
+ */
+const MAP_PROPERTIES: MapProperty[] = [
+	{
+		label: 'content',
+		get: (element) => ({
+			content: element.content,
+			alt: element.alt,
+			href: element.href,
+			src: element.src
+		}),
+		restore: (elementId, changes, unset) => ({
+			type: 'UPDATE_ELEMENT',
+			payload: {
+				elementId,
+				changes: changes as { content?: string },
+				...withUnset(unset as Array<'content' | 'alt' | 'href' | 'src'>)
+			}
+		})
+	},
+	{
+		label: 'styles',
+		get: (element) => element.styles,
+		restore: (elementId, changes, unset) => ({
+			type: 'UPDATE_STYLES',
+			payload: {
+				elementId,
+				styles: changes as Partial<ElementStyles>,
+				...withUnset(unset as Array<keyof ElementStyles>)
+			}
+		})
+	},
+	{
+		label: 'typography',
+		get: (element) => element.typography,
+		restore: (elementId, changes, unset) => ({
+			type: 'UPDATE_TYPOGRAPHY',
+			payload: {
+				elementId,
+				typography: changes as Partial<TypographyStyle>,
+				...withUnset(unset as Array<keyof TypographyStyle>)
+			}
+		})
+	},
+	{
+		label: 'spacing',
+		get: (element) => element.spacing,
+		restore: (elementId, changes, unset) => ({
+			type: 'UPDATE_SPACING',
+			payload: {
+				elementId,
+				spacing: changes as Partial<SpacingStyle>,
+				...withUnset(unset as Array<keyof SpacingStyle>)
+			}
+		})
+	},
+	{
+		label: 'auto layout',
+		get: (element) => element.autoLayout ?? {},
+		restore: (elementId, changes, unset) => ({
+			type: 'UPDATE_AUTO_LAYOUT',
+			payload: {
+				elementId,
+				autoLayout: changes as Partial<AutoLayoutStyle>,
+				...withUnset(unset as Array<keyof AutoLayoutStyle>)
+			}
+		})
+	}
+];
+
+/**
+ * Restore the properties `from` -> `target` changed, where `current` still matches `from`
+ * (or everywhere with `overwrite`)
+ */
+function restoreProperties(
+	target: Element,
+	from: Element,
+	current: Element,
+	conflicts: CompensationConflict[],
+	overwrite = false
+): EventDraft[] {
+	const drafts: EventDraft[] = [];
+	const conflict = (property: string, currentValue: unknown, targetValue: unknown) =>
+		conflicts.push({
+			elementId: current.id,
+			label: describeElement(current),
+			property,
+			reason: 'changed',
+			current: currentValue,
+			target: targetValue
+		});
+
+	for (const property of SCALAR_PROPERTIES) {
+		if (isEqual(property.get(from), property.get(target))) continue;
+		// Already where it should be
+		if (isEqual(property.get(current), property.get(target))) continue;
+
+		const unchanged = isEqual(property.get(current), property.get(from));
+		if (!unchanged) conflict(property.label, property.get(current), property.get(target));
+		if (unchanged || overwrite) drafts.push(property.restore(target));
+	}
+
+	for (const property of MAP_PROPERTIES) {
+		const fromMap = property.get(from);
+		const targetMap = property.get(target);
+		const currentMap = property.get(current);
+		const changes: Record<string, unknown> = {};
+		const unset: string[] = [];
+
+		for (const key of new Set([...Object.keys(fromMap), ...Object.keys(targetMap)])) {
+			if (isEqual(fromMap[key], targetMap[key])) continue;
+			if (isEqual(currentMap[key], targetMap[key])) continue;
+
+			const unchanged = isEqual(currentMap[key], fromMap[key]);
+			if (!unchanged) conflict(`${property.label} (${key})`, currentMap[key], targetMap[key]);
+			if (!unchanged && !overwrite) continue;
+
+			if (targetMap[key] === undefined) {
+				unset.push(key);
+			} else {
+				changes[key] = targetMap[key];
+			}
+		}
+
+		if (Object.keys(changes).length > 0 || unset.length > 0) {
+			drafts.push(property.restore(target.id, changes, unset));
+		}
+	}
+
+	return drafts;
+}
+
+// ============================================================================
+// Guides
+// ============================================================================
+
+/**
+ * Put ruler guides back: recreate deleted ones, delete created ones, restore position and lock
+ */
+function restoreGuides(
+	before: DesignState,
+	after: DesignState,
+	current: DesignState,
+	conflicts: CompensationConflict[],
+	overwrite: boolean
+): EventDraft[] {
+	const drafts: EventDraft[] = [];
+	const beforeGuides = before.guides ?? {};
+	const afterGuides = after.guides ?? {};
+	const currentGuides = current.guides ?? {};
+
+	for (const guide of Object.values(beforeGuides)) {
+		if (afterGuides[guide.id] || currentGuides[guide.id]) continue;
+		const { id: guideId, pageId, viewId, axis, position, locked } = guide;
+		drafts.push({ type: 'CREATE_GUIDE', payload: { guideId, pageId, viewId, axis, position, locked } });
+	}
+
+	for (const guide of Object.values(afterGuides)) {
+		const original = beforeGuides[guide.id];
+		const now = currentGuides[guide.id];
+		if (!now) continue;
+
+		if (!original) {
+			// Created by the transaction - delete it unless it was changed since
+			if (isEqual(now, guide)) {
+				drafts.push({ type: 'DELETE_GUIDE', payload: { guideId: guide.id } });
+			} else {
+				conflicts.push({ elementId: null, label: 'guide', property: 'guide', reason: 'changed' });
+			}
+			continue;
+		}
+
+		for (const key of ['position', 'locked'] as const) {
+			if (original[key] === guide[key] || now[key] === original[key]) continue;
+			if (now[key] !== guide[key]) {
+				conflicts.push({
+					elementId: null,
+					label: 'guide',
+					property: key,
+					reason: 'changed',
+					current: now[key],
+					target: original[key]
+				});
+			}
+			if (now[key] !== guide[key] && !overwrite) continue;
+
+			drafts.push(
+				key === 'position'
+					? { type: 'MOVE_GUIDE', payload: { guideId: guide.id, position: original.position } }
+					: { type: 'TOGGLE_GUIDE_LOCK', payload: { guideId: guide.id, locked: original.locked } }
+			);
+		}
+	}
+
+	return drafts;
+}
+
+// ============================================================================
+// Layer Order
+// ============================================================================
+
+/**
+ * Child lists of every container (page canvases and elements), keyed by parent
+ */
+function getChildLists(state: DesignState): Map<string, { pageId: string; parentId: string | null; ids: string[] }> {
+	const lists = new Map<string, { pageId: string; parentId: string | null; ids: string[] }>();
+
+	for (const page of Object.values(state.pages)) {
+		lists.set(`page:${page.id}`, { pageId: page.id, parentId: null, ids: page.canvasElements });
+	}
+	for (const element of Object.values(state.elements)) {
+		lists.set(`element:${element.id}`, {
+			pageId: element.pageId,
+			parentId: element.id,
+			ids: element.children
+		});
+	}
+
+	return lists;
+}
+
+/**
+ * Put children back in the order they had before, in containers nobody else has reordered since
+ * Runs last, on the state the other compensating events produce
+ */
+function restoreOrder(
+	before: DesignState,
+	after: DesignState,
+	current: DesignState,
+	projected: DesignState,
+	conflicts: CompensationConflict[]
+): EventDraft[] {
+	const drafts: EventDraft[] = [];
+	const beforeLists = getChildLists(before);
+	const afterLists = getChildLists(after);
+	const currentLists = getChildLists(current);
+
+	for (const [key, projectedList] of getChildLists(projected)) {
+		const beforeList = beforeLists.get(key);
+		const afterList = afterLists.get(key);
+		const currentList = currentLists.get(key);
+		if (!beforeList || !afterList || !currentList || isEqual(beforeList.ids, afterList.ids)) continue;
+
+		if (!isSameOrder(currentList.ids, afterList.ids)) {
+			const parent = currentList.parentId ? current.elements[currentList.parentId] : null;
+			conflicts.push({
+				elementId: currentList.parentId,
+				label: parent ? describeElement(parent) : `page "${current.pages[currentList.pageId]?.name}"`,
+				property: 'layer order',
+				reason: 'changed'
+			});
+			continue;
+		}
+
+		// Elements added by others since stay on top
+		const present = new Set(projectedList.ids);
+		const desired = [
+			...beforeList.ids.filter((id) => present.has(id)),
+			...projectedList.ids.filter((id) => !beforeList.ids.includes(id))
+		];
+		if (isEqual(desired, projectedList.ids)) continue;
+
+		desired.forEach((elementId, index) => {
+			drafts.push({
+				type: 'REORDER_ELEMENT',
+				payload: { elementId, newParentId: projectedList.parentId, newIndex: index }
+			});
+		});
+	}
+
+	return drafts;
+}
+
+// ============================================================================
+// Compensation
+// ============================================================================
+
+/**
+ * Build the events that undo a transaction
+ *
+ * More generally: carry the changes `after` -> `before` over to `current`
+ * (branch merges use this with the branch head as `before` and the merge base as `after`)
+ *
+ * @param before - State just before the transaction
+ * @param after - State just after the transaction
+ * @param current - State now, including everything committed since
+ */
+export function buildCompensation(
+	before: DesignState,
+	after: DesignState,
+	current: DesignState,
+	options: CompensationOptions = {}
+): Compensation {
+	const conflicts: CompensationConflict[] = [];
+	const overwrite = options.overwrite ?? false;
+	const pageEvents: EventDraft[] = [];
+	const createEvents: EventDraft[] = [];
+	const updateEvents: EventDraft[] = [];
+	const deleteEvents: EventDraft[] = [];
+	const trailingEvents: EventDraft[] = [];
+
+	// Pages the transaction deleted come back first, so their elements have somewhere to go
+	for (const [pageId, page] of Object.entries(before.pages)) {
+		if (after.pages[pageId] || current.pages[pageId]) continue;
+		pageEvents.push({ type: 'CREATE_PAGE', payload: { pageId, name: page.name, slug: page.slug } });
+	}
+
+	for (const [pageId, page] of Object.entries(after.pages)) {
+		const original = before.pages[pageId];
+		const now = current.pages[pageId];
+		if (!now) continue;
+
+		if (!original) {
+			// Created by the transaction - delete it unless someone has worked on it since
+			if (isEqual(now, page)) {
+				trailingEvents.push({ type: 'DELETE_PAGE', payload: { pageId } });
+			} else {
+				conflicts.push({ elementId: null, label: `page "${now.name}"`, property: 'element', reason: 'changed' });
+			}
+			continue;
+		}
+
+		const changes: { name?: string; slug?: string } = {};
+		for (const key of ['name', 'slug'] as const) {
+			if (original[key] === page[key] || now[key] === original[key]) continue;
+			if (now[key] !== page[key]) {
+				conflicts.push({
+					elementId: null,
+					label: `page "${now.name}"`,
+					property: key,
+					reason: 'changed',
+					current: now[key],
+					target: original[key]
+				});
+			}
+			if (now[key] === page[key] || overwrite) {
+				changes[key] = original[key];
+			}
+		}
+		if (Object.keys(changes).length > 0) {
+			updateEvents.push({ type: 'UPDATE_PAGE', payload: { pageId, changes } });
+		}
+	}
+
+	// Elements the transaction deleted are recreated parents first
+	const recreated = new Set<string>();
+	const recreate = (element: Element) => {
+		const parentExists = element.parentId
+			? recreated.has(element.parentId) || !!current.elements[element.parentId]
+			: true;
+		const pageExists =
+			!!current.pages[element.pageId] ||
+			pageEvents.some((draft) => draft.type === 'CREATE_PAGE' && draft.payload.pageId === element.pageId);
+		if (!parentExists || !pageExists) {
+			conflicts.push({
+				elementId: element.id,
+				label: describeElement(element),
+				property: 'parent',
+				reason: 'parent-removed'
+			});
+			return;
+		}
+
+		const create: EventDraft = {
+			type: 'CREATE_ELEMENT',
+			payload: {
+				elementId: element.id,
+				parentId: element.parentId,
+				pageId: element.pageId,
+				elementType: element.type,
+				position: element.position,
+				size: element.size,
+				styles: element.styles,
+				content: element.content
+			}
+		};
+		createEvents.push(create);
+		recreated.add(element.id);
+
+		// Properties CREATE_ELEMENT can't carry
+		const created = reduceEvent(before, { ...create, id: '', timestamp: 0 } as DesignEvent).elements[element.id];
+		createEvents.push(...restoreProperties(element, created, created, conflicts));
+
+		for (const childId of element.children) {
+			const child = before.elements[childId];
+			if (child && !after.elements[childId] && !current.elements[childId]) recreate(child);
+		}
+	};
+
+	for (const element of Object.values(before.elements)) {
+		if (after.elements[element.id] || current.elements[element.id]) continue;
+		// Descendants are recreated along with their parent
+		const parent = element.parentId ? before.elements[element.parentId] : null;
+		if (parent && !after.elements[parent.id] && !current.elements[parent.id]) continue;
+		recreate(element);
+	}
+
+	const deletedIds: string[] = [];
+	for (const element of Object.values(after.elements)) {
+		const original = before.elements[element.id];
+		const now = current.elements[element.id];
+
+		if (!now) {
+			if (original && !isEqual(original, element)) {
+				conflicts.push({
+					elementId: element.id,
+					label: describeElement(element),
+					property: 'element',
+					reason: 'deleted'
+				});
+			}
+			continue;
+		}
+
+		if (!original) {
+			// Created by the transaction - delete it (with its children) unless it was changed since
+			const parentCreated = !!element.parentId && !before.elements[element.parentId];
+			if (!isEqual(now, element)) {
+				conflicts.push({
+					elementId: element.id,
+					label: describeElement(now),
+					property: 'element',
+					reason: 'changed'
+				});
+			} else if (!parentCreated) {
+				// Children created along with their parent go with it
+				deletedIds.push(element.id);
+			}
+			continue;
+		}
+
+		if (original.parentId !== element.parentId) {
+			const parentAvailable =
+				!original.parentId || recreated.has(original.parentId) || !!current.elements[original.parentId];
+			if (now.parentId === original.parentId) {
+				// Already back under its original parent
+			} else if (now.parentId !== element.parentId && !overwrite) {
+				conflicts.push({
+					elementId: element.id,
+					label: describeElement(now),
+					property: 'parent',
+					reason: 'changed',
+					current: now.parentId,
+					target: original.parentId
+				});
+			} else if (!parentAvailable) {
+				conflicts.push({
+					elementId: element.id,
+					label: describeElement(now),
+					property: 'parent',
+					reason: 'parent-removed'
+				});
+			} else {
+				// Index is fixed by restoreOrder
+				updateEvents.push({
+					type: 'REORDER_ELEMENT',
+					payload: { elementId: element.id, newParentId: original.parentId, newIndex: 0 }
+				});
+			}
+		}
+
+		updateEvents.push(...restoreProperties(original, element, now, conflicts, overwrite));
+	}
+	if (deletedIds.length > 0) {
+		deleteEvents.push({ type: 'GROUP_DELETE_ELEMENTS', payload: { elementIds: deletedIds } });
+	}
+
+	// Groups and components
+	for (const groupId of Object.keys(after.groups)) {
+		if (!before.groups[groupId] && current.groups[groupId]) {
+			trailingEvents.push({ type: 'UNGROUP_ELEMENTS', payload: { groupId } });
+		}
+	}
+	for (const [groupId, group] of Object.entries(before.groups)) {
+		if (after.groups[groupId] || current.groups[groupId]) continue;
+		trailingEvents.push({ type: 'GROUP_ELEMENTS', payload: { groupId, elementIds: group.elementIds } });
+	}
+
+	for (const [componentId, component] of Object.entries(after.components)) {
+		const original = before.components[componentId];
+		const now = current.components[componentId];
+		if (!now) continue;
+
+		if (!original) {
+			trailingEvents.push({ type: 'DELETE_COMPONENT', payload: { componentId } });
+		} else if (original.name !== component.name && now.name !== original.name) {
+			if (now.name !== component.name) {
+				conflicts.push({
+					elementId: null,
+					label: `component "${now.name}"`,
+					property: 'name',
+					reason: 'changed',
+					current: now.name,
+					target: original.name
+				});
+			}
+			if (now.name === component.name || overwrite) {
+				trailingEvents.push({
+					type: 'UPDATE_COMPONENT',
+					payload: { componentId, changes: { name: original.name } }
+				});
+			}
+		}
+	}
+	for (const [componentId, component] of Object.entries(before.components)) {
+		if (after.components[componentId] || current.components[componentId]) continue;
+		trailingEvents.push({
+			type: 'CREATE_COMPONENT',
+			payload: { componentId, name: component.name, elementIds: component.elementIds }
+		});
+	}
+
+	trailingEvents.push(...restoreGuides(before, after, current, conflicts, overwrite));
+
+	const events = [...pageEvents, ...createEvents, ...updateEvents, ...deleteEvents, ...trailingEvents];
+	const projected = applyDrafts(current, events);
+
+	if (!isEqual(before.pageOrder, after.pageOrder)) {
+		if (isEqual(current.pageOrder, after.pageOrder)) {
+			const pageIds = [
+				...before.pageOrder.filter((id) => projected.pages[id]),
+				...projected.pageOrder.filter((id) => !before.pageOrder.includes(id))
+			];
+			if (!isEqual(pageIds, projected.pageOrder)) {
+				events.push({ type: 'REORDER_PAGES', payload: { pageIds } });
+			}
+		} else if (!isEqual(current.pageOrder, before.pageOrder)) {
+			conflicts.push({ elementId: null, label: '', property: 'page order', reason: 'changed' });
+		}
+	}
+
+	events.push(...restoreOrder(before, after, current, projected, conflicts));
+
+	return { events, conflicts };
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { createElement, event } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { diffDesignStates } from './design-diff';
+
+const base = reduceEvents([
+	event('CREATE_PAGE', { pageId: 'page-1', name: 'Home' }),
+	createElement('parent-1'),
+	createElement('child-1', 'parent-1'),
+	createElement('element-1'),
+	createElement('element-2')
+]);
+
+describe('diffDesignStates', () => {
+	it('should report added, removed, restyled and re-parented elements', () => {
+		const after = reduceEvents(
+			[
+				createElement('element-3'),
+				event('DELETE_ELEMENT', { elementId: 'element-2' }),
+				event('UPDATE_STYLES', { elementId: 'element-1', styles: { backgroundColor: 'red' } }),
+				event('REORDER_ELEMENT', { elementId: 'element-1', newParentId: 'parent-1', newIndex: 0 })
+			],
+			base
+		);
+
+		const diff = diffDesignStates(base, after);
+		const byId = Object.fromEntries(diff.elements.map((change) => [change.elementId, change]));
+
+		expect(byId['element-3'].kinds).toEqual(['added']);
+		expect(byId['element-2'].kinds).toEqual(['removed']);
+		expect(byId['element-1'].kinds).toEqual(expect.arrayContaining(['restyled', 'reparented']));
+		expect(byId['element-1'].properties).toContainEqual({
+			property: 'styles.backgroundColor',
+			before: undefined,
+			after: 'red'
+		});
+		expect(diff.counts.added).toBe(1);
+		expect(diff.counts.removed).toBe(1);
+	});
+
+	it('should compare positions on the canvas, not relative to the parent', () => {
+		const after = reduceEvents(
+			[event('MOVE_ELEMENT', { elementId: 'parent-1', position: { x: 50, y: 10 } })],
+			base
+		);
+
+		const diff = diffDesignStates(base, after);
+		const moved = diff.elements.filter((change) => change.kinds.includes('moved'));
+
+		expect(moved.map((change) => change.elementId).sort()).toEqual(['child-1', 'parent-1']);
+		expect(moved[0].properties).toContainEqual(expect.objectContaining({ property: 'x' }));
+	});
+
+	it('should report nothing for identical states', () => {
+		const diff = diffDesignStates(base, reduceEvents([], base));
+
+		expect(diff.elements).toEqual([]);
+		expect(diff.pages).toEqual([]);
+	});
+});
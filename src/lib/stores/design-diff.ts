@@ -0,0 +1,234 @@
+/**
+ * Design Diff - What changed between two points in the design's history
+ *
+ * Compares two DesignState snapshots (reduced from the event log at two indices,
+ * or taken from named checkpoints) element by element. Positions are compared in
+ * canvas space, so moving a parent doesn't report its children as moved.
+ */
+
+import type { DesignState, Element } from '$lib/types/events';
+import { getAbsoluteElementBounds } from '$lib/utils/viewport-culling';
+import { isEqual } from './compensating-events';
+
+export type ElementChangeKind =
+	| 'added'
+	| 'removed'
+	| 'moved' // Position or rotation on the canvas
+	| 'resized'
+	| 'restyled' // Styles, typography, spacing or auto layout
+	| 'reparented' // Different parent or page
+	| 'reordered' // Different layer order within the same parent
+	| 'edited'; // Content, name, visibility, lock, view settings, ...
+
+export interface PropertyChange {
+	property: string; // e.g. "x", "styles.backgroundColor", "content"
+	before: unknown; // undefined when not set
+	after: unknown;
+}
+
+export interface ElementDiff {
+	elementId: string;
+	pageId: string; // Page in the newer state (older state for removed elements)
+	label: string;
+	kinds: ElementChangeKind[];
+	properties: PropertyChange[];
+}
+
+export interface PageDiff {
+	pageId: string;
+	name: string;
+	kind: 'added' | 'removed' | 'renamed' | 'reordered';
+}
+
+export interface DesignDiff {
+	elements: ElementDiff[];
+	pages: PageDiff[];
+	counts: Record<ElementChangeKind, number>;
+}
+
+const STYLE_MAPS = ['styles', 'typography', 'spacing', 'autoLayout'] as const;
+
+const EDITED_PROPERTIES = [
+	'content',
+	'name',
+	'alt',
+	'href',
+	'src',
+	'visible',
+	'locked',
+	'isView',
+	'viewName',
+	'breakpointWidth',
+	'baselineSnap',
+	'layoutGrid'
+] as const;
+
+function elementLabel(element: Element): string {
+	if (element.name) return element.name;
+	if (element.isView && element.viewName) return element.viewName;
+	return element.type;
+}
+
+/**
+ * Layer order of an element: its siblings in the parent's children or the page's root elements
+ */
+function getSiblings(state: DesignState, element: Element): string[] {
+	if (element.parentId) {
+		return state.elements[element.parentId]?.children ?? [];
+	}
+	return state.pages[element.pageId]?.canvasElements ?? [];
+}
+
+/**
+ * Whether an element changed place among the siblings it had before and still has
+ */
+function isReordered(before: DesignState, after: DesignState, a: Element, b: Element): boolean {
+	const beforeSiblings = getSiblings(before, a);
+	const afterSiblings = getSiblings(after, b);
+	const shared = beforeSiblings.filter((id) => afterSiblings.includes(id));
+	const afterShared = afterSiblings.filter((id) => shared.includes(id));
+	return shared.indexOf(a.id) !== afterShared.indexOf(b.id);
+}
+
+function diffElement(before: DesignState, after: DesignState, a: Element, b: Element): ElementDiff | null {
+	const kinds = new Set<ElementChangeKind>();
+	const properties: PropertyChange[] = [];
+
+	const change = (kind: ElementChangeKind, property: string, from: unknown, to: unknown) => {
+		if (isEqual(from, to)) return;
+		kinds.add(kind);
+		properties.push({ property, before: from, after: to });
+	};
+
+	const boundsBefore = getAbsoluteElementBounds(a, before.elements);
+	const boundsAfter = getAbsoluteElementBounds(b, after.elements);
+	change('moved', 'x', boundsBefore.x, boundsAfter.x);
+	change('moved', 'y', boundsBefore.y, boundsAfter.y);
+	change('moved', 'rotation', a.rotation ?? 0, b.rotation ?? 0);
+	change('resized', 'width', a.size.width, b.size.width);
+	change('resized', 'height', a.size.height, b.size.height);
+
+	if (a.parentId !== b.parentId || a.pageId !== b.pageId) {
+		kinds.add('reparented');
+		const parentName = (state: DesignState, element: Element) => {
+			const parent = element.parentId ? state.elements[element.parentId] : null;
+			return parent ? elementLabel(parent) : state.pages[element.pageId]?.name ?? null;
+		};
+		properties.push({ property: 'parent', before: parentName(before, a), after: parentName(after, b) });
+	} else if (isReordered(before, after, a, b)) {
+		kinds.add('reordered');
+	}
+
+	for (const map of STYLE_MAPS) {
+		const from = (a[map] ?? {}) as Record<string, unknown>;
+		const to = (b[map] ?? {}) as Record<string, unknown>;
+		for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+			// '' is how a removed style value is stored
+			change('restyled', `${map}.${key}`, from[key] || undefined, to[key] || undefined);
+		}
+	}
+
+	for (const property of EDITED_PROPERTIES) {
+		change('edited', property, a[property], b[property]);
+	}
+
+	if (kinds.size === 0) return null;
+
+	return {
+		elementId: b.id,
+		pageId: b.pageId,
+		label: elementLabel(b),
+		kinds: [...kinds],
+		properties
+	};
+}
+
+function diffPages(before: DesignState, after: DesignState): PageDiff[] {
+	const pages: PageDiff[] = [];
+
+	for (const page of Object.values(after.pages)) {
+		const old = before.pages[page.id];
+		if (!old) {
+			pages.push({ pageId: page.id, name: page.name, kind: 'added' });
+		} else if (old.name !== page.name) {
+			pages.push({ pageId: page.id, name: page.name, kind: 'renamed' });
+		}
+	}
+	for (const page of Object.values(before.pages)) {
+		if (!after.pages[page.id]) {
+			pages.push({ pageId: page.id, name: page.name, kind: 'removed' });
+		}
+	}
+
+	const kept = before.pageOrder.filter((id) => after.pages[id]);
+	const keptAfter = after.pageOrder.filter((id) => before.pages[id]);
+	if (!isEqual(kept, keptAfter)) {
+		for (const pageId of keptAfter.filter((id, i) => kept[i] !== id)) {
+			pages.push({ pageId, name: after.pages[pageId].name, kind: 'reordered' });
+		}
+	}
+
+	return pages;
+}
+
+/**
+ * Compare two design states
+ * Elements are listed in the newer state's order, followed by removed elements
+ */
+export function diffDesignStates(before: DesignState, after: DesignState): DesignDiff {
+	const elements: ElementDiff[] = [];
+
+	for (const element of Object.values(after.elements)) {
+		const old = before.elements[element.id];
+		if (!old) {
+			elements.push({
+				elementId: element.id,
+				pageId: element.pageId,
+				label: elementLabel(element),
+				kinds: ['added'],
+				properties: []
+			});
+			continue;
+		}
+
+		const diff = diffElement(before, after, old, element);
+		if (diff) elements.push(diff);
+	}
+
+	for (const element of Object.values(before.elements)) {
+		if (after.elements[element.id]) continue;
+		elements.push({
+			elementId: element.id,
+			pageId: element.pageId,
+			label: elementLabel(element),
+			kinds: ['removed'],
+			properties: []
+		});
+	}
+
+	const counts: Record<ElementChangeKind, number> = {
+		added: 0,
+		removed: 0,
+		moved: 0,
+		resized: 0,
+		restyled: 0,
+		reparented: 0,
+		reordered: 0,
+		edited: 0
+	};
+	for (const diff of elements) {
+		for (const kind of diff.kinds) counts[kind]++;
+	}
+
+	return { elements, pages: diffPages(before, after), counts };
+}
+
+/**
+ * Show a diffed value in the UI
+ */
+export function formatDiffValue(value: unknown): string {
+	if (value === undefined || value === null || value === '') return '—';
+	if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
@@ -8,17 +8,82 @@
 import { writable, derived, get } from 'svelte/store';
 import type { Writable, Readable } from 'svelte/store';
 import { v4 as uuidv4 } from 'uuid';
-import type { DesignEvent, DesignState, Element, Page, Component, AutoLayoutStyle } from '$lib/types/events';
+import type { DesignEvent, DesignState, Element, Page, Component, AutoLayoutStyle, LayoutGrid, GuideAxis, EventStoreSnapshot, DesignProject, NamedCheckpoint, DesignBranch } from '$lib/types/events';
+import { CURRENT_EVENT_SCHEMA_VERSION } from '$lib/types/events';
 import {
 	initDB,
 	appendEvent,
 	appendEvents,
-	getAllEvents,
+	upgradeEventLog,
+	deleteEvents,
 	clearEvents,
 	exportEvents,
-	importEvents
+	importEvents,
+	saveSnapshot,
+	getLatestSnapshot,
+	deleteSnapshotsAfter,
+	pruneSnapshots,
+	clearSnapshots,
+	getBaselineSnapshot,
+	compactEvents,
+	getStorageEstimate,
+	DEFAULT_PROJECT_ID,
+	getCurrentProjectId,
+	setCurrentProject,
+	getProjects,
+	getProject,
+	saveProject,
+	touchProject,
+	copyProjectData,
+	removeProject,
+	enqueueOutbox,
+	getOutbox,
+	updateEvents,
+	replaceEventLog,
+	saveNamedCheckpoint,
+	getNamedCheckpoints,
+	deleteNamedCheckpoint as deleteStoredCheckpoint,
+	saveBranch,
+	getBranches,
+	deleteBranch as deleteStoredBranch,
+	swapBranchLog
 } from './event-store';
-import { reduceEvents, applyEventsIncremental, getInitialState } from './event-reducer';
+import { startSync, stopSync, requestSync, fetchPageEvents } from './event-sync';
+import type { PageEventsResponse } from './event-sync';
+import { createCollabClient, createWebSocketTransport } from './collab-client';
+import type { CollabClient, CollabChange } from './collab-client';
+import type { CollabConnectionStatus, CollabTransport, Presence, RemotePresence } from '$lib/types/collab';
+import { DEFAULT_COLLAB_PORT } from '$lib/types/collab';
+import { dev } from '$app/environment';
+import { env } from '$env/dynamic/public';
+import { upcastEvents } from './event-upcasters';
+import { buildCompensation, describeConflict } from './compensating-events';
+import type { CompensationConflict } from './compensating-events';
+import { describeTransaction } from './event-descriptions';
+import { diffDesignStates } from './design-diff';
+import type { DesignDiff } from './design-diff';
+import { mergeEventLogs } from './branch-merge';
+import { planCompaction } from './history-compaction';
+import { buildAutoLayoutUpdate } from './auto-layout-update';
+import type { AutoLayoutChange } from './auto-layout-update';
+import { baselineGridUnit } from './tokens-store';
+import { BASELINE_ALIGNABLE_TYPES, findBaselineView, snapPositionToBaseline, snapSizeToBaseline } from '$lib/utils/baseline-grid';
+import { snapSettings } from './snap-store';
+import { getAbsoluteElementBounds } from '$lib/utils/viewport-culling';
+import { getRotatedBounds, unionBounds } from '$lib/utils/smart-guides';
+import type { Bounds } from '$lib/utils/smart-guides';
+import { alignBounds, distributeBounds } from '$lib/utils/align';
+import type { Alignment, AlignTarget } from '$lib/utils/align';
+import type { MergeConflict, MergeStrategy } from './branch-merge';
+import { applyEventsIncremental, getInitialState, reduceEvents } from './event-reducer';
+import {
+	createStateCheckpoints,
+	clearCheckpoints,
+	recordCheckpoint,
+	truncateCheckpoints,
+	replayEvents,
+	getStateAt
+} from './state-checkpoints';
 import { currentTool } from './tool-store';
 import { interactionState, startEditingText, clearElementIsolation, isolateElementFromGroup } from './interaction-store';
 import { viewport, screenToCanvas } from './viewport-store';
@@ -28,12 +93,14 @@ import { viewport, screenToCanvas } from './viewport-store';
 // ============================================================================
 
 interface StoreState {
+	projectId: string; // Project whose event log is loaded
 	designState: DesignState;
 	events: DesignEvent[];
 	currentEventIndex: number; // For undo/redo
 	isInitialized: boolean;
 	isSaving: boolean;
 	lastSavedAt: number | null;
+	previewState: DesignState | null; // Earlier point in history shown read-only by the history panel
 }
 
 // Transaction batching for undo/redo
@@ -42,13 +109,73 @@ let transactionEvents: DesignEvent[] = [];
 let currentTransactionId: string | null = null;
 const eventTransactionMap = new Map<number, string>(); // Maps event index to transaction ID
 
+/**
+ * Rebuild the event index -> transaction ID map from persisted events
+ * Transaction IDs are stored on each event, so undo/redo grouping survives a reload
+ */
+function rebuildTransactionMap(events: DesignEvent[]): void {
+	eventTransactionMap.clear();
+	events.forEach((event, index) => {
+		if (event.transactionId) {
+			eventTransactionMap.set(index, event.transactionId);
+		}
+	});
+}
+
+// Snapshotting - bounds startup time by folding the log into a saved DesignState
+const SNAPSHOT_INTERVAL = 100; // Save a snapshot at least every N events
+const SNAPSHOT_IDLE_DELAY = 2000; // Otherwise save once editing has been idle this long (ms)
+const MAX_SNAPSHOTS = 3; // Older snapshots are pruned
+let lastSnapshotVersion = 0; // Event count covered by the newest saved snapshot
+let snapshotIdleTimer: ReturnType<typeof setTimeout> | null = null;
+
+// In-memory state checkpoints - undo/redo cost stays bounded however long the history gets
+const stateCheckpoints = createStateCheckpoints();
+
+// Compaction - folds old history into a baseline snapshot to keep IndexedDB small
+export const COMPACTION_KEEP_EVENTS = 500; // Undo steps kept behind the current position
+const COMPACTION_STORAGE_PERCENTAGE = 50; // Auto-compact once this much of the quota is used
+const COMPACTION_STORAGE_BYTES = 50 * 1024 * 1024; // ...or once usage passes this size
+let isCompacting = false;
+
+// Server sync - set while the open project is linked to a server page
+let linkedPageId: string | null = null;
+
+// Co-editing - set while the open page is shared through the collaboration server
+let collabClient: CollabClient | null = null;
+const COLLAB_PATH = '/api/collab';
+const PRESENCE_INTERVAL = 50; // Send cursor moves at most this often (ms)
+let presenceCursor: Presence['cursor'] = null;
+let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+let lastPresenceKey = '';
+let unsubscribePresence: (() => void) | null = null;
+
+// Per-user undo while co-editing - this editor's undo steps, newest last
+interface CollabHistory {
+	undo: CollabUndoStep[];
+	redo: CollabUndoStep[];
+}
+
+// One undo step - a burst of arrow key nudges is submitted one press at a time
+// (each press is its own server transaction) but undone together
+interface CollabUndoStep {
+	id: string; // The joined transaction's ID, or the only transaction's
+	transactionIds: string[];
+}
+const collabHistory = writable<CollabHistory | null>(null);
+const collabStatusStore = writable<CollabConnectionStatus | null>(null); // null when not co-editing
+const undoConflictsStore = writable<string[]>([]); // Changes the last undo/redo left alone
+let compensating: 'undo' | 'redo' | null = null; // Set while an undo/redo transaction is dispatched
+
 const initialStoreState: StoreState = {
+	projectId: DEFAULT_PROJECT_ID,
 	designState: getInitialState(),
 	events: [],
 	currentEventIndex: -1,
 	isInitialized: false,
 	isSaving: false,
-	lastSavedAt: null
+	lastSavedAt: null,
+	previewState: null
 };
 
 // ============================================================================
@@ -60,7 +187,7 @@ const storeState: Writable<StoreState> = writable(initialStoreState);
 // Derived stores for convenience
 export const designState: Readable<DesignState> = derived(
 	storeState,
-	($state) => $state.designState
+	($state) => $state.previewState ?? $state.designState
 );
 
 export const currentPage: Readable<Page | null> = derived(designState, ($state) => {
@@ -72,13 +199,14 @@ export const selectedElements: Readable<Element[]> = derived(designState, ($stat
 });
 
 export const canUndo: Readable<boolean> = derived(
-	storeState,
-	($state) => $state.currentEventIndex > -1
+	[storeState, collabHistory],
+	([$state, $history]) => ($history ? $history.undo.length > 0 : $state.currentEventIndex > -1)
 );
 
 export const canRedo: Readable<boolean> = derived(
-	storeState,
-	($state) => $state.currentEventIndex < $state.events.length - 1
+	[storeState, collabHistory],
+	([$state, $history]) =>
+		$history ? $history.redo.length > 0 : $state.currentEventIndex < $state.events.length - 1
 );
 
 export const isInitialized: Readable<boolean> = derived(
@@ -88,6 +216,11 @@ export const isInitialized: Readable<boolean> = derived(
 
 export const isSaving: Readable<boolean> = derived(storeState, ($state) => $state.isSaving);
 
+export const currentProjectId: Readable<string> = derived(
+	storeState,
+	($state) => $state.projectId
+);
+
 export const lastSavedAt: Readable<number | null> = derived(
 	storeState,
 	($state) => $state.lastSavedAt
@@ -134,6 +267,32 @@ export const selectedElementIds: Readable<string[]> = derived(
 	($designState) => $designState.selectedElementIds
 );
 
+const remotePresenceStore = writable<RemotePresence[]>([]);
+
+/**
+ * Cursors and selections of the other editors in the co-editing session
+ */
+export const remotePresence: Readable<RemotePresence[]> = { subscribe: remotePresenceStore.subscribe };
+
+/**
+ * Connection of the co-editing session ('reconnecting' while the socket is down)
+ */
+export const collaborationStatus: Readable<CollabConnectionStatus | null> = {
+	subscribe: collabStatusStore.subscribe
+};
+
+/**
+ * Why the last co-editing undo/redo left some changes as they were (empty when it didn't)
+ */
+export const undoConflicts: Readable<string[]> = { subscribe: undoConflictsStore.subscribe };
+
+/**
+ * Hide the undo conflicts notice
+ */
+export function dismissUndoConflicts(): void {
+	undoConflictsStore.set([]);
+}
+
 // ============================================================================
 // Initialization
 // ============================================================================
@@ -143,12 +302,33 @@ export const selectedElementIds: Readable<string[]> = derived(
  */
 export async function initialize(): Promise<void> {
 	await initDB();
-	const events = await getAllEvents();
+	const project = await getProject(getCurrentProjectId());
+	// Only the main branch is synced with the server page
+	const isSynced = !!project?.pageId && !project.branchId;
+	linkedPageId = isSynced ? project!.pageId! : null;
+
+	// Old event shapes are upcasted before anything is reduced
+	let events = await upgradeEventLog();
+	// A linked project opened in a fresh browser starts from the server's log
+	if (isSynced && events.length === 0) {
+		events = await pullInitialEvents(project);
+	}
+	const snapshot = await getLatestSnapshot();
+	const baseline = await getBaselineSnapshot();
 
-	let designState = reduceEvents(events);
+	// Start from the newest snapshot and only replay the events after it
+	// A compacted log starts from its baseline instead of the empty initial state
+	clearCheckpoints(stateCheckpoints, baseline?.state);
+	let designState = reduceFromSnapshot(events, snapshot);
+
+	// Restore transaction boundaries so multi-event operations undo as one step
+	rebuildTransactionMap(events);
+	namedCheckpointsStore.set(await getNamedCheckpoints());
+	await loadBranches(project?.branchId ?? MAIN_BRANCH_ID);
 
 	storeState.update((state) => ({
 		...state,
+		projectId: getCurrentProjectId(),
 		events,
 		designState,
 		currentEventIndex: events.length - 1,
@@ -156,7 +336,9 @@ export async function initialize(): Promise<void> {
 	}));
 
 	// Create default page if none exists
-	if (Object.keys(designState.pages).length === 0) {
+	// (unless the server's log couldn't be pulled yet - the pages will arrive with it)
+	const awaitingServerLog = isSynced && !project!.syncCursor && events.length === 0;
+	if (Object.keys(designState.pages).length === 0 && !awaitingServerLog) {
 		const pageId = await createPage('Untitled Page', 'untitled');
 		setCurrentPage(pageId);
 		designState = get(storeState).designState; // Refresh after creating page
@@ -170,8 +352,182 @@ export async function initialize(): Promise<void> {
 		}
 	}
 
-	// Note: Old migration code for view.elements[] was removed
-	// Users should clear IndexedDB if they have old data from before the architecture refactor
+	runAutoCompaction();
+
+	if (isSynced) {
+		startProjectSync(project!);
+	}
+}
+
+/**
+ * Rebuild design state from the latest snapshot plus the events recorded after it
+ * Falls back to a full replay if the snapshot doesn't match the log (e.g. after an import)
+ */
+function reduceFromSnapshot(events: DesignEvent[], snapshot: EventStoreSnapshot | null): DesignState {
+	if (
+		snapshot &&
+		snapshot.version > 0 &&
+		snapshot.version <= events.length &&
+		events[snapshot.version - 1].id === snapshot.lastEventId
+	) {
+		lastSnapshotVersion = snapshot.version;
+		recordCheckpoint(stateCheckpoints, snapshot.version, snapshot.state);
+		return replayEvents(stateCheckpoints, events, snapshot.version, events.length, snapshot.state);
+	}
+
+	lastSnapshotVersion = 0;
+	return replayEvents(stateCheckpoints, events, 0, events.length, stateCheckpoints.baseState);
+}
+
+/**
+ * Save a snapshot of the design state at the head of the event log
+ */
+async function saveDesignSnapshot(): Promise<void> {
+	const state = get(storeState);
+
+	// Only snapshot the head of the log - undone events are still persisted until overwritten
+	if (state.currentEventIndex !== state.events.length - 1) return;
+
+	const version = state.events.length;
+	if (version === 0 || version === lastSnapshotVersion) return;
+
+	const now = Date.now();
+	await saveSnapshot({
+		version,
+		// Selection is not part of event sourcing
+		state: { ...state.designState, selectedElementIds: [] },
+		lastEventId: state.events[version - 1].id,
+		createdAt: now,
+		updatedAt: now
+	});
+	lastSnapshotVersion = version;
+	await pruneSnapshots(MAX_SNAPSHOTS);
+	await touchProject(state.projectId);
+	runAutoCompaction();
+}
+
+/**
+ * Save a snapshot every SNAPSHOT_INTERVAL events, or once editing goes idle
+ */
+function scheduleSnapshot(): void {
+	if (snapshotIdleTimer !== null) {
+		clearTimeout(snapshotIdleTimer);
+		snapshotIdleTimer = null;
+	}
+
+	const persist = () => {
+		saveDesignSnapshot().catch((error) => {
+			console.error('Failed to save snapshot:', error);
+		});
+	};
+
+	if (get(storeState).events.length - lastSnapshotVersion >= SNAPSHOT_INTERVAL) {
+		persist();
+		return;
+	}
+
+	snapshotIdleTimer = setTimeout(() => {
+		snapshotIdleTimer = null;
+		if (typeof requestIdleCallback !== 'undefined') {
+			requestIdleCallback(persist);
+		} else {
+			persist();
+		}
+	}, SNAPSHOT_IDLE_DELAY);
+}
+
+/**
+ * Drop the redo history from IndexedDB once new events overwrite it
+ */
+async function discardPersistedEvents(eventIds: string[], keptEventCount: number): Promise<void> {
+	await deleteEvents(eventIds);
+	// Snapshots past the truncation point describe a history that no longer exists
+	await deleteSnapshotsAfter(keptEventCount);
+	lastSnapshotVersion = Math.min(lastSnapshotVersion, keptEventCount);
+}
+
+// ============================================================================
+// Compaction
+// ============================================================================
+
+export interface CompactionResult {
+	foldedEventCount: number; // Events removed from the log
+	skipReason: string | null; // Why nothing was compacted
+}
+
+const compactionSkippedStore = writable<string | null>(null);
+
+/**
+ * Why the last automatic compaction couldn't free any storage (null when it could, or didn't need to)
+ */
+export const compactionSkipped: Readable<string | null> = { subscribe: compactionSkippedStore.subscribe };
+
+/**
+ * Fold history older than the last `keepEvents` undo steps into a baseline snapshot
+ * Logs shared with a server page, a co-editing session or branches are left alone
+ */
+export async function compactHistory(keepEvents: number = COMPACTION_KEEP_EVENTS): Promise<CompactionResult> {
+	const state = get(storeState);
+	// Pending writes would race the rewrite of the log
+	if (isCompacting || isInTransaction || state.isSaving) {
+		return { foldedEventCount: 0, skipReason: 'changes are still being saved' };
+	}
+
+	const { cutoff, skipReason } = planCompaction({
+		currentEventIndex: state.currentEventIndex,
+		keepEvents: Math.max(0, Math.floor(keepEvents)),
+		hasBranches: get(branchesStore).length > 0,
+		isLinkedToPage: linkedPageId !== null,
+		isCoEditing: collabClient !== null
+	});
+	if (cutoff === 0) return { foldedEventCount: 0, skipReason };
+
+	isCompacting = true;
+	try {
+		const { foldedEventCount, baseline } = await compactEvents(cutoff);
+		if (foldedEventCount === 0 || !baseline) {
+			return { foldedEventCount: 0, skipReason: 'the history is already compacted' };
+		}
+
+		// Events after the cut-off keep their order, so only indices shift
+		const events = get(storeState).events.slice(foldedEventCount);
+		rebuildTransactionMap(events);
+		storeState.update((s) => ({
+			...s,
+			events,
+			currentEventIndex: s.currentEventIndex - foldedEventCount
+		}));
+		clearCheckpoints(stateCheckpoints, baseline.state);
+		lastSnapshotVersion = 0;
+		scheduleSnapshot();
+		compactionSkippedStore.set(null);
+
+		return { foldedEventCount, skipReason: null };
+	} finally {
+		isCompacting = false;
+	}
+}
+
+/**
+ * Compact history in the background once IndexedDB usage passes the storage threshold
+ */
+function runAutoCompaction(): void {
+	const compactIfNeeded = async () => {
+		const estimate = await getStorageEstimate();
+		if (!estimate) return;
+		if (
+			estimate.percentage < COMPACTION_STORAGE_PERCENTAGE &&
+			estimate.usage < COMPACTION_STORAGE_BYTES
+		) {
+			return;
+		}
+		const { skipReason } = await compactHistory();
+		compactionSkippedStore.set(skipReason);
+	};
+
+	compactIfNeeded().catch((error) => {
+		console.error('Failed to compact history:', error);
+	});
 }
 
 /**
@@ -179,230 +535,1346 @@ export async function initialize(): Promise<void> {
  */
 export async function reset(): Promise<void> {
 	await clearEvents();
+	await clearSnapshots();
+	eventTransactionMap.clear();
+	clearCheckpoints(stateCheckpoints);
+	lastSnapshotVersion = 0;
 
 	storeState.set({
 		...initialStoreState,
+		projectId: getCurrentProjectId(),
 		isInitialized: true
 	});
 }
 
 // ============================================================================
-// Event Dispatching
+// Projects
 // ============================================================================
 
 /**
- * Start a transaction - batch multiple events into a single undo/redo step
+ * List all projects, most recently edited first
  */
-function beginTransaction(): void {
-	if (isInTransaction) {
-		throw new Error('Transaction already in progress');
+export async function listProjects(): Promise<DesignProject[]> {
+	return await getProjects();
+}
+
+/**
+ * Create an empty project (does not open it)
+ */
+export async function createProject(name: string): Promise<string> {
+	const now = Date.now();
+	const project: DesignProject = {
+		id: uuidv4(),
+		name,
+		createdAt: now,
+		updatedAt: now
+	};
+	await saveProject(project);
+	return project.id;
+}
+
+/**
+ * Load another project's event log into the editor
+ */
+export async function openProject(projectId: string): Promise<void> {
+	const project = await getProject(projectId);
+	if (!project) {
+		throw new Error(`Project not found: ${projectId}`);
 	}
-	isInTransaction = true;
-	transactionEvents = [];
-	currentTransactionId = uuidv4();
+
+	const state = get(storeState);
+	if (state.isInitialized && projectId === state.projectId) return;
+	// Writes still in flight would land in the newly opened database
+	if (isInTransaction || state.isSaving) {
+		throw new Error('Cannot switch projects while changes are being saved');
+	}
+
+	// A pending snapshot belongs to the old project
+	if (snapshotIdleTimer !== null) {
+		clearTimeout(snapshotIdleTimer);
+		snapshotIdleTimer = null;
+	}
+
+	leaveCollaboration();
+	stopSync();
+	linkedPageId = null;
+	setCurrentProject(projectId);
+	eventTransactionMap.clear();
+	storeState.set({ ...initialStoreState, projectId });
+
+	await initialize();
 }
 
 /**
- * Commit a transaction - apply all batched events as a single undo/redo step
+ * Rename a project
  */
-async function commitTransaction(): Promise<void> {
-	if (!isInTransaction) {
-		throw new Error('No transaction in progress');
+export async function renameProject(projectId: string, name: string): Promise<void> {
+	const project = await getProject(projectId);
+	if (!project) {
+		throw new Error(`Project not found: ${projectId}`);
 	}
 
-	if (transactionEvents.length === 0) {
-		isInTransaction = false;
-		currentTransactionId = null;
-		return;
+	await saveProject({ ...project, name, updatedAt: Date.now() });
+}
+
+/**
+ * Copy a project (events, snapshots and undo history) into a new project
+ */
+export async function duplicateProject(projectId: string, name?: string): Promise<string> {
+	const project = await getProject(projectId);
+	if (!project) {
+		throw new Error(`Project not found: ${projectId}`);
+	}
+
+	const now = Date.now();
+	const copy: DesignProject = {
+		id: uuidv4(),
+		name: name ?? `${project.name} (copy)`,
+		createdAt: now,
+		updatedAt: now
+	};
+	await copyProjectData(projectId, copy.id);
+	await saveProject(copy);
+	return copy.id;
+}
+
+/**
+ * Delete a project and its event log
+ * The open project can't be deleted - open another one first
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+	if (projectId === get(storeState).projectId) {
+		throw new Error('Cannot delete the open project');
 	}
 
+	await removeProject(projectId);
+}
+
+// ============================================================================
+// Server Sync
+// ============================================================================
+
+/**
+ * Link the open project to a server page and push its whole log
+ */
+export async function linkProjectToPage(pageId: string): Promise<void> {
 	const state = get(storeState);
+	const project = await getProject(state.projectId);
+	if (!project) {
+		throw new Error(`Project not found: ${state.projectId}`);
+	}
+	if (project.branchId) {
+		throw new Error('Switch to the main branch to link the project to a server page');
+	}
+	// Events folded into the baseline can't be sent, so the server log would be incomplete
+	if (await getBaselineSnapshot()) {
+		throw new Error('Compacted projects cannot be linked to a server page');
+	}
 
-	// If we're not at the end of the event log, remove future events (they're undone)
-	let newEvents = state.events;
-	if (state.currentEventIndex < state.events.length - 1) {
-		newEvents = state.events.slice(0, state.currentEventIndex + 1);
-		// Clear transaction map for removed events
-		for (let i = state.currentEventIndex + 1; i < state.events.length; i++) {
-			eventTransactionMap.delete(i);
+	const linked: DesignProject = { ...project, pageId, syncCursor: 0, updatedAt: Date.now() };
+	await saveProject(linked);
+	if (state.events.length > 0) {
+		await enqueueOutbox({ events: state.events, discardedEventIds: [] });
+	}
+
+	linkedPageId = pageId;
+	startProjectSync(linked);
+}
+
+/**
+ * Open the local project linked to a server page, creating it if this browser hasn't got one
+ */
+export async function openPage(pageId: string): Promise<void> {
+	const projects = await getProjects();
+	let project = projects.find((p) => p.pageId === pageId);
+
+	if (!project) {
+		const { title } = await fetchPageEvents(pageId, 0);
+		const now = Date.now();
+		project = { id: uuidv4(), name: title, pageId, syncCursor: 0, createdAt: now, updatedAt: now };
+		await saveProject(project);
+	}
+
+	await openProject(project.id);
+}
+
+/**
+ * Pull the whole server log into an empty local log
+ * Returns no events if the server can't be reached - the sync loop pulls them later
+ */
+async function pullInitialEvents(project: DesignProject): Promise<DesignEvent[]> {
+	try {
+		const response = await fetchPageEvents(project.pageId!, 0);
+		const { events } = upcastEvents(response.events);
+		if (events.length > 0) {
+			await appendEvents(events);
 		}
+		await saveProject({ ...project, syncCursor: response.cursor });
+		project.syncCursor = response.cursor;
+		return events;
+	} catch (error) {
+		console.error('Failed to pull events from server:', error);
+		return [];
 	}
+}
 
-	const startIndex = newEvents.length;
-	// Add all transaction events and track their transaction ID
-	newEvents = [...newEvents, ...transactionEvents];
-	for (let i = 0; i < transactionEvents.length; i++) {
-		eventTransactionMap.set(startIndex + i, currentTransactionId!);
+function startProjectSync(project: DesignProject): void {
+	if (project.branchId) return;
+
+	startSync({
+		pageId: project.pageId!,
+		cursor: project.syncCursor ?? 0,
+		onRemoteEvents: applyRemoteEvents,
+		onCursorChange: (cursor) => {
+			getProject(project.id)
+				.then((current) => current && saveProject({ ...current, syncCursor: cursor }))
+				.catch((error) => console.error('Failed to save sync cursor:', error));
+		}
+	});
+}
+
+/**
+ * Queue persisted changes for the server (no-op for local-only projects)
+ */
+function queueForSync(events: DesignEvent[], discardedEventIds: string[]): void {
+	// While co-editing, the collaboration server writes the page log instead
+	if (!linkedPageId || collabClient) return;
+
+	enqueueOutbox({ events, discardedEventIds })
+		.then(() => requestSync())
+		.catch((error) => console.error('Failed to queue changes for sync:', error));
+}
+
+/**
+ * Append events pulled from the server that this browser doesn't have yet
+ * Returns false while they can't be applied (mid-transaction, saving, or after an undo)
+ */
+async function applyRemoteEvents(response: PageEventsResponse): Promise<boolean> {
+	const state = get(storeState);
+	if (isInTransaction || state.isSaving) return false;
+	// Appending would overwrite the redo history - wait until the user is back at the head
+	if (state.currentEventIndex !== state.events.length - 1) return false;
+
+	if (response.reset) {
+		await resetToRemoteEvents(upcastEvents(response.events).events);
+		return true;
 	}
 
-	// Recompute design state INCREMENTALLY (only apply new transaction events)
-	let newDesignState = applyEventsIncremental(state.designState, transactionEvents);
+	const knownIds = new Set(state.events.map((event) => event.id));
+	const incoming = upcastEvents(response.events).events.filter((event) => !knownIds.has(event.id));
+	if (incoming.length === 0) return true;
 
-	// Preserve selection state (selection is not part of event sourcing)
-	// Create new object because Immer returns frozen object
+	await appendEvents(incoming);
+
+	const startIndex = state.events.length;
+	const newEvents = [...state.events, ...incoming];
+	incoming.forEach((event, i) => {
+		if (event.transactionId) {
+			eventTransactionMap.set(startIndex + i, event.transactionId);
+		}
+	});
+
+	let newDesignState = applyEventsIncremental(state.designState, incoming);
 	newDesignState = {
 		...newDesignState,
-		selectedElementIds: state.designState.selectedElementIds
+		selectedElementIds: state.designState.selectedElementIds.filter(
+			(id) => id in newDesignState.elements
+		)
 	};
+	if (!newDesignState.currentPageId && newDesignState.pageOrder.length > 0) {
+		newDesignState = { ...newDesignState, currentPageId: newDesignState.pageOrder[0] };
+	}
+	recordCheckpoint(stateCheckpoints, newEvents.length, newDesignState);
 
-	// Update store - increment index only once for all events
 	storeState.update((s) => ({
 		...s,
 		events: newEvents,
 		designState: newDesignState,
-		currentEventIndex: newEvents.length - 1,
-		isSaving: true
+		currentEventIndex: newEvents.length - 1
 	}));
+	scheduleSnapshot();
 
-	// Persist all events to IndexedDB in a single batch write (massive performance boost)
-	try {
-		await appendEvents(transactionEvents);
+	return true;
+}
 
-		storeState.update((s) => ({
-			...s,
-			isSaving: false,
-			lastSavedAt: Date.now()
-		}));
-	} catch (error) {
-		console.error('Failed to save transaction:', error);
-		storeState.update((s) => ({
-			...s,
-			isSaving: false
-		}));
+/**
+ * Replace the local log with the server's rewritten log
+ * Local changes still waiting in the outbox are kept on top - the next push sends them
+ */
+async function resetToRemoteEvents(remoteEvents: DesignEvent[]): Promise<void> {
+	const pendingIds = new Set<string>();
+	const discardedIds = new Set<string>();
+	for (const entry of await getOutbox()) {
+		entry.events.forEach((event) => pendingIds.add(event.id));
+		entry.discardedEventIds.forEach((id) => discardedIds.add(id));
+	}
+
+	const state = get(storeState);
+	const kept = remoteEvents.filter((event) => !discardedIds.has(event.id));
+	const keptIds = new Set(kept.map((event) => event.id));
+	const pending = state.events.filter((event) => pendingIds.has(event.id) && !keptIds.has(event.id));
+	const events = [...kept, ...pending];
+
+	// Synced logs are never compacted, so there is no baseline to keep
+	await replaceEventLog(events, null);
+	lastSnapshotVersion = 0;
+	rebuildTransactionMap(events);
+	clearCheckpoints(stateCheckpoints);
+	const restored = replayEvents(stateCheckpoints, events, 0, events.length, getInitialState());
+	let designState = withViewState(restored, state.designState);
+	if (!designState.currentPageId && designState.pageOrder.length > 0) {
+		designState = { ...designState, currentPageId: designState.pageOrder[0] };
+	}
+
+	storeState.update((s) => ({
+		...s,
+		events,
+		designState,
+		currentEventIndex: events.length - 1
+	}));
+	scheduleSnapshot();
+}
+
+// ============================================================================
+// Co-editing
+// ============================================================================
+
+/**
+ * WebSocket URL of the collaboration server, with the current access token
+ * The dev server serves it on its own port; built servers listen on PUBLIC_COLLAB_PORT
+ */
+function getCollaborationUrl(): string {
+	const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+	const host = dev ? location.host : `${location.hostname}:${env.PUBLIC_COLLAB_PORT || DEFAULT_COLLAB_PORT}`;
+	const token = encodeURIComponent(localStorage.getItem('accessToken') ?? '');
+	return `${protocol}//${host}${COLLAB_PATH}?token=${token}`;
+}
+
+/**
+ * Join the co-editing session of a server page
+ * The session's log replaces the local one; local edits are sent as transactions and
+ * remote edits are merged in the server's commit order
+ */
+export function joinCollaboration(pageId: string, transport?: CollabTransport): void {
+	if (get(currentBranchIdStore) !== MAIN_BRANCH_ID) {
+		throw new Error('Switch to the main branch to co-edit');
+	}
+
+	leaveCollaboration();
+	stopSync();
+
+	collabHistory.set({ undo: [], redo: [] });
+	collabStatusStore.set('connected');
+	collabClient = createCollabClient(transport ?? createWebSocketTransport(getCollaborationUrl), {
+		pageId,
+		onChange: (change) => {
+			handleCollabChange(change).catch((error) => {
+				console.error('Failed to apply collaboration change:', error);
+			});
+		},
+		onPresence: (presence) => remotePresenceStore.set(presence),
+		onConnectionChange: (status) => collabStatusStore.set(status)
+	});
+
+	// Share page and selection changes as they happen
+	lastPresenceKey = '';
+	unsubscribePresence = designState.subscribe(($state) => {
+		const key = `${$state.currentPageId}|${$state.selectedElementIds.join(',')}`;
+		if (key !== lastPresenceKey) {
+			lastPresenceKey = key;
+			sendPresence();
+		}
+	});
+}
+
+/**
+ * Leave the co-editing session (local edits are synced over HTTP again)
+ */
+export function leaveCollaboration(): void {
+	if (!collabClient) return;
+
+	collabClient.close();
+	collabClient = null;
+	collabHistory.set(null);
+	collabStatusStore.set(null);
+	undoConflictsStore.set([]);
+	unsubscribePresence?.();
+	unsubscribePresence = null;
+	if (presenceTimer !== null) {
+		clearTimeout(presenceTimer);
+		presenceTimer = null;
+	}
+	remotePresenceStore.set([]);
+
+	getProject(get(storeState).projectId)
+		.then((project) => {
+			if (project?.pageId) startProjectSync(project);
+		})
+		.catch((error) => console.error('Failed to resume sync:', error));
+}
+
+/**
+ * Share where this editor's pointer is on the canvas (null once it leaves)
+ * Throttled - the latest position is sent every PRESENCE_INTERVAL
+ */
+export function updatePresenceCursor(cursor: Presence['cursor']): void {
+	presenceCursor = cursor;
+	if (!collabClient || presenceTimer !== null) return;
+
+	presenceTimer = setTimeout(() => {
+		presenceTimer = null;
+		sendPresence();
+	}, PRESENCE_INTERVAL);
+}
+
+function sendPresence(): void {
+	if (!collabClient) return;
+
+	const { designState: state } = get(storeState);
+	collabClient.setPresence({
+		cursor: presenceCursor,
+		designPageId: state.currentPageId,
+		selectedElementIds: state.selectedElementIds
+	});
+}
+
+function submitToCollaboration(transactionId: string, events: DesignEvent[], joinTransactionId?: string): void {
+	if (!collabClient) return;
+
+	collabClient.submit(transactionId, events);
+	collabHistory.update((history) => {
+		if (!history) return history;
+		const step: CollabUndoStep = { id: joinTransactionId ?? transactionId, transactionIds: [transactionId] };
+		switch (compensating) {
+			case 'undo':
+				return { ...history, redo: [...history.redo, step] };
+			case 'redo':
+				return { ...history, undo: [...history.undo, step] };
+			default: {
+				// Events joining the latest step are undone with it
+				const latest = history.undo[history.undo.length - 1];
+				if (latest?.id === step.id) {
+					const joined = { ...latest, transactionIds: [...latest.transactionIds, transactionId] };
+					return { ...history, undo: [...history.undo.slice(0, -1), joined] };
+				}
+				// A new edit starts a new branch of history
+				return { undo: [...history.undo, step], redo: [] };
+			}
+		}
+	});
+}
+
+/**
+ * Undo one of this editor's undo steps by dispatching compensating events
+ * Other editors' changes made since are kept (see compensating-events.ts) and returned as conflicts
+ */
+async function compensateStep(step: CollabUndoStep, direction: 'undo' | 'redo'): Promise<CompensationConflict[]> {
+	const state = get(storeState);
+	const transactionIds = new Set(step.transactionIds);
+	// Single events are submitted under their own ID until the server stamps a transaction ID
+	const belongs = (event: DesignEvent) => transactionIds.has(event.transactionId ?? event.id);
+	const start = state.events.findIndex(belongs);
+	if (start === -1) return [];
+
+	const before = getStateAt(stateCheckpoints, state.events, start);
+	// Other editors may have committed between the presses of a burst - those aren't undone
+	const after = reduceEvents(state.events.slice(start).filter(belongs), before);
+	const { events, conflicts } = buildCompensation(before, after, state.designState);
+
+	if (events.length === 0) return conflicts;
+
+	beginTransaction();
+	compensating = direction;
+	try {
+		for (const draft of events) {
+			await dispatch({ ...draft, id: uuidv4(), timestamp: Date.now() } as DesignEvent);
+		}
+		await commitTransaction();
+	} catch (error) {
+		if (isInTransaction) {
+			isInTransaction = false;
+			transactionEvents = [];
+			currentTransactionId = null;
+		}
+		throw error;
+	} finally {
+		compensating = null;
+	}
+	return conflicts;
+}
+
+/**
+ * Take the newest transaction off one of the session's history stacks and compensate it
+ */
+function compensateLatest(direction: 'undo' | 'redo'): void {
+	const history = get(collabHistory);
+	const stack = history?.[direction];
+	if (!history || !stack || stack.length === 0 || isInTransaction) return;
+
+	const step = stack[stack.length - 1];
+	collabHistory.set({ ...history, [direction]: stack.slice(0, -1) });
+	undoConflictsStore.set([]);
+	compensateStep(step, direction)
+		.then((conflicts) => undoConflictsStore.set(conflicts.map(describeConflict)))
+		.catch((error) => {
+			console.error(`Failed to ${direction}:`, error);
+		});
+}
+
+// Helper: Drop a rejected transaction from undo steps (and steps left with nothing to undo)
+function withoutTransaction(steps: CollabUndoStep[], transactionId: string): CollabUndoStep[] {
+	return steps
+		.map((step) => ({ ...step, transactionIds: step.transactionIds.filter((id) => id !== transactionId) }))
+		.filter((step) => step.transactionIds.length > 0);
+}
+
+/**
+ * Mirror the session's log and state into the store, and persist what changed
+ */
+async function handleCollabChange(change: CollabChange): Promise<void> {
+	const client = collabClient;
+	if (!client) return;
+
+	const events = client.getEvents();
+	const confirmedCount = client.getConfirmedCount();
+
+	if (change.kind === 'welcome') {
+		// Our transactions from earlier sessions can be undone too
+		const ownTransactionIds = new Set<string>();
+		for (const event of events.slice(0, confirmedCount)) {
+			if (event.userId === client.getUserId() && event.transactionId) {
+				ownTransactionIds.add(event.transactionId);
+			}
+		}
+		// (rejoining after a dropped connection, the stacks already hold some of them)
+		collabHistory.update((history) => {
+			if (!history) return history;
+			const known = new Set([...history.undo, ...history.redo].flatMap((step) => step.transactionIds));
+			const earlier = [...ownTransactionIds]
+				.filter((id) => !known.has(id))
+				.map((id) => ({ id, transactionIds: [id] }));
+			return { ...history, undo: [...earlier, ...history.undo] };
+		});
+
+		clearCheckpoints(stateCheckpoints);
+		replayEvents(stateCheckpoints, events, 0, confirmedCount, getInitialState());
+	} else {
+		// Pending local events may have moved behind the remote ones
+		truncateCheckpoints(stateCheckpoints, confirmedCount - change.events.length);
+	}
+
+	rebuildTransactionMap(events);
+	storeState.update((s) => ({
+		...s,
+		events,
+		designState: {
+			...withViewState(client.getState(), s.designState),
+			selectedElementIds: s.designState.selectedElementIds.filter(
+				(id) => id in client.getState().elements
+			)
+		},
+		currentEventIndex: events.length - 1
+	}));
+
+	switch (change.kind) {
+		case 'welcome':
+			await replaceEventLog(events, null);
+			lastSnapshotVersion = 0;
+			break;
+		case 'remote':
+			await appendEvents(change.events);
+			break;
+		case 'resume':
+			// Other editors' commits are new; ours are stored already and get server timestamps
+			await updateEvents(change.events);
+			break;
+		case 'ack':
+			// Server timestamps define the order the log is loaded in
+			await updateEvents(change.events);
+			break;
+		case 'reject':
+			console.warn('Change rejected by collaboration server:', change.reason);
+			collabHistory.update((history) =>
+				history && {
+					undo: withoutTransaction(history.undo, change.transactionId),
+					redo: withoutTransaction(history.redo, change.transactionId)
+				}
+			);
+			await deleteEvents(change.events.map((event) => event.id));
+			break;
+	}
+	scheduleSnapshot();
+}
+
+// ============================================================================
+// Event Dispatching
+// ============================================================================
+
+/**
+ * Start a transaction - batch multiple events into a single undo/redo step
+ */
+function beginTransaction(): void {
+	if (isInTransaction) {
+		throw new Error('Transaction already in progress');
+	}
+	isInTransaction = true;
+	transactionEvents = [];
+	currentTransactionId = uuidv4();
+}
+
+/**
+ * Commit a transaction - apply all batched events as a single undo/redo step
+ */
+async function commitTransaction(): Promise<void> {
+	if (!isInTransaction) {
+		throw new Error('No transaction in progress');
+	}
+
+	if (transactionEvents.length === 0 || hasHistoryPreview()) {
+		isInTransaction = false;
+		transactionEvents = [];
+		currentTransactionId = null;
+		return;
+	}
+
+	const state = get(storeState);
+
+	// If we're not at the end of the event log, remove future events (they're undone)
+	let newEvents = state.events;
+	const discardedEventIds = state.events.slice(state.currentEventIndex + 1).map((e) => e.id);
+	if (state.currentEventIndex < state.events.length - 1) {
+		newEvents = state.events.slice(0, state.currentEventIndex + 1);
+		// Clear transaction map for removed events
+		for (let i = state.currentEventIndex + 1; i < state.events.length; i++) {
+			eventTransactionMap.delete(i);
+		}
+		truncateCheckpoints(stateCheckpoints, newEvents.length);
+	}
+
+	const startIndex = newEvents.length;
+	// Add all transaction events and track their transaction ID
+	newEvents = [...newEvents, ...transactionEvents];
+	for (let i = 0; i < transactionEvents.length; i++) {
+		eventTransactionMap.set(startIndex + i, currentTransactionId!);
+	}
+
+	// Recompute design state INCREMENTALLY (only apply new transaction events)
+	let newDesignState = applyEventsIncremental(state.designState, transactionEvents);
+
+	// Preserve selection state (selection is not part of event sourcing)
+	// Create new object because Immer returns frozen object
+	newDesignState = {
+		...newDesignState,
+		selectedElementIds: state.designState.selectedElementIds
+	};
+	recordCheckpoint(stateCheckpoints, newEvents.length, newDesignState);
+
+	// Update store - increment index only once for all events
+	storeState.update((s) => ({
+		...s,
+		events: newEvents,
+		designState: newDesignState,
+		currentEventIndex: newEvents.length - 1,
+		isSaving: true
+	}));
+
+	// Persist all events to IndexedDB in a single batch write (massive performance boost)
+	try {
+		// Undone events were discarded from memory - drop them from the log too so a reload matches
+		if (discardedEventIds.length > 0) {
+			await discardPersistedEvents(discardedEventIds, startIndex);
+		}
+		await appendEvents(transactionEvents);
+
+		storeState.update((s) => ({
+			...s,
+			isSaving: false,
+			lastSavedAt: Date.now()
+		}));
+		scheduleSnapshot();
+		submitToCollaboration(currentTransactionId!, transactionEvents);
+		queueForSync(transactionEvents, discardedEventIds);
+	} catch (error) {
+		console.error('Failed to save transaction:', error);
+		storeState.update((s) => ({
+			...s,
+			isSaving: false
+		}));
+		throw error;
+	} finally {
+		isInTransaction = false;
+		transactionEvents = [];
+		currentTransactionId = null;
+	}
+}
+
+/**
+ * Dispatch a new event and update the design state
+ *
+ * With a joinTransactionId the event joins an earlier one-event-at-a-time transaction
+ * (e.g. a burst of arrow key nudges), so it is undone together with it.
+ * While co-editing it is still submitted on its own (the server commits each transaction
+ * ID once) and only joins the earlier one on this editor's undo stack.
+ */
+async function dispatch(event: DesignEvent, joinTransactionId?: string): Promise<void> {
+	// Stamp the schema version so future shape changes can be upcasted
+	event = { ...event, schemaVersion: CURRENT_EVENT_SCHEMA_VERSION };
+	if (joinTransactionId && !isInTransaction && !collabClient) {
+		event = { ...event, transactionId: joinTransactionId };
+	}
+
+	// If in transaction, collect events instead of dispatching immediately
+	if (isInTransaction) {
+		// Stamp the transaction ID on the event so the grouping is persisted to IndexedDB
+		transactionEvents.push({ ...event, transactionId: currentTransactionId! });
+		// OPTIMIZATION: Don't rebuild state on every event during transaction!
+		// This was causing O(n²) complexity (reduce 1, then 2, then 3... events)
+		// State will be rebuilt once in commitTransaction() instead
+		// UI will update when transaction commits (still feels instant)
+		return;
+	}
+
+	if (hasHistoryPreview()) return;
+
+	const state = get(storeState);
+
+	// If we're not at the end of the event log, remove future events (they're undone)
+	let newEvents = state.events;
+	const discardedEventIds = state.events.slice(state.currentEventIndex + 1).map((e) => e.id);
+	if (state.currentEventIndex < state.events.length - 1) {
+		newEvents = state.events.slice(0, state.currentEventIndex + 1);
+		// Clear transaction map for removed events
+		for (let i = state.currentEventIndex + 1; i < state.events.length; i++) {
+			eventTransactionMap.delete(i);
+		}
+		truncateCheckpoints(stateCheckpoints, newEvents.length);
+	}
+
+	// Add the new event
+	newEvents = [...newEvents, event];
+	if (event.transactionId) {
+		eventTransactionMap.set(newEvents.length - 1, event.transactionId);
+	}
+
+	// Recompute design state INCREMENTALLY (only apply the new event)
+	let newDesignState = applyEventsIncremental(state.designState, [event]);
+
+	// Preserve selection state (selection is not part of event sourcing)
+	// Create new object because Immer returns frozen object
+	newDesignState = {
+		...newDesignState,
+		selectedElementIds: state.designState.selectedElementIds
+	};
+	recordCheckpoint(stateCheckpoints, newEvents.length, newDesignState);
+
+	// Update store
+	storeState.update((s) => ({
+		...s,
+		events: newEvents,
+		designState: newDesignState,
+		currentEventIndex: newEvents.length - 1,
+		isSaving: true
+	}));
+
+	// Persist to IndexedDB
+	try {
+		// Undone events were discarded from memory - drop them from the log too so a reload matches
+		if (discardedEventIds.length > 0) {
+			await discardPersistedEvents(discardedEventIds, newEvents.length - 1);
+		}
+		await appendEvent(event);
+		storeState.update((s) => ({
+			...s,
+			isSaving: false,
+			lastSavedAt: Date.now()
+		}));
+		scheduleSnapshot();
+		submitToCollaboration(event.transactionId ?? event.id, [event], joinTransactionId);
+		queueForSync([event], discardedEventIds);
+	} catch (error) {
+		console.error('Failed to save event:', error);
+		storeState.update((s) => ({
+			...s,
+			isSaving: false
+		}));
+		throw error;
+	}
+}
+
+// ============================================================================
+// Undo/Redo
+// ============================================================================
+
+/**
+ * Undo the last event (or transaction)
+ */
+export function undo(): void {
+	exitHistoryPreview();
+
+	// Rewinding the shared log would drop other editors' changes - undo only our own instead
+	if (collabClient) {
+		compensateLatest('undo');
+		return;
+	}
+
+	const state = get(storeState);
+
+	if (state.currentEventIndex <= -1) {
+		return; // Nothing to undo
+	}
+
+	// Check if current event is part of a transaction
+	const currentTransactionId = eventTransactionMap.get(state.currentEventIndex);
+	let newEventIndex = state.currentEventIndex - 1;
+
+	// If it's part of a transaction, skip back to before the transaction started
+	if (currentTransactionId) {
+		// Find the first event in this transaction
+		while (newEventIndex >= 0 && eventTransactionMap.get(newEventIndex) === currentTransactionId) {
+			newEventIndex--;
+		}
+	}
+
+	// Rebuild from the nearest checkpoint (bounded replay, independent of history length)
+	const restoredState = getStateAt(stateCheckpoints, state.events, newEventIndex + 1);
+
+	storeState.update((s) => ({
+		...s,
+		designState: withViewState(restoredState, s.designState),
+		currentEventIndex: newEventIndex
+	}));
+}
+
+/**
+ * Redo the next event (or transaction)
+ */
+export function redo(): void {
+	exitHistoryPreview();
+
+	if (collabClient) {
+		compensateLatest('redo');
+		return;
+	}
+
+	const state = get(storeState);
+
+	if (state.currentEventIndex >= state.events.length - 1) {
+		return; // Nothing to redo
+	}
+
+	let newEventIndex = state.currentEventIndex + 1;
+
+	// Check if the next event is part of a transaction
+	const nextTransactionId = eventTransactionMap.get(newEventIndex);
+
+	// If it's part of a transaction, skip forward to the end of the transaction
+	if (nextTransactionId) {
+		// Find the last event in this transaction
+		while (newEventIndex < state.events.length - 1 &&
+		       eventTransactionMap.get(newEventIndex + 1) === nextTransactionId) {
+			newEventIndex++;
+		}
+	}
+
+	// Only apply the redone events on top of the current state
+	const eventsToApply = state.events.slice(state.currentEventIndex + 1, newEventIndex + 1);
+	const newDesignState = applyEventsIncremental(state.designState, eventsToApply);
+	recordCheckpoint(stateCheckpoints, newEventIndex + 1, newDesignState);
+
+	storeState.update((s) => ({
+		...s,
+		designState: withViewState(newDesignState, s.designState),
+		currentEventIndex: newEventIndex
+	}));
+}
+
+/**
+ * Carry non-event-sourced view state over to a restored design state
+ * Keeps the current page (if it still exists); selection is cleared as elements may have changed
+ */
+function withViewState(restored: DesignState, current: DesignState): DesignState {
+	const currentPageId =
+		current.currentPageId && restored.pages[current.currentPageId]
+			? current.currentPageId
+			: restored.currentPageId;
+
+	return {
+		...restored,
+		currentPageId,
+		selectedElementIds: []
+	};
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * One undo step in the history panel
+ */
+export interface HistoryEntry {
+	id: string; // Transaction ID, or the event ID for single events
+	description: string;
+	timestamp: number;
+	userId?: string;
+	eventCount: number; // Events in the log up to and including this step
+	isUndone: boolean; // Past the current position (redo would bring it back)
+}
+
+const namedCheckpointsStore = writable<NamedCheckpoint[]>([]);
+
+/**
+ * Named checkpoints of the open project, oldest first
+ */
+export const namedCheckpoints: Readable<NamedCheckpoint[]> = { subscribe: namedCheckpointsStore.subscribe };
+
+/**
+ * The event log grouped into undo steps, oldest first
+ */
+export const historyEntries: Readable<HistoryEntry[]> = derived(storeState, ($state) => {
+	const entries: HistoryEntry[] = [];
+	const { events } = $state;
+
+	let start = 0;
+	while (start < events.length) {
+		const transactionId = eventTransactionMap.get(start);
+		let end = start;
+		if (transactionId) {
+			while (end + 1 < events.length && eventTransactionMap.get(end + 1) === transactionId) end++;
+		}
+
+		const stepEvents = events.slice(start, end + 1);
+		entries.push({
+			id: transactionId ?? events[start].id,
+			description: describeTransaction(stepEvents, $state.designState.elements),
+			timestamp: events[end].timestamp,
+			userId: events[end].userId,
+			eventCount: end + 1,
+			isUndone: end > $state.currentEventIndex
+		});
+		start = end + 1;
+	}
+
+	return entries;
+});
+
+/**
+ * Whether the canvas shows an earlier point in history
+ */
+export const isPreviewingHistory: Readable<boolean> = derived(
+	storeState,
+	($state) => $state.previewState !== null
+);
+
+function hasHistoryPreview(): boolean {
+	return get(storeState).previewState !== null;
+}
+
+/**
+ * A point in history: after the first `eventCount` events, a named checkpoint, or the current design
+ */
+export type HistoryPoint = { eventCount: number } | { checkpointId: string } | 'latest';
+
+/**
+ * Two points in history being compared on the canvas
+ */
+export interface HistoryComparison {
+	from: HistoryPoint;
+	to: HistoryPoint;
+	before: DesignState;
+	after: DesignState;
+	diff: DesignDiff;
+}
+
+const historyComparisonStore = writable<HistoryComparison | null>(null);
+
+/**
+ * The comparison shown on the canvas (null when not comparing)
+ */
+export const historyComparison: Readable<HistoryComparison | null> = {
+	subscribe: historyComparisonStore.subscribe
+};
+
+function resolveHistoryPoint(point: HistoryPoint): DesignState {
+	const state = get(storeState);
+	if (point === 'latest') {
+		return state.designState;
+	}
+	if ('checkpointId' in point) {
+		const checkpoint = get(namedCheckpointsStore).find((c) => c.id === point.checkpointId);
+		if (!checkpoint) {
+			throw new Error(`Checkpoint not found: ${point.checkpointId}`);
+		}
+		return checkpoint.state;
+	}
+	return getStateAt(stateCheckpoints, state.events, point.eventCount);
+}
+
+function showPreview(previewState: DesignState): void {
+	storeState.update((s) => ({
+		...s,
+		previewState: withViewState(previewState, s.designState)
+	}));
+}
+
+/**
+ * Show the design as it was after the first `eventCount` events, without changing the log
+ * The canvas is read-only until the preview is closed
+ */
+export function previewHistory(eventCount: number): void {
+	historyComparisonStore.set(null);
+	showPreview(resolveHistoryPoint({ eventCount }));
+}
+
+/**
+ * Show the design as it was at a named checkpoint (read-only)
+ */
+export function previewNamedCheckpoint(checkpointId: string): void {
+	historyComparisonStore.set(null);
+	showPreview(resolveHistoryPoint({ checkpointId }));
+}
+
+/**
+ * Compare two points in history
+ * The canvas shows the newer point read-only, with changed elements highlighted
+ */
+export function compareHistory(from: HistoryPoint, to: HistoryPoint): DesignDiff {
+	const before = resolveHistoryPoint(from);
+	const after = resolveHistoryPoint(to);
+	const diff = diffDesignStates(before, after);
+
+	historyComparisonStore.set({ from, to, before, after, diff });
+	showPreview(after);
+	return diff;
+}
+
+/**
+ * Go back to the current design
+ */
+export function exitHistoryPreview(): void {
+	historyComparisonStore.set(null);
+	if (!hasHistoryPreview()) return;
+	storeState.update((s) => ({ ...s, previewState: null }));
+}
+
+/**
+ * Name the current point in history
+ */
+export async function createNamedCheckpoint(name: string): Promise<NamedCheckpoint> {
+	const state = get(storeState);
+	const eventCount = state.currentEventIndex + 1;
+
+	const checkpoint: NamedCheckpoint = {
+		id: uuidv4(),
+		name: name.trim() || 'Untitled checkpoint',
+		eventId: eventCount > 0 ? state.events[eventCount - 1].id : null,
+		eventCount,
+		state: { ...state.designState, selectedElementIds: [] },
+		createdAt: Date.now()
+	};
+
+	await saveNamedCheckpoint(checkpoint);
+	namedCheckpointsStore.update((checkpoints) => [...checkpoints, checkpoint]);
+	return checkpoint;
+}
+
+/**
+ * Rename a named checkpoint
+ */
+export async function renameNamedCheckpoint(checkpointId: string, name: string): Promise<void> {
+	const checkpoint = get(namedCheckpointsStore).find((c) => c.id === checkpointId);
+	if (!checkpoint) return;
+
+	const renamed = { ...checkpoint, name: name.trim() || checkpoint.name };
+	await saveNamedCheckpoint(renamed);
+	namedCheckpointsStore.update((checkpoints) =>
+		checkpoints.map((c) => (c.id === checkpointId ? renamed : c))
+	);
+}
+
+/**
+ * Delete a named checkpoint (the history itself is unchanged)
+ */
+export async function deleteNamedCheckpoint(checkpointId: string): Promise<void> {
+	await deleteStoredCheckpoint(checkpointId);
+	namedCheckpointsStore.update((checkpoints) => checkpoints.filter((c) => c.id !== checkpointId));
+}
+
+/**
+ * Restore a named checkpoint on the current branch
+ *
+ * The events that turn the current design back into the checkpoint are added as one
+ * new step, so everything made after the checkpoint stays in the history (it can still
+ * be previewed, and undoing the restore brings it back). Works the same while co-editing.
+ * To continue from the checkpoint on a branch of its own, use branchFromNamedCheckpoint.
+ */
+export async function restoreNamedCheckpoint(checkpointId: string): Promise<void> {
+	const checkpoint = get(namedCheckpointsStore).find((c) => c.id === checkpointId);
+	if (!checkpoint) {
+		throw new Error(`Checkpoint not found: ${checkpointId}`);
+	}
+
+	exitHistoryPreview();
+	const current = get(storeState).designState;
+	const { events } = buildCompensation(checkpoint.state, current, current);
+	if (events.length === 0) return;
+
+	beginTransaction();
+	try {
+		for (const draft of events) {
+			await dispatch({ ...draft, id: uuidv4(), timestamp: Date.now() } as DesignEvent);
+		}
+		await commitTransaction();
+	} catch (error) {
+		if (isInTransaction) {
+			isInTransaction = false;
+			transactionEvents = [];
+			currentTransactionId = null;
+		}
 		throw error;
-	} finally {
-		isInTransaction = false;
-		transactionEvents = [];
-		currentTransactionId = null;
 	}
 }
 
 /**
- * Dispatch a new event and update the design state
+ * Restore a named checkpoint as a new branch of history, forked where the checkpoint was made
+ * The current branch is left as it is
+ *
+ * @returns The new branch's ID
+ * @throws {Error} If the checkpoint's point is no longer in the current branch's history
+ *   (compacted, undone and overwritten, or made on another branch)
  */
-async function dispatch(event: DesignEvent): Promise<void> {
-	// If in transaction, collect events instead of dispatching immediately
-	if (isInTransaction) {
-		transactionEvents.push(event);
-		// OPTIMIZATION: Don't rebuild state on every event during transaction!
-		// This was causing O(n²) complexity (reduce 1, then 2, then 3... events)
-		// State will be rebuilt once in commitTransaction() instead
-		// UI will update when transaction commits (still feels instant)
-		return;
+export async function branchFromNamedCheckpoint(checkpointId: string, name?: string): Promise<string> {
+	const checkpoint = get(namedCheckpointsStore).find((c) => c.id === checkpointId);
+	if (!checkpoint) {
+		throw new Error(`Checkpoint not found: ${checkpointId}`);
 	}
 
+	exitHistoryPreview();
 	const state = get(storeState);
-
-	// If we're not at the end of the event log, remove future events (they're undone)
-	let newEvents = state.events;
-	if (state.currentEventIndex < state.events.length - 1) {
-		newEvents = state.events.slice(0, state.currentEventIndex + 1);
+	// Compaction shifts positions, so find the checkpoint by its last event
+	const eventCount =
+		checkpoint.eventId === null ? 0 : state.events.findIndex((event) => event.id === checkpoint.eventId) + 1;
+	if ((checkpoint.eventId !== null && eventCount === 0) || eventCount > state.currentEventIndex + 1) {
+		throw new Error(`"${checkpoint.name}" is no longer in this branch's history - restore it instead`);
 	}
 
-	// Add the new event
-	newEvents = [...newEvents, event];
+	return forkBranch(name ?? checkpoint.name, eventCount);
+}
 
-	// Recompute design state
-	const newDesignState = reduceEvents(newEvents);
+// ============================================================================
+// Branches
+// ============================================================================
 
-	// Preserve selection state (selection is not part of event sourcing)
-	newDesignState.selectedElementIds = state.designState.selectedElementIds;
+/**
+ * ID of the branch every project starts on
+ */
+export const MAIN_BRANCH_ID = 'main';
 
-	// Update store
-	storeState.update((s) => ({
-		...s,
-		events: newEvents,
-		designState: newDesignState,
-		currentEventIndex: newEvents.length - 1,
-		isSaving: true
-	}));
+/**
+ * A branch as listed in the editor (without its stored log)
+ */
+export type BranchInfo = Omit<DesignBranch, 'events' | 'baseline'>;
 
-	// Persist to IndexedDB
-	try {
-		await appendEvent(event);
-		storeState.update((s) => ({
-			...s,
-			isSaving: false,
-			lastSavedAt: Date.now()
-		}));
-	} catch (error) {
-		console.error('Failed to save event:', error);
-		storeState.update((s) => ({
-			...s,
-			isSaving: false
-		}));
-		throw error;
-	}
+const branchesStore = writable<BranchInfo[]>([]);
+const currentBranchIdStore = writable<string>(MAIN_BRANCH_ID);
+
+/**
+ * Branches of the open project, oldest first (empty until the first fork)
+ */
+export const branches: Readable<BranchInfo[]> = { subscribe: branchesStore.subscribe };
+
+/**
+ * ID of the checked-out branch
+ */
+export const currentBranchId: Readable<string> = { subscribe: currentBranchIdStore.subscribe };
+
+function toBranchInfo(branch: DesignBranch): BranchInfo {
+	return {
+		id: branch.id,
+		name: branch.name,
+		parentBranchId: branch.parentBranchId,
+		forkEventId: branch.forkEventId,
+		createdAt: branch.createdAt,
+		updatedAt: branch.updatedAt,
+		mergedAt: branch.mergedAt
+	};
 }
 
-// ============================================================================
-// Undo/Redo
-// ============================================================================
+async function loadBranches(branchId: string): Promise<void> {
+	branchesStore.set((await getBranches()).map(toBranchInfo));
+	currentBranchIdStore.set(branchId);
+}
 
 /**
- * Undo the last event (or transaction)
+ * The stored record of a branch, creating the main branch's on the first fork
  */
-export function undo(): void {
+async function getBranchRecord(branchId: string): Promise<DesignBranch> {
+	const branch = (await getBranches()).find((b) => b.id === branchId);
+	if (branch) return branch;
+
+	if (branchId !== MAIN_BRANCH_ID) {
+		throw new Error(`Branch not found: ${branchId}`);
+	}
+	return {
+		id: MAIN_BRANCH_ID,
+		name: 'Main',
+		parentBranchId: null,
+		forkEventId: null,
+		events: [],
+		baseline: null,
+		createdAt: 0, // Listed first
+		updatedAt: Date.now()
+	};
+}
+
+/**
+ * Fork a new branch from a point in the current branch's history and switch to it
+ *
+ * @param eventCount - Events of the current branch to start from (default: the current design)
+ */
+export async function forkBranch(name: string, eventCount?: number): Promise<string> {
 	const state = get(storeState);
+	if (isInTransaction || state.isSaving) {
+		throw new Error('Cannot fork while changes are being saved');
+	}
 
-	if (state.currentEventIndex <= -1) {
-		return; // Nothing to undo
+	const count = Math.min(eventCount ?? state.currentEventIndex + 1, state.currentEventIndex + 1);
+	const now = Date.now();
+	const branch: DesignBranch = {
+		id: uuidv4(),
+		name: name.trim() || 'Untitled branch',
+		parentBranchId: get(currentBranchIdStore),
+		forkEventId: count > 0 ? state.events[count - 1].id : null,
+		events: state.events.slice(0, count),
+		baseline: await getBaselineSnapshot(),
+		createdAt: now,
+		updatedAt: now
+	};
+
+	await saveBranch(branch);
+	await switchBranch(branch.id);
+	return branch.id;
+}
+
+/**
+ * Check out another branch
+ * Undone changes of the current branch are dropped (the redo history doesn't survive the switch)
+ */
+export async function switchBranch(branchId: string): Promise<void> {
+	const state = get(storeState);
+	const fromId = get(currentBranchIdStore);
+	if (branchId === fromId) return;
+	if (isInTransaction || state.isSaving) {
+		throw new Error('Cannot switch branches while changes are being saved');
+	}
+	if (collabClient) {
+		throw new Error('Leave the co-editing session before switching branches');
 	}
 
-	// Check if current event is part of a transaction
-	const currentTransactionId = eventTransactionMap.get(state.currentEventIndex);
-	let newEventIndex = state.currentEventIndex - 1;
+	const outgoing = await getBranchRecord(fromId);
+	const incoming = await getBranchRecord(branchId);
 
-	// If it's part of a transaction, skip back to before the transaction started
-	if (currentTransactionId) {
-		// Find the first event in this transaction
-		while (newEventIndex >= 0 && eventTransactionMap.get(newEventIndex) === currentTransactionId) {
-			newEventIndex--;
-		}
+	if (snapshotIdleTimer !== null) {
+		clearTimeout(snapshotIdleTimer);
+		snapshotIdleTimer = null;
 	}
+	exitHistoryPreview();
+	stopSync();
 
-	const eventsToApply = state.events.slice(0, newEventIndex + 1);
-	const newDesignState = reduceEvents(eventsToApply);
+	const undone = state.events.slice(state.currentEventIndex + 1);
+	if (undone.length > 0) {
+		await deleteEvents(undone.map((event) => event.id));
+	}
+	await swapBranchLog(outgoing, incoming);
+
+	const project = await getProject(state.projectId);
+	if (project) {
+		await saveProject({
+			...project,
+			branchId: branchId === MAIN_BRANCH_ID ? undefined : branchId,
+			updatedAt: Date.now()
+		});
+	}
 
-	storeState.update((s) => ({
-		...s,
-		designState: newDesignState,
-		currentEventIndex: newEventIndex
-	}));
+	eventTransactionMap.clear();
+	storeState.set({ ...initialStoreState, projectId: state.projectId });
+	await initialize();
 }
 
 /**
- * Redo the next event (or transaction)
+ * Merge another branch into the checked-out one
+ *
+ * Three-way merge: everything the other branch changed since the two logs diverged
+ * is added to this branch as one undoable step. Properties both branches changed are
+ * returned as conflicts; `strategy` decides whose value is kept.
  */
-export function redo(): void {
+export async function mergeBranch(branchId: string, strategy: MergeStrategy = 'ours'): Promise<MergeConflict[]> {
+	if (branchId === get(currentBranchIdStore)) {
+		throw new Error('Cannot merge a branch into itself');
+	}
+	const branch = await getBranchRecord(branchId);
+
+	exitHistoryPreview();
 	const state = get(storeState);
+	const ours = state.events.slice(0, state.currentEventIndex + 1);
+	const baseline = await getBaselineSnapshot();
+	const { events, conflicts } = mergeEventLogs(ours, branch.events, baseline?.state, strategy);
 
-	if (state.currentEventIndex >= state.events.length - 1) {
-		return; // Nothing to redo
+	if (events.length > 0) {
+		beginTransaction();
+		try {
+			for (const draft of events) {
+				await dispatch({ ...draft, id: uuidv4(), timestamp: Date.now() } as DesignEvent);
+			}
+			await commitTransaction();
+		} catch (error) {
+			if (isInTransaction) {
+				isInTransaction = false;
+				transactionEvents = [];
+				currentTransactionId = null;
+			}
+			throw error;
+		}
 	}
 
-	let newEventIndex = state.currentEventIndex + 1;
+	const mergedAt = Date.now();
+	await saveBranch({ ...branch, mergedAt });
+	branchesStore.update((list) => list.map((b) => (b.id === branchId ? { ...b, mergedAt } : b)));
 
-	// Check if the next event is part of a transaction
-	const nextTransactionId = eventTransactionMap.get(newEventIndex);
+	return conflicts;
+}
 
-	// If it's part of a transaction, skip forward to the end of the transaction
-	if (nextTransactionId) {
-		// Find the last event in this transaction
-		while (newEventIndex < state.events.length - 1 &&
-		       eventTransactionMap.get(newEventIndex + 1) === nextTransactionId) {
-			newEventIndex++;
-		}
+/**
+ * Rename a branch
+ */
+export async function renameBranch(branchId: string, name: string): Promise<void> {
+	const branch = await getBranchRecord(branchId);
+	const renamed = { ...branch, name: name.trim() || branch.name };
+
+	await saveBranch(renamed);
+	await loadBranches(get(currentBranchIdStore));
+}
+
+/**
+ * Delete a branch and its history
+ * The main branch and the checked-out branch can't be deleted
+ */
+export async function deleteBranch(branchId: string): Promise<void> {
+	if (branchId === MAIN_BRANCH_ID) {
+		throw new Error('Cannot delete the main branch');
+	}
+	if (branchId === get(currentBranchIdStore)) {
+		throw new Error('Cannot delete the checked-out branch');
 	}
 
-	const eventsToApply = state.events.slice(0, newEventIndex + 1);
-	const newDesignState = reduceEvents(eventsToApply);
+	const branch = await getBranchRecord(branchId);
+	await deleteStoredBranch(branchId);
 
-	storeState.update((s) => ({
-		...s,
-		designState: newDesignState,
-		currentEventIndex: newEventIndex
-	}));
+	// Branches forked from it now count as forked from its parent
+	for (const child of (await getBranches()).filter((b) => b.parentBranchId === branchId)) {
+		await saveBranch({ ...child, parentBranchId: branch.parentBranchId });
+	}
+	await loadBranches(get(currentBranchIdStore));
 }
 
 // ============================================================================
@@ -486,7 +1958,10 @@ export function setCurrentPage(pageId: string): void {
 			designState: {
 				...state.designState,
 				currentPageId: pageId
-			}
+			},
+			previewState: state.previewState && state.previewState.pages[pageId]
+				? { ...state.previewState, currentPageId: pageId }
+				: state.previewState
 		};
 	});
 }
@@ -503,9 +1978,22 @@ export async function createElement(data: {
 	size: { width: number; height: number };
 	styles?: Partial<Element['styles']>;
 	content?: string;
+	snapToBaseline?: boolean; // Put the top (text: first baseline) on the view's baseline grid
 }): Promise<string> {
 	const elementId = uuidv4();
 	const state = get(designState);
+	const subject = {
+		type: data.elementType,
+		parentId: data.parentId,
+		pageId: data.pageId,
+		position: data.position,
+		size: data.size,
+		typography: {},
+		spacing: {}
+	};
+	const position = data.snapToBaseline
+		? snapPositionToBaseline(state, subject, data.position, get(baselineGridUnit))
+		: data.position;
 
 	// CRITICAL: Root elements MUST belong to a page (LAYERS = DOM POSITION)
 	// Check that the page exists
@@ -526,7 +2014,7 @@ export async function createElement(data: {
 			parentId: data.parentId,
 			pageId: data.pageId,
 			elementType: data.elementType,
-			position: data.position,
+			position,
 			size: data.size,
 			styles: data.styles,
 			content: data.content
@@ -590,28 +2078,55 @@ export async function deleteElements(elementIds: string[]): Promise<void> {
 	});
 }
 
+/**
+ * Move an element (position relative to its parent)
+ * With snapToBaseline, the top (text: first baseline) lands on the baseline grid
+ * if the element's view has baseline snapping on
+ */
 export async function moveElement(
 	elementId: string,
 	position: { x: number; y: number },
 	snapToBaseline = false
 ): Promise<void> {
+	const state = get(designState);
+	const element = state.elements[elementId];
+	const snapped =
+		snapToBaseline && element
+			? snapPositionToBaseline(state, element, position, get(baselineGridUnit))
+			: position;
+
 	await dispatch({
 		id: uuidv4(),
 		type: 'MOVE_ELEMENT',
 		timestamp: Date.now(),
 		payload: {
 			elementId,
-			position,
-			snapToBaseline
+			position: snapped,
+			snapToBaseline: snapped !== position
 		}
 	});
 }
 
+/**
+ * Resize an element (and move it, for N/W handles)
+ * With snapToBaseline, the top and height land on the view's baseline grid (see moveElement)
+ */
 export async function resizeElement(
 	elementId: string,
 	size: { width: number; height: number },
-	position?: { x: number; y: number }
+	position?: { x: number; y: number },
+	snapToBaseline = false
 ): Promise<void> {
+	const state = get(designState);
+	const element = state.elements[elementId];
+	if (snapToBaseline && element) {
+		const gridUnit = get(baselineGridUnit);
+		if (position) {
+			position = snapPositionToBaseline(state, element, position, gridUnit);
+		}
+		size = snapSizeToBaseline(state, { ...element, position: position ?? element.position }, size, gridUnit);
+	}
+
 	await dispatch({
 		id: uuidv4(),
 		type: 'RESIZE_ELEMENT',
@@ -652,6 +2167,181 @@ export async function moveElementsGroup(
 	});
 }
 
+// Helper: Visual bounds of an element on the canvas (rotated elements by their corners)
+function getVisualBounds(element: Element, elements: Record<string, Element>): Bounds {
+	return getRotatedBounds(getAbsoluteElementBounds(element, elements), element.rotation || 0);
+}
+
+// Helper: Whether an element's position comes from its auto layout (flex) parent
+function isPlacedByAutoLayout(element: Element, elements: Record<string, Element>): boolean {
+	const parent = element.parentId ? elements[element.parentId] : null;
+	return !!parent?.autoLayout?.enabled && !element.autoLayout?.ignoreAutoLayout;
+}
+
+// Helper: Selected elements that align/distribute may move (not locked, not placed by auto layout)
+function getArrangeableSelection(state: DesignState): Element[] {
+	return get(selectedElements).filter(
+		(element) => !element.locked && !isPlacedByAutoLayout(element, state.elements)
+	);
+}
+
+// Helper: Move elements by canvas offsets in one GROUP_MOVE_ELEMENTS event
+async function moveElementsBy(moves: Array<{ element: Element; offset: { x: number; y: number } }>): Promise<void> {
+	const elements = moves
+		.filter(({ offset }) => Math.abs(offset.x) > 0.001 || Math.abs(offset.y) > 0.001)
+		.map(({ element, offset }) => ({
+			elementId: element.id,
+			position: { x: element.position.x + offset.x, y: element.position.y + offset.y }
+		}));
+	if (elements.length === 0) return;
+
+	await moveElementsGroup(elements);
+}
+
+/**
+ * Align the selected elements' visual bounds to the selection or to their parent
+ *
+ * By default several elements align to the selection, and a single element to its
+ * parent (or the view it sits in). Locked elements and auto layout children stay put.
+ */
+export async function alignElements(alignment: Alignment, to?: AlignTarget): Promise<void> {
+	const state = get(designState);
+	const selection = getArrangeableSelection(state);
+	if (selection.length === 0) return;
+
+	const target = to ?? (selection.length > 1 ? 'selection' : 'parent');
+	let targetBounds: Bounds | null = null;
+
+	if (target === 'selection') {
+		if (selection.length < 2) return;
+		targetBounds = unionBounds(selection.map((element) => getVisualBounds(element, state.elements)));
+	} else {
+		const parentId = selection[0].parentId;
+		if (!selection.every((element) => element.parentId === parentId)) return;
+		const parent = parentId ? state.elements[parentId] : findBaselineView(state, selection[0]);
+		if (!parent) return;
+		targetBounds = getAbsoluteElementBounds(parent, state.elements);
+	}
+
+	const bounds = selection.map((element) => getVisualBounds(element, state.elements));
+	const offsets = alignBounds(bounds, alignment, targetBounds);
+
+	await moveElementsBy(selection.map((element, i) => ({ element, offset: offsets[i] })));
+}
+
+/**
+ * Space the selected elements evenly along an axis (needs three or more)
+ */
+export async function distributeElements(axis: 'x' | 'y'): Promise<void> {
+	const state = get(designState);
+	const selection = getArrangeableSelection(state);
+	if (selection.length < 3) return;
+
+	const bounds = selection.map((element) => getVisualBounds(element, state.elements));
+	const offsets = distributeBounds(bounds, axis);
+
+	await moveElementsBy(selection.map((element, i) => ({ element, offset: offsets[i] })));
+}
+
+export type NudgeDirection = 'left' | 'right' | 'up' | 'down';
+
+// Helper: Shift+arrow step - the baseline grid unit where the grid is in use, 10px otherwise
+function getLargeNudgeStep(state: DesignState, element: Element): number {
+	const view = element.isView ? element : findBaselineView(state, element);
+	const gridUnit = get(baselineGridUnit);
+	if (gridUnit > 0 && (get(snapSettings).baselineGrid || view?.baselineSnap)) return gridUnit;
+	return 10;
+}
+
+/**
+ * Move the selection one step with the arrow keys (1px, or a large step with Shift)
+ *
+ * Locked elements stay put. Auto layout children are reordered within their flex
+ * parent instead, one place per press along the parent's direction.
+ * Pass the same transactionId for each press of a key-repeat burst so it is one undo step.
+ */
+export async function nudgeSelection(
+	direction: NudgeDirection,
+	large: boolean,
+	transactionId?: string
+): Promise<void> {
+	const state = get(designState);
+	const selection = get(selectedElements).filter((element) => !element.locked);
+	if (selection.length === 0) return;
+
+	const axis = direction === 'left' || direction === 'right' ? 'x' : 'y';
+	const sign = direction === 'left' || direction === 'up' ? -1 : 1;
+	const step = large ? getLargeNudgeStep(state, selection[0]) : 1;
+
+	const moves: Array<{ elementId: string; position: { x: number; y: number } }> = [];
+	const flexChildren: Element[] = [];
+
+	for (const element of selection) {
+		if (isPlacedByAutoLayout(element, state.elements)) {
+			const parent = state.elements[element.parentId!];
+			const mainAxis = (parent.autoLayout?.direction || 'row') === 'column' ? 'y' : 'x';
+			if (mainAxis === axis) flexChildren.push(element);
+			continue;
+		}
+
+		moves.push({
+			elementId: element.id,
+			position: {
+				x: element.position.x + (axis === 'x' ? sign * step : 0),
+				y: element.position.y + (axis === 'y' ? sign * step : 0)
+			}
+		});
+	}
+
+	if (moves.length > 0) {
+		await dispatch(
+			{
+				id: uuidv4(),
+				type: 'GROUP_MOVE_ELEMENTS',
+				timestamp: Date.now(),
+				payload: { elements: moves }
+			},
+			transactionId
+		);
+	}
+
+	await reorderFlexChildren(flexChildren, sign, transactionId);
+}
+
+// Helper: Move auto layout children one place back (-1) or forward (1) among their siblings
+// (selected siblings move as a block; an element already at the end stays there)
+async function reorderFlexChildren(children: Element[], sign: number, transactionId?: string): Promise<void> {
+	const state = get(designState);
+	const selectedIds = new Set(children.map((child) => child.id));
+	const parentIds = new Set(children.map((child) => child.parentId!));
+
+	for (const parentId of parentIds) {
+		const order = [...(state.elements[parentId]?.children ?? [])];
+		// Walk towards the direction of travel so each swap sees the previous ones
+		const indices = order.map((_, index) => index);
+		if (sign > 0) indices.reverse();
+
+		for (const index of indices) {
+			const neighbour = index + sign;
+			if (!selectedIds.has(order[index]) || neighbour < 0 || neighbour >= order.length) continue;
+			if (selectedIds.has(order[neighbour])) continue;
+
+			const elementId = order[index];
+			order[index] = order[neighbour];
+			order[neighbour] = elementId;
+			await dispatch(
+				{
+					id: uuidv4(),
+					type: 'REORDER_ELEMENT',
+					timestamp: Date.now(),
+					payload: { elementId, newParentId: parentId, newIndex: neighbour }
+				},
+				transactionId
+			);
+		}
+	}
+}
+
 /**
  * Resize multiple elements as a single atomic operation (for group operations)
  */
@@ -709,33 +2399,87 @@ export async function reorderElement(
 	});
 }
 
-export async function updateElementStyles(
-	elementId: string,
-	styles: Partial<Element['styles']>
+export async function updateElementStyles(
+	elementId: string,
+	styles: Partial<Element['styles']>
+): Promise<void> {
+	await dispatch({
+		id: uuidv4(),
+		type: 'UPDATE_STYLES',
+		timestamp: Date.now(),
+		payload: {
+			elementId,
+			styles
+		}
+	});
+}
+
+/**
+ * Update styles for multiple elements as a single atomic operation (for multi-selection)
+ */
+export async function updateElementsStylesGroup(
+	elements: Array<{
+		elementId: string;
+		styles: Partial<Element['styles']>;
+	}>
+): Promise<void> {
+	await dispatch({
+		id: uuidv4(),
+		type: 'GROUP_UPDATE_STYLES',
+		timestamp: Date.now(),
+		payload: {
+			elements
+		}
+	});
+}
+
+/**
+ * Update typography for multiple elements as a single atomic operation (for multi-selection)
+ */
+export async function updateElementsTypographyGroup(
+	elements: Array<{
+		elementId: string;
+		typography: Partial<Element['typography']>;
+	}>
 ): Promise<void> {
 	await dispatch({
 		id: uuidv4(),
-		type: 'UPDATE_STYLES',
+		type: 'GROUP_UPDATE_TYPOGRAPHY',
 		timestamp: Date.now(),
 		payload: {
-			elementId,
-			styles
+			elements
 		}
 	});
 }
 
 /**
- * Update styles for multiple elements as a single atomic operation (for multi-selection)
+ * Align the baselines of paragraphs and headings to the baseline grid (or stop aligning them)
+ * Other element types are skipped
  */
-export async function updateElementsStylesGroup(
+export async function alignBaselinesToGrid(elementIds: string[], enabled: boolean): Promise<void> {
+	const state = get(designState);
+	const baselineGrid = enabled ? get(baselineGridUnit) : 0;
+
+	const elements = elementIds
+		.filter((id) => state.elements[id] && BASELINE_ALIGNABLE_TYPES.includes(state.elements[id].type))
+		.map((elementId) => ({ elementId, typography: { baselineGrid } }));
+	if (elements.length === 0) return;
+
+	await updateElementsTypographyGroup(elements);
+}
+
+/**
+ * Update spacing for multiple elements as a single atomic operation (for multi-selection)
+ */
+export async function updateElementsSpacingGroup(
 	elements: Array<{
 		elementId: string;
-		styles: Partial<Element['styles']>;
+		spacing: Partial<Element['spacing']>;
 	}>
 ): Promise<void> {
 	await dispatch({
 		id: uuidv4(),
-		type: 'GROUP_UPDATE_STYLES',
+		type: 'GROUP_UPDATE_SPACING',
 		timestamp: Date.now(),
 		payload: {
 			elements
@@ -743,6 +2487,39 @@ export async function updateElementsStylesGroup(
 	});
 }
 
+/**
+ * Update auto layout for multiple elements as a single atomic operation (for multi-selection)
+ * Turning it off keeps children where the layout rendered them (see auto-layout-update.ts)
+ */
+export async function updateElementsAutoLayoutGroup(elements: AutoLayoutChange[]): Promise<void> {
+	const state = get(designState);
+	// Read rendered positions from the DOM while auto layout is still active
+	const drafts = buildAutoLayoutUpdate(state, elements, (element) =>
+		getRenderedChildPositions(element, state.elements)
+	);
+
+	if (drafts.length === 1) {
+		await dispatch({ ...drafts[0], id: uuidv4(), timestamp: Date.now() } as DesignEvent);
+		return;
+	}
+
+	beginTransaction();
+	try {
+		for (const draft of drafts) {
+			await dispatch({ ...draft, id: uuidv4(), timestamp: Date.now() } as DesignEvent);
+		}
+		await commitTransaction();
+	} catch (error) {
+		// Clean up transaction state on error
+		if (isInTransaction) {
+			isInTransaction = false;
+			transactionEvents = [];
+			currentTransactionId = null;
+		}
+		throw error;
+	}
+}
+
 export async function updateElementTypography(
 	elementId: string,
 	typography: Partial<Element['typography']>
@@ -773,105 +2550,63 @@ export async function updateElementSpacing(
 	});
 }
 
-export async function updateElementAutoLayout(
-	elementId: string,
-	autoLayout: Partial<AutoLayoutStyle>
-): Promise<void> {
-	const state = get(designState);
-	const element = state.elements[elementId];
-
-	// If we're disabling auto-layout, preserve children's visual positions
-	if (element && autoLayout.enabled === false && element.autoLayout?.enabled === true) {
-		// STEP 1: Read current visual positions from DOM while auto-layout is still active
-		const children = element.children || [];
-		const childPositions = new Map<string, { x: number; y: number }>();
-
-		// Get viewport for coordinate conversion
-		const currentViewport = get(viewport);
-
-		for (const childId of children) {
-			const child = state.elements[childId];
-			if (!child) continue;
-
-			// Skip children that already ignore auto-layout (they already have absolute positions)
-			if (child.autoLayout?.ignoreAutoLayout) continue;
-
-			// Get the child's DOM element to find its actual rendered position
-			const domElement = document.querySelector(`[data-element-id="${childId}"]`) as HTMLElement;
-			if (!domElement) {
-				console.warn(`Could not find DOM element for child ${childId}, using stored position`);
-				// Fallback to stored position if DOM element not found
-				childPositions.set(childId, { x: child.position.x, y: child.position.y });
-				continue;
-			}
-
-			// Get the bounding rect of the child and parent
-			const childRect = domElement.getBoundingClientRect();
-			const parentElement = document.querySelector(`[data-element-id="${elementId}"]`) as HTMLElement;
-			if (!parentElement) {
-				console.warn(`Could not find parent DOM element ${elementId}, using stored position`);
-				childPositions.set(childId, { x: child.position.x, y: child.position.y });
-				continue;
-			}
-
-			const parentRect = parentElement.getBoundingClientRect();
-
-			// Calculate child's position relative to parent's top-left corner in screen pixels
-			const screenRelativeX = childRect.left - parentRect.left;
-			const screenRelativeY = childRect.top - parentRect.top;
-
-			// Convert from screen pixels to canvas units (account for viewport scale)
-			const canvasRelativeX = screenRelativeX / currentViewport.scale;
-			const canvasRelativeY = screenRelativeY / currentViewport.scale;
+/**
+ * Read where an auto-layout container's children are rendered, relative to the container
+ * Used before turning auto layout off, so the children stay where they are
+ */
+function getRenderedChildPositions(element: Element, elements: Record<string, Element>): Map<string, { x: number; y: number }> {
+	const childPositions = new Map<string, { x: number; y: number }>();
+
+	// Get viewport for coordinate conversion
+	const currentViewport = get(viewport);
+
+	for (const childId of element.children || []) {
+		const child = elements[childId];
+		if (!child) continue;
+
+		// Skip children that already ignore auto-layout (they already have absolute positions)
+		if (child.autoLayout?.ignoreAutoLayout) continue;
+
+		// Get the child's DOM element to find its actual rendered position
+		const domElement = document.querySelector(`[data-element-id="${childId}"]`) as HTMLElement;
+		if (!domElement) {
+			console.warn(`Could not find DOM element for child ${childId}, using stored position`);
+			// Fallback to stored position if DOM element not found
+			childPositions.set(childId, { x: child.position.x, y: child.position.y });
+			continue;
+		}
 
-			// Store the position for this child
-			childPositions.set(childId, { x: canvasRelativeX, y: canvasRelativeY });
+		// Get the bounding rect of the child and parent
+		const childRect = domElement.getBoundingClientRect();
+		const parentElement = document.querySelector(`[data-element-id="${element.id}"]`) as HTMLElement;
+		if (!parentElement) {
+			console.warn(`Could not find parent DOM element ${element.id}, using stored position`);
+			childPositions.set(childId, { x: child.position.x, y: child.position.y });
+			continue;
 		}
 
-		// STEP 2: Begin transaction to batch all changes
-		beginTransaction();
+		const parentRect = parentElement.getBoundingClientRect();
 
-		try {
-			// First, update all children positions while auto-layout is still enabled
-			// This ensures positions are set before the layout mode changes
-			for (const [childId, position] of childPositions) {
-				await moveElement(childId, position);
-			}
+		// Calculate child's position relative to parent's top-left corner in screen pixels
+		const screenRelativeX = childRect.left - parentRect.left;
+		const screenRelativeY = childRect.top - parentRect.top;
 
-			// STEP 3: Now disable auto-layout
-			// Children now have their positions set, so they'll stay in place
-			await dispatch({
-				id: uuidv4(),
-				type: 'UPDATE_AUTO_LAYOUT',
-				timestamp: Date.now(),
-				payload: {
-					elementId,
-					autoLayout
-				}
-			});
+		// Convert from screen pixels to canvas units (account for viewport scale)
+		const canvasRelativeX = screenRelativeX / currentViewport.scale;
+		const canvasRelativeY = screenRelativeY / currentViewport.scale;
 
-			await commitTransaction();
-		} catch (error) {
-			// Clean up transaction state on error
-			if (isInTransaction) {
-				isInTransaction = false;
-				transactionEvents = [];
-				currentTransactionId = null;
-			}
-			throw error;
-		}
-	} else {
-		// For other auto-layout updates (enabling, changing direction, etc.), just dispatch normally
-		await dispatch({
-			id: uuidv4(),
-			type: 'UPDATE_AUTO_LAYOUT',
-			timestamp: Date.now(),
-			payload: {
-				elementId,
-				autoLayout
-			}
-		});
+		// Store the position for this child
+		childPositions.set(childId, { x: canvasRelativeX, y: canvasRelativeY });
 	}
+
+	return childPositions;
+}
+
+export async function updateElementAutoLayout(
+	elementId: string,
+	autoLayout: Partial<AutoLayoutStyle>
+): Promise<void> {
+	await updateElementsAutoLayoutGroup([{ elementId, autoLayout }]);
 }
 
 export async function toggleView(
@@ -1260,33 +2995,47 @@ export async function wrapSelectedElementsInDiv(): Promise<void> {
 	const wrapperWidth = maxX - minX;
 	const wrapperHeight = maxY - minY;
 
-	// Create the wrapper div with the common parent
-	const wrapperId = await createElement({
-		parentId: commonParent,
-		pageId,
-		elementType: 'div',
-		position: { x: minX, y: minY },
-		size: { width: wrapperWidth, height: wrapperHeight },
-		styles: {
-			display: 'block'
-		}
-	});
+	// Use transaction to batch all events into a single undo/redo step
+	beginTransaction();
+
+	try {
+		// Create the wrapper div with the common parent
+		const wrapperId = await createElement({
+			parentId: commonParent,
+			pageId,
+			elementType: 'div',
+			position: { x: minX, y: minY },
+			size: { width: wrapperWidth, height: wrapperHeight },
+			styles: {
+				display: 'block'
+			}
+		});
+
+		// Reparent each selected element to the wrapper and adjust its position
+		for (let i = 0; i < selected.length; i++) {
+			const el = selected[i];
 
-	// Reparent each selected element to the wrapper and adjust its position
-	for (let i = 0; i < selected.length; i++) {
-		const el = selected[i];
+			// Move element to be a child of the wrapper at index i
+			await reorderElement(el.id, wrapperId, i);
 
-		// Move element to be a child of the wrapper at index i
-		await reorderElement(el.id, wrapperId, i);
+			// Update position to be relative to wrapper
+			const relativeX = el.position.x - minX;
+			const relativeY = el.position.y - minY;
+			await moveElement(el.id, { x: relativeX, y: relativeY });
+		}
 
-		// Update position to be relative to wrapper
-		const relativeX = el.position.x - minX;
-		const relativeY = el.position.y - minY;
-		await moveElement(el.id, { x: relativeX, y: relativeY });
-	}
+		await commitTransaction();
 
-	// Select the new wrapper div
-	selectElement(wrapperId);
+		// Select the new wrapper div
+		selectElement(wrapperId);
+	} catch (error) {
+		if (isInTransaction) {
+			isInTransaction = false;
+			transactionEvents = [];
+			currentTransactionId = null;
+		}
+		throw error;
+	}
 }
 
 /**
@@ -2373,6 +4122,127 @@ export async function toggleLock(elementId: string, locked: boolean): Promise<vo
 	});
 }
 
+/**
+ * Turn baseline grid snapping on or off for a view
+ */
+export async function toggleBaselineSnap(viewId: string, enabled: boolean): Promise<void> {
+	await dispatch({
+		id: uuidv4(),
+		type: 'TOGGLE_BASELINE_SNAP',
+		timestamp: Date.now(),
+		payload: {
+			elementId: viewId,
+			enabled
+		}
+	});
+}
+
+/**
+ * Set (or remove, with null) the column grid of a view
+ */
+export async function setLayoutGrid(viewId: string, layoutGrid: LayoutGrid | null): Promise<void> {
+	await dispatch({
+		id: uuidv4(),
+		type: 'SET_LAYOUT_GRID',
+		timestamp: Date.now(),
+		payload: {
+			elementId: viewId,
+			layoutGrid
+		}
+	});
+}
+
+/**
+ * Add a ruler guide to a page, or to a view (position relative to the view)
+ */
+export async function createGuide(
+	pageId: string,
+	viewId: string | null,
+	axis: GuideAxis,
+	position: number
+): Promise<string> {
+	const guideId = uuidv4();
+
+	await dispatch({
+		id: uuidv4(),
+		type: 'CREATE_GUIDE',
+		timestamp: Date.now(),
+		payload: {
+			guideId,
+			pageId,
+			viewId,
+			axis,
+			position
+		}
+	});
+
+	return guideId;
+}
+
+/**
+ * Move a ruler guide (locked guides stay put)
+ */
+export async function moveGuide(guideId: string, position: number): Promise<void> {
+	const guide = get(designState).guides?.[guideId];
+	if (!guide || guide.locked) return;
+
+	await dispatch({
+		id: uuidv4(),
+		type: 'MOVE_GUIDE',
+		timestamp: Date.now(),
+		payload: {
+			guideId,
+			position
+		}
+	});
+}
+
+/**
+ * Delete a ruler guide (locked guides stay)
+ */
+export async function deleteGuide(guideId: string): Promise<void> {
+	const guide = get(designState).guides?.[guideId];
+	if (!guide || guide.locked) return;
+
+	await dispatch({
+		id: uuidv4(),
+		type: 'DELETE_GUIDE',
+		timestamp: Date.now(),
+		payload: {
+			guideId
+		}
+	});
+}
+
+/**
+ * Lock or unlock a ruler guide
+ */
+export async function toggleGuideLock(guideId: string, locked: boolean): Promise<void> {
+	await dispatch({
+		id: uuidv4(),
+		type: 'TOGGLE_GUIDE_LOCK',
+		timestamp: Date.now(),
+		payload: {
+			guideId,
+			locked
+		}
+	});
+}
+
+/**
+ * Toggle baseline snapping for the view of the current selection
+ */
+export async function toggleBaselineSnapForSelection(): Promise<void> {
+	const selected = get(selectedElements);
+	if (selected.length === 0) return;
+
+	const state = get(designState);
+	const view = selected[0].isView ? selected[0] : findBaselineView(state, selected[0]);
+	if (!view) return;
+
+	await toggleBaselineSnap(view.id, !view.baselineSnap);
+}
+
 /**
  * Rename element (set custom name)
  */
@@ -2610,6 +4480,22 @@ export function setupKeyboardShortcuts(): (() => void) | undefined {
 		return true;
 	};
 
+	const ARROW_DIRECTIONS: Record<string, NudgeDirection> = {
+		ArrowLeft: 'left',
+		ArrowRight: 'right',
+		ArrowUp: 'up',
+		ArrowDown: 'down'
+	};
+
+	// Transaction shared by the nudges of one arrow key burst (ends when the key is released)
+	let nudgeTransactionId: string | null = null;
+
+	const handleKeyUp = (e: KeyboardEvent) => {
+		if (ARROW_DIRECTIONS[e.key]) {
+			nudgeTransactionId = null;
+		}
+	};
+
 	const handleKeyDown = (e: KeyboardEvent) => {
 		// Don't trigger shortcuts if user is typing in an input/textarea/contenteditable
 		const target = e.target as HTMLElement;
@@ -2656,6 +4542,73 @@ export function setupKeyboardShortcuts(): (() => void) | undefined {
 			return;
 		}
 
+		// Shift+R - Show/hide the rulers
+		if (
+			e.shiftKey &&
+			!e.metaKey &&
+			!e.ctrlKey &&
+			!e.altKey &&
+			e.key.toLowerCase() === 'r' &&
+			!isTyping
+		) {
+			e.preventDefault();
+			snapSettings.update((settings) => ({ ...settings, rulers: !settings.rulers }));
+			return;
+		}
+
+		// Alt+A/H/D, Alt+W/V/S - Align left/center/right, top/middle/bottom
+		// Alt+Shift+H/V - Distribute horizontally/vertically
+		// (e.code: on Mac, Option changes e.key to a special character)
+		if (e.altKey && !e.metaKey && !e.ctrlKey && !isTyping) {
+			const alignments: Record<string, Alignment> = {
+				KeyA: 'left',
+				KeyH: 'center',
+				KeyD: 'right',
+				KeyW: 'top',
+				KeyV: 'middle',
+				KeyS: 'bottom'
+			};
+
+			if (e.shiftKey && (e.code === 'KeyH' || e.code === 'KeyV')) {
+				e.preventDefault();
+				distributeElements(e.code === 'KeyH' ? 'x' : 'y');
+				return;
+			}
+
+			if (!e.shiftKey && alignments[e.code]) {
+				e.preventDefault();
+				alignElements(alignments[e.code]);
+				return;
+			}
+		}
+
+		// Arrow keys - Nudge the selection (Shift: larger step); key repeat is one undo step
+		if (ARROW_DIRECTIONS[e.key] && !e.metaKey && !e.ctrlKey && !e.altKey && !isTyping) {
+			if (get(selectedElements).length === 0) return;
+			e.preventDefault();
+			if (!e.repeat || !nudgeTransactionId) {
+				nudgeTransactionId = uuidv4();
+			}
+			nudgeSelection(ARROW_DIRECTIONS[e.key], e.shiftKey, nudgeTransactionId).catch((error) => {
+				console.error('Failed to nudge selection:', error);
+			});
+			return;
+		}
+
+		// Cmd+' (Mac) or Ctrl+' (Windows/Linux) - Show/hide the baseline grid
+		if ((e.metaKey || e.ctrlKey) && e.code === 'Quote' && !e.shiftKey && !isTyping) {
+			e.preventDefault();
+			snapSettings.update((settings) => ({ ...settings, baselineGrid: !settings.baselineGrid }));
+			return;
+		}
+
+		// Cmd+Shift+' (Mac) or Ctrl+Shift+' (Windows/Linux) - Toggle snap to baseline for the view
+		if ((e.metaKey || e.ctrlKey) && e.code === 'Quote' && e.shiftKey && !isTyping) {
+			e.preventDefault();
+			toggleBaselineSnapForSelection();
+			return;
+		}
+
 		// Cmd+G (Mac) or Ctrl+G (Windows/Linux) - Group elements
 		if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'g' && !e.shiftKey && !isTyping) {
 			e.preventDefault();
@@ -2816,10 +4769,12 @@ export function setupKeyboardShortcuts(): (() => void) | undefined {
 	};
 
 	window.addEventListener('keydown', handleKeyDown);
+	window.addEventListener('keyup', handleKeyUp);
 
 	// Cleanup function
 	return () => {
 		window.removeEventListener('keydown', handleKeyDown);
+		window.removeEventListener('keyup', handleKeyUp);
 	};
 }
 
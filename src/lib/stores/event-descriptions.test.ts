@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { event } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { describeEvent, describeTransaction } from './event-descriptions';
+
+const state = reduceEvents([
+	event('CREATE_PAGE', { pageId: 'page-1', name: 'Home' }),
+	event('CREATE_ELEMENT', {
+		elementId: 'element-1',
+		parentId: null,
+		pageId: 'page-1',
+		elementType: 'div',
+		position: { x: 0, y: 0 },
+		size: { width: 100, height: 100 }
+	}),
+	event('RENAME_ELEMENT', { elementId: 'element-1', name: 'Hero' })
+]);
+
+describe('event descriptions', () => {
+	it('should name elements and changed properties', () => {
+		const styles = event('UPDATE_STYLES', {
+			elementId: 'element-1',
+			styles: { backgroundColor: 'red' }
+		});
+
+		expect(describeEvent(styles, state.elements)).toBe('Change background color of "Hero"');
+		expect(describeEvent(event('DELETE_ELEMENT', { elementId: 'gone' }), state.elements)).toBe(
+			'Delete element'
+		);
+	});
+
+	it('should summarise a transaction as one step', () => {
+		const moves = [
+			event('MOVE_ELEMENT', { elementId: 'element-1', position: { x: 10, y: 10 } }),
+			event('MOVE_ELEMENT', { elementId: 'element-1', position: { x: 20, y: 20 } })
+		];
+		const mixed = [...moves, event('TOGGLE_LOCK', { elementId: 'element-1', locked: true })];
+
+		expect(describeTransaction(moves, state.elements)).toBe('Move "Hero"');
+		expect(describeTransaction(mixed, state.elements)).toBe('Move "Hero" and 1 more change');
+	});
+});
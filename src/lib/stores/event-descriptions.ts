@@ -0,0 +1,139 @@
+/**
+ * Event Descriptions - Human-readable summaries of design events for the history panel
+ */
+
+import type { DesignEvent, Element } from '$lib/types/events';
+
+/**
+ * Name of an element as shown in the layers panel, or its type if it has no name
+ */
+function elementLabel(elementId: string, elements: Record<string, Element>): string {
+	const element = elements[elementId];
+	if (!element) return 'element';
+	if (element.name) return `"${element.name}"`;
+	if (element.isView && element.viewName) return `"${element.viewName}"`;
+	return element.type;
+}
+
+/**
+ * "backgroundColor" -> "background color", joined for up to three properties
+ */
+function propertyList(keys: string[]): string {
+	const names = keys.map((key) => key.replace(/[A-Z]/g, (c) => ` ${c.toLowerCase()}`));
+	if (names.length === 0 || names.length > 3) return 'styles';
+	return names.join(', ');
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Describe one event
+ * `elements` is used to name elements - pass the current ones; deleted elements get a generic name
+ */
+export function describeEvent(event: DesignEvent, elements: Record<string, Element>): string {
+	switch (event.type) {
+		case 'CREATE_ELEMENT':
+			return `Add ${elements[event.payload.elementId] ? elementLabel(event.payload.elementId, elements) : event.payload.elementType}`;
+		case 'UPDATE_ELEMENT':
+			return 'content' in event.payload.changes
+				? `Edit text of ${elementLabel(event.payload.elementId, elements)}`
+				: `Edit ${elementLabel(event.payload.elementId, elements)}`;
+		case 'DELETE_ELEMENT':
+			return `Delete ${elementLabel(event.payload.elementId, elements)}`;
+		case 'GROUP_DELETE_ELEMENTS':
+			return `Delete ${plural(event.payload.elementIds.length, 'element')}`;
+		case 'MOVE_ELEMENT':
+			return `Move ${elementLabel(event.payload.elementId, elements)}`;
+		case 'RESIZE_ELEMENT':
+			return `Resize ${elementLabel(event.payload.elementId, elements)}`;
+		case 'ROTATE_ELEMENT':
+			return `Rotate ${elementLabel(event.payload.elementId, elements)}`;
+		case 'REORDER_ELEMENT':
+		case 'SHIFT_ELEMENT_LAYER':
+			return `Reorder ${elementLabel(event.payload.elementId, elements)}`;
+		case 'TOGGLE_VIEW':
+			return event.payload.isView
+				? `Convert ${elementLabel(event.payload.elementId, elements)} to view`
+				: `Convert ${elementLabel(event.payload.elementId, elements)} to div`;
+		case 'TOGGLE_VISIBILITY':
+			return `${event.payload.visible ? 'Show' : 'Hide'} ${elementLabel(event.payload.elementId, elements)}`;
+		case 'TOGGLE_LOCK':
+			return `${event.payload.locked ? 'Lock' : 'Unlock'} ${elementLabel(event.payload.elementId, elements)}`;
+		case 'TOGGLE_BASELINE_SNAP':
+			return `${event.payload.enabled ? 'Enable' : 'Disable'} baseline snapping in ${elementLabel(event.payload.elementId, elements)}`;
+		case 'SET_LAYOUT_GRID':
+			return event.payload.layoutGrid
+				? `Set ${plural(event.payload.layoutGrid.columns, 'column')} layout grid on ${elementLabel(event.payload.elementId, elements)}`
+				: `Remove layout grid from ${elementLabel(event.payload.elementId, elements)}`;
+		case 'RENAME_ELEMENT':
+			return `Rename to "${event.payload.name}"`;
+		case 'GROUP_MOVE_ELEMENTS':
+			return `Move ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_RESIZE_ELEMENTS':
+			return `Resize ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_ROTATE_ELEMENTS':
+			return `Rotate ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_UPDATE_STYLES':
+			return `Change styles of ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_UPDATE_TYPOGRAPHY':
+			return `Change typography of ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_UPDATE_SPACING':
+			return `Change spacing of ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_UPDATE_AUTO_LAYOUT':
+			return `Change auto layout of ${plural(event.payload.elements.length, 'element')}`;
+		case 'GROUP_ELEMENTS':
+			return `Group ${plural(event.payload.elementIds.length, 'element')}`;
+		case 'UNGROUP_ELEMENTS':
+			return 'Ungroup elements';
+		case 'UPDATE_STYLES': {
+			const keys = [...Object.keys(event.payload.styles), ...(event.payload.unset ?? [])];
+			return `Change ${propertyList(keys)} of ${elementLabel(event.payload.elementId, elements)}`;
+		}
+		case 'UPDATE_TYPOGRAPHY':
+			return `Change typography of ${elementLabel(event.payload.elementId, elements)}`;
+		case 'UPDATE_SPACING':
+			return `Change spacing of ${elementLabel(event.payload.elementId, elements)}`;
+		case 'UPDATE_AUTO_LAYOUT':
+			return `Change auto layout of ${elementLabel(event.payload.elementId, elements)}`;
+		case 'CREATE_PAGE':
+			return `Add page "${event.payload.name}"`;
+		case 'UPDATE_PAGE':
+			return event.payload.changes.name ? `Rename page to "${event.payload.changes.name}"` : 'Edit page';
+		case 'DELETE_PAGE':
+			return 'Delete page';
+		case 'REORDER_PAGES':
+			return 'Reorder pages';
+		case 'CREATE_COMPONENT':
+			return `Create component "${event.payload.name}"`;
+		case 'UPDATE_COMPONENT':
+			return 'Edit component';
+		case 'DELETE_COMPONENT':
+			return 'Delete component';
+		case 'INSTANCE_COMPONENT':
+			return 'Insert component';
+		case 'CREATE_GUIDE':
+			return `Add ${event.payload.axis === 'x' ? 'vertical' : 'horizontal'} guide`;
+		case 'MOVE_GUIDE':
+			return 'Move guide';
+		case 'DELETE_GUIDE':
+			return 'Delete guide';
+		case 'TOGGLE_GUIDE_LOCK':
+			return `${event.payload.locked ? 'Lock' : 'Unlock'} guide`;
+		default:
+			return 'Change design';
+	}
+}
+
+/**
+ * Describe a transaction (one undo step)
+ * Identical descriptions are merged; different ones are summarised as "X and N more changes"
+ */
+export function describeTransaction(events: DesignEvent[], elements: Record<string, Element>): string {
+	const descriptions = [...new Set(events.map((event) => describeEvent(event, elements)))];
+
+	if (descriptions.length === 0) return 'No changes';
+	if (descriptions.length === 1) return descriptions[0];
+	return `${descriptions[0]} and ${plural(descriptions.length - 1, 'more change')}`;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignEvent } from '$lib/types/events';
+import { createElement, event, fromDrafts } from '$tests/events';
+import { reduceEvents } from './event-reducer';
+import { buildCompensation } from './compensating-events';
+
+const setup: DesignEvent[] = [
+	createElement('element-1'),
+	createElement('element-2'),
+	event('UPDATE_TYPOGRAPHY', { elementId: 'element-1', typography: { fontSize: '12px', fontWeight: '400' } }),
+	event('UPDATE_SPACING', { elementId: 'element-2', spacing: { marginTop: '4px' } })
+];
+
+describe('Group style events', () => {
+	it('should update typography on every element in one event', () => {
+		const state = reduceEvents([
+			...setup,
+			event('GROUP_UPDATE_TYPOGRAPHY', {
+				elements: [
+					{ elementId: 'element-1', typography: { fontSize: '16px' } },
+					{ elementId: 'element-2', typography: { fontSize: '20px' } }
+				]
+			})
+		]);
+
+		expect(state.elements['element-1'].typography).toMatchObject({ fontSize: '16px', fontWeight: '400' });
+		expect(state.elements['element-2'].typography).toMatchObject({ fontSize: '20px' });
+	});
+
+	it('should update spacing on every element in one event', () => {
+		const state = reduceEvents([
+			...setup,
+			event('GROUP_UPDATE_SPACING', {
+				elements: [
+					{ elementId: 'element-1', spacing: { paddingTop: '8px' } },
+					{ elementId: 'element-2', spacing: { paddingTop: '12px' } }
+				]
+			})
+		]);
+
+		expect(state.elements['element-1'].spacing).toMatchObject({ paddingTop: '8px' });
+		expect(state.elements['element-2'].spacing).toMatchObject({ marginTop: '4px', paddingTop: '12px' });
+	});
+
+	it('should update auto layout on every element in one event', () => {
+		const state = reduceEvents([
+			...setup,
+			event('GROUP_UPDATE_AUTO_LAYOUT', {
+				elements: [
+					{ elementId: 'element-1', autoLayout: { enabled: true, direction: 'row' } },
+					{ elementId: 'element-2', autoLayout: { enabled: true, direction: 'column' } }
+				]
+			})
+		]);
+
+		expect(state.elements['element-1'].autoLayout).toMatchObject({ enabled: true, direction: 'row' });
+		expect(state.elements['element-2'].autoLayout).toMatchObject({ enabled: true, direction: 'column' });
+	});
+
+	it('should skip unknown elements and still update the rest', () => {
+		const groupEvents: DesignEvent[] = [
+			event('GROUP_UPDATE_TYPOGRAPHY', {
+				elements: [
+					{ elementId: 'missing', typography: { fontSize: '16px' } },
+					{ elementId: 'element-1', typography: { fontSize: '16px' } }
+				]
+			}),
+			event('GROUP_UPDATE_SPACING', {
+				elements: [
+					{ elementId: 'missing', spacing: { paddingTop: '8px' } },
+					{ elementId: 'element-2', spacing: { paddingTop: '8px' } }
+				]
+			}),
+			event('GROUP_UPDATE_AUTO_LAYOUT', {
+				elements: [
+					{ elementId: 'missing', autoLayout: { enabled: true } },
+					{ elementId: 'element-1', autoLayout: { enabled: true } }
+				]
+			})
+		];
+		const state = reduceEvents([...setup, ...groupEvents]);
+
+		expect(state.elements['missing']).toBeUndefined();
+		expect(state.elements['element-1'].typography).toMatchObject({ fontSize: '16px' });
+		expect(state.elements['element-2'].spacing).toMatchObject({ paddingTop: '8px' });
+		expect(state.elements['element-1'].autoLayout).toMatchObject({ enabled: true });
+	});
+
+	it('should undo a group update on every element in one step', () => {
+		const before = reduceEvents(setup);
+		const groupEvents: DesignEvent[] = [
+			event('GROUP_UPDATE_TYPOGRAPHY', {
+				elements: [
+					{ elementId: 'element-1', typography: { fontSize: '16px' } },
+					{ elementId: 'element-2', typography: { fontSize: '16px' } }
+				]
+			}),
+			event('GROUP_UPDATE_SPACING', {
+				elements: [
+					{ elementId: 'element-1', spacing: { paddingTop: '8px' } },
+					{ elementId: 'element-2', spacing: { paddingTop: '8px' } }
+				]
+			}),
+			event('GROUP_UPDATE_AUTO_LAYOUT', {
+				elements: [
+					{ elementId: 'element-1', autoLayout: { enabled: true } },
+					{ elementId: 'element-2', autoLayout: { enabled: true } }
+				]
+			})
+		];
+
+		for (const groupEvent of groupEvents) {
+			const after = reduceEvents([groupEvent], before);
+			expect(after.elements).not.toEqual(before.elements);
+
+			// Co-editing undo compensates the whole event at once
+			const { events, conflicts } = buildCompensation(before, after, after);
+			const undone = reduceEvents(fromDrafts(events, 'undo'), after);
+
+			expect(conflicts).toEqual([]);
+			expect(undone.elements).toEqual(before.elements);
+		}
+	});
+});
@@ -26,11 +26,16 @@ import type {
 	ToggleViewEvent,
 	ToggleVisibilityEvent,
 	ToggleLockEvent,
+	ToggleBaselineSnapEvent,
+	SetLayoutGridEvent,
 	RenameElementEvent,
 	GroupMoveElementsEvent,
 	GroupResizeElementsEvent,
 	GroupRotateElementsEvent,
 	GroupUpdateStylesEvent,
+	GroupUpdateTypographyEvent,
+	GroupUpdateSpacingEvent,
+	GroupUpdateAutoLayoutEvent,
 	GroupElementsEvent,
 	UngroupElementsEvent,
 	UpdateStylesEvent,
@@ -45,7 +50,11 @@ import type {
 	CreateComponentEvent,
 	UpdateComponentEvent,
 	DeleteComponentEvent,
-	InstanceComponentEvent
+	InstanceComponentEvent,
+	CreateGuideEvent,
+	MoveGuideEvent,
+	DeleteGuideEvent,
+	ToggleGuideLockEvent
 } from '$lib/types/events';
 
 /**
@@ -57,6 +66,7 @@ export function getInitialState(): DesignState {
 		elements: {},
 		groups: {},
 		components: {},
+		guides: {},
 		pageOrder: [],
 		currentPageId: null,
 		selectedElementIds: []
@@ -140,6 +150,10 @@ export function reduceEvent(state: DesignState, event: DesignEvent): DesignState
 			return handleToggleVisibility(state, event);
 		case 'TOGGLE_LOCK':
 			return handleToggleLock(state, event);
+		case 'TOGGLE_BASELINE_SNAP':
+			return handleToggleBaselineSnap(state, event);
+		case 'SET_LAYOUT_GRID':
+			return handleSetLayoutGrid(state, event);
 		case 'RENAME_ELEMENT':
 			return handleRenameElement(state, event);
 		case 'GROUP_MOVE_ELEMENTS':
@@ -150,6 +164,12 @@ export function reduceEvent(state: DesignState, event: DesignEvent): DesignState
 			return handleGroupRotateElements(state, event);
 		case 'GROUP_UPDATE_STYLES':
 			return handleGroupUpdateStyles(state, event);
+		case 'GROUP_UPDATE_TYPOGRAPHY':
+			return handleGroupUpdateTypography(state, event);
+		case 'GROUP_UPDATE_SPACING':
+			return handleGroupUpdateSpacing(state, event);
+		case 'GROUP_UPDATE_AUTO_LAYOUT':
+			return handleGroupUpdateAutoLayout(state, event);
 
 		// Group operations
 		case 'GROUP_ELEMENTS':
@@ -187,6 +207,16 @@ export function reduceEvent(state: DesignState, event: DesignEvent): DesignState
 		case 'INSTANCE_COMPONENT':
 			return handleInstanceComponent(state, event);
 
+		// Guide events
+		case 'CREATE_GUIDE':
+			return handleCreateGuide(state, event);
+		case 'MOVE_GUIDE':
+			return handleMoveGuide(state, event);
+		case 'DELETE_GUIDE':
+			return handleDeleteGuide(state, event);
+		case 'TOGGLE_GUIDE_LOCK':
+			return handleToggleGuideLock(state, event);
+
 		default:
 			return state;
 	}
@@ -246,8 +276,19 @@ function handleCreateElement(state: DesignState, event: CreateElementEvent): Des
 	};
 }
 
+/**
+ * Merge changes into an object, then remove the `unset` keys
+ */
+function mergeProperties<T extends object>(current: T, changes: Partial<T>, unset: Array<keyof T> = []): T {
+	const merged = { ...current, ...changes };
+	for (const key of unset) {
+		delete merged[key];
+	}
+	return merged;
+}
+
 function handleUpdateElement(state: DesignState, event: UpdateElementEvent): DesignState {
-	const { elementId, changes } = event.payload;
+	const { elementId, changes, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -256,10 +297,7 @@ function handleUpdateElement(state: DesignState, event: UpdateElementEvent): Des
 		...state,
 		elements: {
 			...state.elements,
-			[elementId]: {
-				...element,
-				...changes
-			}
+			[elementId]: mergeProperties(element, changes, unset)
 		}
 	};
 }
@@ -701,6 +739,72 @@ function handleGroupUpdateStyles(state: DesignState, event: GroupUpdateStylesEve
 	};
 }
 
+function handleGroupUpdateTypography(state: DesignState, event: GroupUpdateTypographyEvent): DesignState {
+	const newElements = { ...state.elements };
+
+	for (const { elementId, typography } of event.payload.elements) {
+		const element = newElements[elementId];
+		if (element) {
+			newElements[elementId] = {
+				...element,
+				typography: {
+					...element.typography,
+					...typography
+				}
+			};
+		}
+	}
+
+	return {
+		...state,
+		elements: newElements
+	};
+}
+
+function handleGroupUpdateSpacing(state: DesignState, event: GroupUpdateSpacingEvent): DesignState {
+	const newElements = { ...state.elements };
+
+	for (const { elementId, spacing } of event.payload.elements) {
+		const element = newElements[elementId];
+		if (element) {
+			newElements[elementId] = {
+				...element,
+				spacing: {
+					...element.spacing,
+					...spacing
+				}
+			};
+		}
+	}
+
+	return {
+		...state,
+		elements: newElements
+	};
+}
+
+function handleGroupUpdateAutoLayout(state: DesignState, event: GroupUpdateAutoLayoutEvent): DesignState {
+	const newElements = { ...state.elements };
+
+	for (const { elementId, autoLayout } of event.payload.elements) {
+		const element = newElements[elementId];
+		if (element) {
+			newElements[elementId] = {
+				...element,
+				autoLayout: {
+					...element.autoLayout,
+					...autoLayout
+				}
+			};
+		}
+	}
+
+	return {
+		...state,
+		elements: newElements
+	};
+}
+
 // ============================================================================
 // Group Handlers
 // ============================================================================
@@ -847,7 +951,7 @@ function handleUngroupElements(state: DesignState, event: UngroupElementsEvent):
 // ============================================================================
 
 function handleUpdateStyles(state: DesignState, event: UpdateStylesEvent): DesignState {
-	const { elementId, styles } = event.payload;
+	const { elementId, styles, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -858,17 +962,14 @@ function handleUpdateStyles(state: DesignState, event: UpdateStylesEvent): Desig
 			...state.elements,
 			[elementId]: {
 				...element,
-				styles: {
-					...element.styles,
-					...styles
-				}
+				styles: mergeProperties(element.styles, styles, unset)
 			}
 		}
 	};
 }
 
 function handleUpdateTypography(state: DesignState, event: UpdateTypographyEvent): DesignState {
-	const { elementId, typography } = event.payload;
+	const { elementId, typography, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -879,17 +980,14 @@ function handleUpdateTypography(state: DesignState, event: UpdateTypographyEvent
 			...state.elements,
 			[elementId]: {
 				...element,
-				typography: {
-					...element.typography,
-					...typography
-				}
+				typography: mergeProperties(element.typography, typography, unset)
 			}
 		}
 	};
 }
 
 function handleUpdateSpacing(state: DesignState, event: UpdateSpacingEvent): DesignState {
-	const { elementId, spacing } = event.payload;
+	const { elementId, spacing, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -900,17 +998,14 @@ function handleUpdateSpacing(state: DesignState, event: UpdateSpacingEvent): Des
 			...state.elements,
 			[elementId]: {
 				...element,
-				spacing: {
-					...element.spacing,
-					...spacing
-				}
+				spacing: mergeProperties(element.spacing, spacing, unset)
 			}
 		}
 	};
 }
 
 function handleUpdateAutoLayout(state: DesignState, event: UpdateAutoLayoutEvent): DesignState {
-	const { elementId, autoLayout } = event.payload;
+	const { elementId, autoLayout, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -921,17 +1016,14 @@ function handleUpdateAutoLayout(state: DesignState, event: UpdateAutoLayoutEvent
 			...state.elements,
 			[elementId]: {
 				...element,
-				autoLayout: {
-					...element.autoLayout,
-					...autoLayout
-				}
+				autoLayout: mergeProperties(element.autoLayout ?? {}, autoLayout, unset)
 			}
 		}
 	};
 }
 
 function handleToggleView(state: DesignState, event: ToggleViewEvent): DesignState {
-	const { elementId, isView, viewName, breakpointWidth } = event.payload;
+	const { elementId, isView, viewName, breakpointWidth, unset } = event.payload;
 	const element = state.elements[elementId];
 
 	if (!element) return state;
@@ -940,12 +1032,15 @@ function handleToggleView(state: DesignState, event: ToggleViewEvent): DesignSta
 		...state,
 		elements: {
 			...state.elements,
-			[elementId]: {
-				...element,
-				isView,
-				viewName: viewName || element.viewName,
-				breakpointWidth: breakpointWidth || element.breakpointWidth || 1440
-			}
+			[elementId]: mergeProperties(
+				element,
+				{
+					isView,
+					viewName: viewName || element.viewName,
+					breakpointWidth: breakpointWidth || element.breakpointWidth || 1440
+				},
+				unset
+			)
 		}
 	};
 }
@@ -986,6 +1081,42 @@ function handleToggleLock(state: DesignState, event: ToggleLockEvent): DesignSta
 	};
 }
 
+function handleToggleBaselineSnap(state: DesignState, event: ToggleBaselineSnapEvent): DesignState {
+	const { elementId, enabled } = event.payload;
+	const element = state.elements[elementId];
+
+	if (!element) return state;
+
+	return {
+		...state,
+		elements: {
+			...state.elements,
+			[elementId]: {
+				...element,
+				baselineSnap: enabled
+			}
+		}
+	};
+}
+
+function handleSetLayoutGrid(state: DesignState, event: SetLayoutGridEvent): DesignState {
+	const { elementId, layoutGrid } = event.payload;
+	const element = state.elements[elementId];
+
+	if (!element) return state;
+
+	return {
+		...state,
+		elements: {
+			...state.elements,
+			[elementId]: {
+				...element,
+				layoutGrid
+			}
+		}
+	};
+}
+
 function handleRenameElement(state: DesignState, event: RenameElementEvent): DesignState {
 	const { elementId, name } = event.payload;
 	const element = state.elements[elementId];
@@ -1208,3 +1339,70 @@ function handleInstanceComponent(
 		pages: newPages
 	};
 }
+
+// ============================================================================
+// Guide Handlers
+// ============================================================================
+
+// Snapshots from before guides existed have no guides map
+function getGuides(state: DesignState): DesignState['guides'] {
+	return state.guides ?? {};
+}
+
+function handleCreateGuide(state: DesignState, event: CreateGuideEvent): DesignState {
+	const { guideId, pageId, viewId, axis, position, locked } = event.payload;
+
+	if (!state.pages[pageId]) return state;
+
+	return {
+		...state,
+		guides: {
+			...getGuides(state),
+			[guideId]: { id: guideId, pageId, viewId, axis, position, locked: locked ?? false }
+		}
+	};
+}
+
+function handleMoveGuide(state: DesignState, event: MoveGuideEvent): DesignState {
+	const { guideId, position } = event.payload;
+	const guide = getGuides(state)[guideId];
+
+	if (!guide) return state;
+
+	return {
+		...state,
+		guides: {
+			...getGuides(state),
+			[guideId]: { ...guide, position }
+		}
+	};
+}
+
+function handleDeleteGuide(state: DesignState, event: DeleteGuideEvent): DesignState {
+	const { guideId } = event.payload;
+
+	if (!getGuides(state)[guideId]) return state;
+
+	const newGuides = { ...getGuides(state) };
+	delete newGuides[guideId];
+
+	return {
+		...state,
+		guides: newGuides
+	};
+}
+
+function handleToggleGuideLock(state: DesignState, event: ToggleGuideLockEvent): DesignState {
+	const { guideId, locked } = event.payload;
+	const guide = getGuides(state)[guideId];
+
+	if (!guide) return state;
+
+	return {
+		...state,
+		guides: {
+			...getGuides(state),
+			[guideId]: { ...guide, locked }
+		}
+	};
+}
@@ -3,39 +3,84 @@
  *
  * This is the core of the event sourcing system. All design changes
  * are stored as append-only events in IndexedDB for local-first persistence.
+ *
+ * Each project has its own database (events + snapshots). A separate registry
+ * database lists the projects. The default project keeps the original database
+ * name, so designs created before projects existed open as the default project.
  */
 
-import type { DesignEvent, EventStoreSnapshot } from '$lib/types/events';
+import type {
+	DesignBranch,
+	DesignEvent,
+	DesignProject,
+	DesignState,
+	EventStoreSnapshot,
+	NamedCheckpoint
+} from '$lib/types/events';
+import { reduceEvents, getInitialState } from './event-reducer';
+import { upcastEvents } from './event-upcasters';
+import type { StoredEvent } from './event-upcasters';
+import { validateEventLog, formatValidationIssues } from './event-validation';
 
 const DB_NAME = 'linebasis';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 const EVENTS_STORE = 'events';
 const SNAPSHOTS_STORE = 'snapshots';
+const OUTBOX_STORE = 'outbox';
+const NAMED_CHECKPOINTS_STORE = 'namedCheckpoints';
+const BRANCHES_STORE = 'branches';
+
+const PROJECTS_DB_NAME = 'linebasis-projects';
+const PROJECTS_DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+
+export const DEFAULT_PROJECT_ID = 'default';
+const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+// Compacted history lives in the snapshots store under version 0: it is the state
+// the remaining event log starts from, so it is never pruned like periodic snapshots
+const BASELINE_VERSION = 0;
 
 // ============================================================================
 // IndexedDB Setup
 // ============================================================================
 
 let dbInstance: IDBDatabase | null = null;
+let currentProjectId = DEFAULT_PROJECT_ID;
+let projectsDbInstance: IDBDatabase | null = null;
+
+/**
+ * Get the IndexedDB database name holding a project's event log
+ */
+function getProjectDBName(projectId: string): string {
+	return projectId === DEFAULT_PROJECT_ID ? DB_NAME : `${DB_NAME}-project-${projectId}`;
+}
 
 /**
- * Initialize IndexedDB database
+ * Initialize IndexedDB database for the current project
  */
 export async function initDB(): Promise<IDBDatabase> {
 	if (dbInstance) {
 		return dbInstance;
 	}
 
+	dbInstance = await openProjectDB(currentProjectId);
+	return dbInstance;
+}
+
+/**
+ * Open (and create if needed) the database of a project
+ */
+function openProjectDB(projectId: string): Promise<IDBDatabase> {
 	return new Promise((resolve, reject) => {
-		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		const request = indexedDB.open(getProjectDBName(projectId), DB_VERSION);
 
 		request.onerror = () => {
 			reject(new Error('Failed to open IndexedDB'));
 		};
 
 		request.onsuccess = () => {
-			dbInstance = request.result;
-			resolve(dbInstance);
+			resolve(request.result);
 		};
 
 		request.onupgradeneeded = (event) => {
@@ -52,6 +97,21 @@ export async function initDB(): Promise<IDBDatabase> {
 			if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
 				db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'version' });
 			}
+
+			// Outbox store - changes waiting to be pushed to the server (added in version 2)
+			if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+				db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+			}
+
+			// Named checkpoints store - user-named points in the history (added in version 3)
+			if (!db.objectStoreNames.contains(NAMED_CHECKPOINTS_STORE)) {
+				db.createObjectStore(NAMED_CHECKPOINTS_STORE, { keyPath: 'id' });
+			}
+
+			// Branches store - logs of the branches that aren't checked out (added in version 4)
+			if (!db.objectStoreNames.contains(BRANCHES_STORE)) {
+				db.createObjectStore(BRANCHES_STORE, { keyPath: 'id' });
+			}
 		};
 	});
 }
@@ -66,6 +126,238 @@ export function closeDB(): void {
 	}
 }
 
+/**
+ * Get the ID of the project whose event log is in use
+ */
+export function getCurrentProjectId(): string {
+	return currentProjectId;
+}
+
+/**
+ * Switch the event log to another project
+ * Pending transactions on the old database still complete before it closes
+ */
+export function setCurrentProject(projectId: string): void {
+	if (projectId === currentProjectId) return;
+	closeDB();
+	currentProjectId = projectId;
+}
+
+// ============================================================================
+// Project Registry
+// ============================================================================
+
+/**
+ * Open the project registry database
+ */
+async function initProjectsDB(): Promise<IDBDatabase> {
+	if (projectsDbInstance) {
+		return projectsDbInstance;
+	}
+
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(PROJECTS_DB_NAME, PROJECTS_DB_VERSION);
+
+		request.onerror = () => {
+			reject(new Error('Failed to open project registry'));
+		};
+
+		request.onsuccess = () => {
+			projectsDbInstance = request.result;
+			resolve(projectsDbInstance);
+		};
+
+		request.onupgradeneeded = (event) => {
+			const db = (event.target as IDBOpenDBRequest).result;
+
+			if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+				const projectStore = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+				projectStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+			}
+		};
+	});
+}
+
+// Helper: Register the default project (it always exists, even before it is first saved)
+async function registerDefaultProject(): Promise<DesignProject> {
+	const now = Date.now();
+	const defaultProject: DesignProject = {
+		id: DEFAULT_PROJECT_ID,
+		name: DEFAULT_PROJECT_NAME,
+		createdAt: now,
+		updatedAt: now
+	};
+	await saveProject(defaultProject);
+	return defaultProject;
+}
+
+/**
+ * List all projects, most recently updated first
+ * The default project is registered whenever the registry is empty, so designs created
+ * before projects existed show up, and there is always a project to open
+ */
+export async function getProjects(): Promise<DesignProject[]> {
+	const db = await initProjectsDB();
+
+	const projects = await new Promise<DesignProject[]>((resolve, reject) => {
+		const transaction = db.transaction([PROJECTS_STORE], 'readonly');
+		const store = transaction.objectStore(PROJECTS_STORE);
+		const request = store.getAll();
+
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(new Error('Failed to list projects'));
+	});
+
+	if (projects.length === 0) {
+		projects.push(await registerDefaultProject());
+	}
+
+	return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Get a single project by ID
+ * The default project is registered on first access, so it can be opened on a fresh browser
+ */
+export async function getProject(projectId: string): Promise<DesignProject | null> {
+	const db = await initProjectsDB();
+
+	const project = await new Promise<DesignProject | null>((resolve, reject) => {
+		const transaction = db.transaction([PROJECTS_STORE], 'readonly');
+		const store = transaction.objectStore(PROJECTS_STORE);
+		const request = store.get(projectId);
+
+		request.onsuccess = () => resolve(request.result || null);
+		request.onerror = () => reject(new Error('Failed to get project'));
+	});
+
+	if (!project && projectId === DEFAULT_PROJECT_ID) {
+		return registerDefaultProject();
+	}
+	return project;
+}
+
+/**
+ * Create or update a project record
+ */
+export async function saveProject(project: DesignProject): Promise<void> {
+	const db = await initProjectsDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([PROJECTS_STORE], 'readwrite');
+		const store = transaction.objectStore(PROJECTS_STORE);
+		const request = store.put(project);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to save project'));
+	});
+}
+
+/**
+ * Mark a project as just edited
+ */
+export async function touchProject(projectId: string): Promise<void> {
+	const project = await getProject(projectId);
+	if (project) {
+		await saveProject({ ...project, updatedAt: Date.now() });
+	}
+}
+
+/**
+ * Copy a project's events, snapshots, named checkpoints and branches into another project's (empty) database
+ */
+export async function copyProjectData(fromProjectId: string, toProjectId: string): Promise<void> {
+	const source = await openProjectDB(fromProjectId);
+
+	try {
+		const { events, snapshots, checkpoints, branches } = await new Promise<{
+			events: DesignEvent[];
+			snapshots: EventStoreSnapshot[];
+			checkpoints: NamedCheckpoint[];
+			branches: DesignBranch[];
+		}>((resolve, reject) => {
+			const transaction = source.transaction(
+				[EVENTS_STORE, SNAPSHOTS_STORE, NAMED_CHECKPOINTS_STORE, BRANCHES_STORE],
+				'readonly'
+			);
+			const eventsRequest = transaction.objectStore(EVENTS_STORE).getAll();
+			const snapshotsRequest = transaction.objectStore(SNAPSHOTS_STORE).getAll();
+			const checkpointsRequest = transaction.objectStore(NAMED_CHECKPOINTS_STORE).getAll();
+			const branchesRequest = transaction.objectStore(BRANCHES_STORE).getAll();
+
+			transaction.oncomplete = () =>
+				resolve({
+					events: eventsRequest.result,
+					snapshots: snapshotsRequest.result,
+					checkpoints: checkpointsRequest.result,
+					branches: branchesRequest.result
+				});
+			transaction.onerror = () => reject(new Error('Failed to read project'));
+		});
+
+		const target = await openProjectDB(toProjectId);
+		try {
+			await new Promise<void>((resolve, reject) => {
+				const transaction = target.transaction(
+					[EVENTS_STORE, SNAPSHOTS_STORE, NAMED_CHECKPOINTS_STORE, BRANCHES_STORE],
+					'readwrite'
+				);
+				const eventStore = transaction.objectStore(EVENTS_STORE);
+				const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE);
+				const checkpointStore = transaction.objectStore(NAMED_CHECKPOINTS_STORE);
+				const branchStore = transaction.objectStore(BRANCHES_STORE);
+
+				for (const event of events) {
+					eventStore.put(event);
+				}
+				for (const snapshot of snapshots) {
+					snapshotStore.put(snapshot);
+				}
+				for (const checkpoint of checkpoints) {
+					checkpointStore.put(checkpoint);
+				}
+				for (const branch of branches) {
+					branchStore.put(branch);
+				}
+
+				transaction.oncomplete = () => resolve();
+				transaction.onerror = () => reject(new Error('Failed to copy project'));
+			});
+		} finally {
+			target.close();
+		}
+	} finally {
+		source.close();
+	}
+}
+
+/**
+ * Delete a project record and its database
+ */
+export async function removeProject(projectId: string): Promise<void> {
+	if (projectId === currentProjectId) {
+		closeDB();
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		const request = indexedDB.deleteDatabase(getProjectDBName(projectId));
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to delete project database'));
+	});
+
+	const db = await initProjectsDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([PROJECTS_STORE], 'readwrite');
+		const store = transaction.objectStore(PROJECTS_STORE);
+		const request = store.delete(projectId);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to delete project'));
+	});
+}
+
 // ============================================================================
 // Event Operations
 // ============================================================================
@@ -88,6 +380,7 @@ export async function appendEvent(event: DesignEvent): Promise<void> {
 
 /**
  * Append multiple events in a single transaction
+ * Events keep their transactionId so undo/redo grouping can be rebuilt on load
  */
 export async function appendEvents(events: DesignEvent[]): Promise<void> {
 	const db = await initDB();
@@ -110,6 +403,26 @@ export async function appendEvents(events: DesignEvent[]): Promise<void> {
 	});
 }
 
+/**
+ * Overwrite stored events with new versions (same IDs)
+ * Used when the collaboration server commits our events with its own timestamps
+ */
+export async function updateEvents(events: DesignEvent[]): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE], 'readwrite');
+		const store = transaction.objectStore(EVENTS_STORE);
+
+		for (const event of events) {
+			store.put(event);
+		}
+
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(new Error('Failed to update events'));
+	});
+}
+
 /**
  * Get all events from the event log
  */
@@ -127,6 +440,37 @@ export async function getAllEvents(): Promise<DesignEvent[]> {
 	});
 }
 
+/**
+ * Get all events, upcasted to the current schema version
+ * If any event had an older shape, the log is rewritten in place so the upcast only runs once.
+ * Periodic snapshots are dropped then, since upcasting can change the number of events.
+ */
+export async function upgradeEventLog(): Promise<DesignEvent[]> {
+	const storedEvents = await getAllEvents();
+	const { events, upcasted } = upcastEvents(storedEvents as StoredEvent[]);
+	if (!upcasted) {
+		return events;
+	}
+
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+		const eventStore = transaction.objectStore(EVENTS_STORE);
+		const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE);
+
+		eventStore.clear();
+		for (const event of events) {
+			eventStore.put(event);
+		}
+		// The compaction baseline is a DesignState, not events, so it stays
+		snapshotStore.delete(IDBKeyRange.lowerBound(BASELINE_VERSION, true));
+
+		transaction.oncomplete = () => resolve(events);
+		transaction.onerror = () => reject(new Error('Failed to upgrade event log'));
+	});
+}
+
 /**
  * Get events since a specific timestamp
  */
@@ -194,6 +538,26 @@ export async function getEventCount(): Promise<number> {
 	});
 }
 
+/**
+ * Delete specific events by ID in a single transaction
+ * Used to drop undone events when new events overwrite the redo history
+ */
+export async function deleteEvents(eventIds: string[]): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE], 'readwrite');
+		const store = transaction.objectStore(EVENTS_STORE);
+
+		for (const eventId of eventIds) {
+			store.delete(eventId);
+		}
+
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(new Error('Failed to delete events'));
+	});
+}
+
 /**
  * Clear all events (use with caution!)
  */
@@ -232,7 +596,7 @@ export async function saveSnapshot(snapshot: EventStoreSnapshot): Promise<void>
 }
 
 /**
- * Get the latest snapshot
+ * Get the latest periodic snapshot (the compaction baseline is not one)
  */
 export async function getLatestSnapshot(): Promise<EventStoreSnapshot | null> {
 	const db = await initDB();
@@ -243,7 +607,9 @@ export async function getLatestSnapshot(): Promise<EventStoreSnapshot | null> {
 		const request = store.getAll();
 
 		request.onsuccess = () => {
-			const snapshots = request.result as EventStoreSnapshot[];
+			const snapshots = (request.result as EventStoreSnapshot[]).filter(
+				(snapshot) => snapshot.version !== BASELINE_VERSION
+			);
 			if (snapshots.length === 0) {
 				resolve(null);
 			} else {
@@ -275,7 +641,54 @@ export async function getSnapshot(version: number): Promise<EventStoreSnapshot |
 }
 
 /**
- * Clear all snapshots
+ * Delete snapshots that fold in more than `version` events
+ * Called when the log is truncated (new events after an undo), since those snapshots no longer match
+ */
+export async function deleteSnapshotsAfter(version: number): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([SNAPSHOTS_STORE], 'readwrite');
+		const store = transaction.objectStore(SNAPSHOTS_STORE);
+		const request = store.delete(IDBKeyRange.lowerBound(version, true));
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to delete snapshots'));
+	});
+}
+
+/**
+ * Keep only the most recent snapshots
+ */
+export async function pruneSnapshots(keep: number): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([SNAPSHOTS_STORE], 'readwrite');
+		const store = transaction.objectStore(SNAPSHOTS_STORE);
+		const request = store.getAllKeys();
+
+		request.onsuccess = () => {
+			// Keys are versions, returned in ascending order - the baseline is never pruned
+			const keys = request.result.filter((key) => key !== BASELINE_VERSION);
+			for (const key of keys.slice(0, Math.max(0, keys.length - keep))) {
+				store.delete(key);
+			}
+		};
+		request.onerror = () => reject(new Error('Failed to prune snapshots'));
+		transaction.oncomplete = () => resolve();
+	});
+}
+
+/**
+ * Get the compaction baseline - the state the event log starts from (null if never compacted)
+ */
+export async function getBaselineSnapshot(): Promise<EventStoreSnapshot | null> {
+	return getSnapshot(BASELINE_VERSION);
+}
+
+/**
+ * Clear all snapshots, including the compaction baseline
  */
 export async function clearSnapshots(): Promise<void> {
 	const db = await initDB();
@@ -290,20 +703,320 @@ export async function clearSnapshots(): Promise<void> {
 	});
 }
 
+// ============================================================================
+// Named Checkpoints
+// ============================================================================
+
+/**
+ * Save (or rename) a named checkpoint
+ */
+export async function saveNamedCheckpoint(checkpoint: NamedCheckpoint): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([NAMED_CHECKPOINTS_STORE], 'readwrite');
+		const store = transaction.objectStore(NAMED_CHECKPOINTS_STORE);
+		const request = store.put(checkpoint);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to save checkpoint'));
+	});
+}
+
+/**
+ * Get the named checkpoints, oldest first
+ */
+export async function getNamedCheckpoints(): Promise<NamedCheckpoint[]> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([NAMED_CHECKPOINTS_STORE], 'readonly');
+		const store = transaction.objectStore(NAMED_CHECKPOINTS_STORE);
+		const request = store.getAll();
+
+		request.onsuccess = () =>
+			resolve((request.result as NamedCheckpoint[]).sort((a, b) => a.createdAt - b.createdAt));
+		request.onerror = () => reject(new Error('Failed to get checkpoints'));
+	});
+}
+
+/**
+ * Delete a named checkpoint
+ */
+export async function deleteNamedCheckpoint(id: string): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([NAMED_CHECKPOINTS_STORE], 'readwrite');
+		const store = transaction.objectStore(NAMED_CHECKPOINTS_STORE);
+		const request = store.delete(id);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to delete checkpoint'));
+	});
+}
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+/**
+ * Save a branch record
+ */
+export async function saveBranch(branch: DesignBranch): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([BRANCHES_STORE], 'readwrite');
+		const store = transaction.objectStore(BRANCHES_STORE);
+		const request = store.put(branch);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to save branch'));
+	});
+}
+
+/**
+ * Get all branches, oldest first
+ */
+export async function getBranches(): Promise<DesignBranch[]> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([BRANCHES_STORE], 'readonly');
+		const store = transaction.objectStore(BRANCHES_STORE);
+		const request = store.getAll();
+
+		request.onsuccess = () =>
+			resolve((request.result as DesignBranch[]).sort((a, b) => a.createdAt - b.createdAt));
+		request.onerror = () => reject(new Error('Failed to get branches'));
+	});
+}
+
+/**
+ * Delete a branch and its stored log
+ */
+export async function deleteBranch(id: string): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([BRANCHES_STORE], 'readwrite');
+		const store = transaction.objectStore(BRANCHES_STORE);
+		const request = store.delete(id);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to delete branch'));
+	});
+}
+
+/**
+ * Swap the checked-out log in a single transaction
+ * The current log and baseline are stored in `outgoing`; `incoming`'s take their place
+ * (snapshots other than the baseline are dropped - they are rebuilt from the new log)
+ */
+export async function swapBranchLog(outgoing: DesignBranch, incoming: DesignBranch): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE, SNAPSHOTS_STORE, BRANCHES_STORE], 'readwrite');
+		const eventStore = transaction.objectStore(EVENTS_STORE);
+		const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE);
+		const branchStore = transaction.objectStore(BRANCHES_STORE);
+
+		const eventsRequest = eventStore.index('timestamp').getAll();
+
+		eventsRequest.onsuccess = () => {
+			const baselineRequest = snapshotStore.get(BASELINE_VERSION);
+
+			baselineRequest.onsuccess = () => {
+				branchStore.put({
+					...outgoing,
+					events: eventsRequest.result,
+					baseline: baselineRequest.result ?? null,
+					updatedAt: Date.now()
+				});
+
+				eventStore.clear();
+				snapshotStore.clear();
+				for (const event of incoming.events) {
+					eventStore.add(event);
+				}
+				if (incoming.baseline) {
+					snapshotStore.put(incoming.baseline);
+				}
+				branchStore.put({ ...incoming, events: [], baseline: null });
+			};
+		};
+
+		transaction.oncomplete = () => resolve();
+		// Any failed request aborts the transaction, so both logs stay where they were
+		transaction.onerror = () => reject(new Error('Failed to switch branch'));
+	});
+}
+
+// ============================================================================
+// Sync Outbox
+// ============================================================================
+
+/**
+ * A change to the local log that the server hasn't acknowledged yet
+ */
+export interface OutboxEntry {
+	seq?: number; // Assigned by IndexedDB, defines push order
+	events: DesignEvent[]; // Events appended to the log
+	discardedEventIds: string[]; // Undone events dropped from the log before the append
+}
+
+/**
+ * Queue a change for the server (survives reloads while offline)
+ */
+export async function enqueueOutbox(entry: OutboxEntry): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+		const store = transaction.objectStore(OUTBOX_STORE);
+		const request = store.add(entry);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to queue change for sync'));
+	});
+}
+
+/**
+ * Get queued changes in push order
+ */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([OUTBOX_STORE], 'readonly');
+		const store = transaction.objectStore(OUTBOX_STORE);
+		const request = store.getAll();
+
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(new Error('Failed to get sync outbox'));
+	});
+}
+
+/**
+ * Remove a change once the server has acknowledged it
+ */
+export async function removeOutboxEntry(seq: number): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([OUTBOX_STORE], 'readwrite');
+		const store = transaction.objectStore(OUTBOX_STORE);
+		const request = store.delete(seq);
+
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(new Error('Failed to remove synced change'));
+	});
+}
+
+// ============================================================================
+// Compaction
+// ============================================================================
+
+export interface CompactionResult {
+	foldedEventCount: number; // Events removed from the head of the log
+	baseline: EventStoreSnapshot | null; // New baseline (null if nothing was folded)
+}
+
+/**
+ * Fold the oldest `cutoff` events into the baseline snapshot and delete them from the log
+ *
+ * The cut-off is moved back to a transaction boundary so no undo step is split.
+ * Periodic snapshots are dropped because their versions count events that no longer exist.
+ * Events after the cut-off are untouched, so their undo history stays intact.
+ */
+export async function compactEvents(cutoff: number): Promise<CompactionResult> {
+	const events = await getAllEvents();
+	const previousBaseline = await getBaselineSnapshot();
+
+	let foldedEventCount = Math.min(cutoff, events.length);
+	while (
+		foldedEventCount > 0 &&
+		foldedEventCount < events.length &&
+		events[foldedEventCount].transactionId !== undefined &&
+		events[foldedEventCount].transactionId === events[foldedEventCount - 1].transactionId
+	) {
+		foldedEventCount--;
+	}
+
+	if (foldedEventCount === 0) {
+		return { foldedEventCount: 0, baseline: null };
+	}
+
+	const foldedEvents = events.slice(0, foldedEventCount);
+	const baseState: DesignState = previousBaseline?.state ?? getInitialState();
+	const now = Date.now();
+	const baseline: EventStoreSnapshot = {
+		version: BASELINE_VERSION,
+		// Selection is not part of event sourcing
+		state: { ...reduceEvents(foldedEvents, baseState), selectedElementIds: [] },
+		lastEventId: foldedEvents[foldedEvents.length - 1].id,
+		createdAt: previousBaseline?.createdAt ?? now,
+		updatedAt: now
+	};
+
+	const db = await initDB();
+
+	// One transaction across both stores, so a failure leaves the old log and baseline in place
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+		const eventStore = transaction.objectStore(EVENTS_STORE);
+		const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE);
+
+		for (const event of foldedEvents) {
+			eventStore.delete(event.id);
+		}
+		snapshotStore.clear();
+		snapshotStore.put(baseline);
+
+		transaction.oncomplete = () => resolve({ foldedEventCount, baseline });
+		transaction.onerror = () => reject(new Error('Failed to compact events'));
+	});
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
 /**
  * Export all events as JSON (for backup/sync)
+ * A compacted log is exported together with its baseline, since the events alone no longer
+ * describe the whole design
  */
 export async function exportEvents(): Promise<string> {
 	const events = await getAllEvents();
+	const baseline = await getBaselineSnapshot();
+
+	if (baseline) {
+		return JSON.stringify({ baseline, events }, null, 2);
+	}
 	return JSON.stringify(events, null, 2);
 }
 
 /**
- * Validate if parsed JSON is a valid array of DesignEvents
+ * Validate if parsed JSON is a compaction baseline snapshot
+ */
+function validateBaseline(data: unknown): data is EventStoreSnapshot {
+	return (
+		!!data &&
+		typeof data === 'object' &&
+		'version' in data &&
+		'state' in data &&
+		data.version === BASELINE_VERSION &&
+		!!data.state &&
+		typeof data.state === 'object'
+	);
+}
+
+/**
+ * Check that parsed JSON is an array of events with id, type and timestamp
+ * Payloads are checked after upcasting, against the current event types
  */
 function validateEvents(data: unknown): data is DesignEvent[] {
 	if (!Array.isArray(data)) {
@@ -325,26 +1038,84 @@ function validateEvents(data: unknown): data is DesignEvent[] {
 	});
 }
 
+/**
+ * Replace the whole log (and its baseline) in a single transaction
+ * Snapshots were derived from the old log, so they go too
+ */
+export async function replaceEventLog(
+	events: DesignEvent[],
+	baseline: EventStoreSnapshot | null
+): Promise<void> {
+	const db = await initDB();
+
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([EVENTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+		const eventStore = transaction.objectStore(EVENTS_STORE);
+		const snapshotStore = transaction.objectStore(SNAPSHOTS_STORE);
+
+		eventStore.clear();
+		snapshotStore.clear();
+		for (const event of events) {
+			eventStore.add(event);
+		}
+		if (baseline) {
+			snapshotStore.put(baseline);
+		}
+
+		transaction.oncomplete = () => resolve();
+		// Any failed request aborts the transaction, so the old log is left as it was
+		transaction.onerror = () => reject(new Error('Failed to import events'));
+	});
+}
+
 /**
  * Import events from JSON (for restore/sync)
+ * The import is atomic: nothing is written unless every event is valid,
+ * and the old log is only replaced in the same transaction that writes the new one
  *
- * @throws {Error} If JSON is invalid or doesn't match expected event structure
+ * @throws {Error} If JSON is invalid or doesn't match expected event structure,
+ * with a report listing each bad event and the reason
  */
 export async function importEvents(json: string): Promise<void> {
 	try {
 		// Parse JSON with error handling
 		const parsed = JSON.parse(json);
 
+		// Compacted exports wrap the events together with their baseline
+		const isCompacted = !!parsed && typeof parsed === 'object' && !Array.isArray(parsed);
+		const events: unknown = isCompacted ? parsed.events : parsed;
+		const baseline: unknown = isCompacted ? parsed.baseline : null;
+
 		// Validate structure
-		if (!validateEvents(parsed)) {
+		if (!validateEvents(events)) {
 			throw new Error(
 				'Invalid event data: Expected an array of events with id, type, and timestamp properties'
 			);
 		}
+		if (isCompacted && !validateBaseline(baseline)) {
+			throw new Error('Invalid event data: Compacted export is missing its baseline snapshot');
+		}
+
+		// Files exported by older versions may contain old event shapes
+		const { events: upcastedEvents } = upcastEvents(events as StoredEvent[]);
+
+		const issues = validateEventLog(upcastedEvents);
+		if (issues.length > 0) {
+			throw new Error(
+				`Invalid event data: ${issues.length} invalid event(s)\n${formatValidationIssues(issues)}`
+			);
+		}
+
+		// Dry run - payloads can be well-formed but still reference things that don't exist
+		const baseState = validateBaseline(baseline) ? baseline.state : getInitialState();
+		try {
+			reduceEvents(upcastedEvents, baseState);
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			throw new Error(`Invalid event data: Events could not be replayed (${reason})`);
+		}
 
-		// Clear existing events and import new ones
-		await clearEvents();
-		await appendEvents(parsed);
+		await replaceEventLog(upcastedEvents, validateBaseline(baseline) ? baseline : null);
 	} catch (error) {
 		// Re-throw with more context if it's a JSON parse error
 		if (error instanceof SyntaxError) {
@@ -0,0 +1,221 @@
+/**
+ * Event Sync - Pushes the local event log to the server and pulls remote events
+ *
+ * Changes are queued in the IndexedDB outbox first, so edits made offline
+ * survive a reload and are pushed once the server is reachable again. Pushes
+ * happen in order and are retried with exponential backoff; the server skips
+ * events it already has, so retrying a batch is safe.
+ */
+
+import { writable } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { DesignEvent } from '$lib/types/events';
+import { getOutbox, removeOutboxEntry } from './event-store';
+import type { OutboxEntry } from './event-store';
+
+const RETRY_BASE_DELAY = 1000; // First retry after this long (ms), doubled per failure
+const RETRY_MAX_DELAY = 30000;
+const PULL_INTERVAL = 10000; // Check for remote events this often while idle (ms)
+const PUSH_DELAY = 500; // Batch up rapid edits before pushing (ms)
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface PageEventsResponse {
+	title: string;
+	events: DesignEvent[];
+	cursor: number;
+	reset: boolean; // The server log was rewritten - `events` is the whole log
+}
+
+interface SyncOptions {
+	pageId: string;
+	cursor: number; // Server sequence number of the newest event already pulled
+	// Apply pulled events - returns false if they can't be applied yet (pull again later)
+	onRemoteEvents: (response: PageEventsResponse) => Promise<boolean>;
+	onCursorChange: (cursor: number) => void;
+}
+
+const status = writable<SyncStatus>('idle');
+export const syncStatus: Readable<SyncStatus> = { subscribe: status.subscribe };
+
+let activeSync: SyncOptions | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_BASE_DELAY;
+let isRunning = false;
+let runAgain = false;
+
+// ============================================================================
+// API
+// ============================================================================
+
+/**
+ * Call the page events endpoint with the stored access token
+ *
+ * @throws {Error} If the request fails or the server rejects it
+ */
+async function requestPageEvents(pageId: string, init: RequestInit = {}, query = ''): Promise<Response> {
+	const token = localStorage.getItem('accessToken');
+	if (!token) {
+		throw new Error('Not signed in');
+	}
+
+	const response = await fetch(`/api/pages/${pageId}/events${query}`, {
+		...init,
+		headers: {
+			...init.headers,
+			Authorization: `Bearer ${token}`
+		}
+	});
+
+	if (!response.ok) {
+		const data = await response.json().catch(() => ({}));
+		throw new Error(data.error || data.message || `Sync request failed (${response.status})`);
+	}
+
+	return response;
+}
+
+/**
+ * Get the server events recorded after a cursor
+ */
+export async function fetchPageEvents(pageId: string, since: number): Promise<PageEventsResponse> {
+	const response = await requestPageEvents(pageId, {}, `?since=${since}`);
+	return await response.json();
+}
+
+/**
+ * Push one queued change to the server
+ */
+async function pushOutboxEntry(pageId: string, entry: OutboxEntry): Promise<void> {
+	await requestPageEvents(pageId, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			events: entry.events,
+			discardedEventIds: entry.discardedEventIds
+		})
+	});
+}
+
+// ============================================================================
+// Sync Loop
+// ============================================================================
+
+/**
+ * Push everything in the outbox, then pull remote events
+ */
+async function runSync(sync: SyncOptions): Promise<void> {
+	for (const entry of await getOutbox()) {
+		if (activeSync !== sync) return;
+		await pushOutboxEntry(sync.pageId, entry);
+		await removeOutboxEntry(entry.seq!);
+	}
+
+	if (activeSync !== sync) return;
+	const response = await fetchPageEvents(sync.pageId, sync.cursor);
+	if (activeSync !== sync) return;
+
+	// Our own pushed events come back too - the handler skips events it already has
+	if (response.events.length > 0 || response.reset) {
+		const applied = await sync.onRemoteEvents(response);
+		if (!applied) return;
+	}
+
+	if (response.cursor !== sync.cursor) {
+		sync.cursor = response.cursor;
+		sync.onCursorChange(response.cursor);
+	}
+}
+
+/**
+ * Run the sync loop once, then schedule the next run (sooner after a failure)
+ */
+async function tick(): Promise<void> {
+	const sync = activeSync;
+	if (!sync) return;
+
+	if (isRunning) {
+		runAgain = true;
+		return;
+	}
+
+	isRunning = true;
+	status.set('syncing');
+
+	try {
+		await runSync(sync);
+		retryDelay = RETRY_BASE_DELAY;
+		if (activeSync === sync) {
+			status.set('idle');
+			schedule(runAgain ? PUSH_DELAY : PULL_INTERVAL);
+		}
+	} catch (error) {
+		console.error('Sync failed, retrying:', error);
+		if (activeSync === sync) {
+			status.set(navigator.onLine ? 'error' : 'offline');
+			schedule(retryDelay);
+			retryDelay = Math.min(retryDelay * 2, RETRY_MAX_DELAY);
+		}
+	} finally {
+		isRunning = false;
+		runAgain = false;
+	}
+}
+
+function schedule(delay: number): void {
+	if (syncTimer !== null) {
+		clearTimeout(syncTimer);
+	}
+	syncTimer = setTimeout(() => {
+		syncTimer = null;
+		tick();
+	}, delay);
+}
+
+function handleOnline(): void {
+	retryDelay = RETRY_BASE_DELAY;
+	schedule(0);
+}
+
+/**
+ * Start syncing the current project's log with a server page (stops any previous sync)
+ */
+export function startSync(options: SyncOptions): void {
+	stopSync();
+
+	activeSync = { ...options };
+	retryDelay = RETRY_BASE_DELAY;
+	window.addEventListener('online', handleOnline);
+	schedule(0);
+}
+
+/**
+ * Stop syncing (queued changes stay in the outbox until the next start)
+ */
+export function stopSync(): void {
+	activeSync = null;
+	if (syncTimer !== null) {
+		clearTimeout(syncTimer);
+		syncTimer = null;
+	}
+	if (typeof window !== 'undefined') {
+		window.removeEventListener('online', handleOnline);
+	}
+	status.set('idle');
+}
+
+/**
+ * Push queued changes soon (called after the outbox grows)
+ */
+export function requestSync(): void {
+	if (!activeSync) return;
+
+	if (isRunning) {
+		runAgain = true;
+		return;
+	}
+	// While backing off after a failure, keep waiting rather than hammering the server
+	if (retryDelay === RETRY_BASE_DELAY) {
+		schedule(PUSH_DELAY);
+	}
+}
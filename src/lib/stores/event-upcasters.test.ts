@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_EVENT_SCHEMA_VERSION } from '$lib/types/events';
+import { reduceEvents } from './event-reducer';
+import { upcastEvents, getSchemaVersion } from './event-upcasters';
+import type { StoredEvent } from './event-upcasters';
+
+/**
+ * An export from before the single-view refactor: pages owned View objects
+ */
+const preRefactorExport: StoredEvent[] = [
+	{
+		id: 'event-1',
+		type: 'CREATE_PAGE',
+		timestamp: 1,
+		payload: { pageId: 'page-1', name: 'Home' }
+	},
+	{
+		id: 'event-2',
+		type: 'CREATE_VIEW',
+		timestamp: 2,
+		payload: { viewId: 'view-1', pageId: 'page-1', name: 'Desktop', width: 1440 }
+	},
+	{
+		id: 'event-3',
+		type: 'CREATE_ELEMENT',
+		timestamp: 3,
+		payload: {
+			elementId: 'element-1',
+			parentId: null,
+			viewId: 'view-1',
+			elementType: 'div',
+			position: { x: 0, y: 0 },
+			size: { width: 100, height: 100 }
+		}
+	},
+	{
+		id: 'event-4',
+		type: 'RESIZE_VIEW',
+		timestamp: 4,
+		payload: { viewId: 'view-1', width: 1280 }
+	}
+];
+
+describe('upcastEvents', () => {
+	it('should load events recorded before the single-view refactor', () => {
+		const { events, upcasted } = upcastEvents(preRefactorExport);
+
+		expect(upcasted).toBe(true);
+		expect(events.map((event) => event.id)).toEqual(['event-1', 'event-3']);
+		expect(events.every((event) => event.schemaVersion === CURRENT_EVENT_SCHEMA_VERSION)).toBe(
+			true
+		);
+
+		const state = reduceEvents(events);
+		expect(state.pages['page-1'].canvasElements).toEqual(['element-1']);
+		expect(state.elements['element-1'].pageId).toBe('page-1');
+	});
+
+	it('should stamp unversioned events that already have the current shape', () => {
+		const { events } = upcastEvents([preRefactorExport[0]]);
+
+		expect(events).toEqual([{ ...preRefactorExport[0], schemaVersion: CURRENT_EVENT_SCHEMA_VERSION }]);
+	});
+
+	it('should leave current events untouched', () => {
+		const current: StoredEvent[] = [
+			{ ...preRefactorExport[0], schemaVersion: CURRENT_EVENT_SCHEMA_VERSION }
+		];
+		const { events, upcasted } = upcastEvents(current);
+
+		expect(upcasted).toBe(false);
+		expect(events).toBe(current);
+	});
+
+	it('should reject events from a newer schema version', () => {
+		const future: StoredEvent = {
+			...preRefactorExport[0],
+			schemaVersion: CURRENT_EVENT_SCHEMA_VERSION + 1
+		};
+
+		expect(getSchemaVersion(future)).toBe(CURRENT_EVENT_SCHEMA_VERSION + 1);
+		expect(() => upcastEvents([future])).toThrow(/schema version/);
+	});
+
+	it('should reject events that still do not match the current types once upcast', () => {
+		const malformed: StoredEvent = {
+			id: 'event-bad',
+			type: 'MOVE_ELEMENT',
+			timestamp: 1,
+			schemaVersion: CURRENT_EVENT_SCHEMA_VERSION,
+			payload: { elementId: 'element-1' }
+		};
+
+		expect(() => upcastEvents([malformed])).toThrow(/event-bad .*payload\.position/);
+	});
+});
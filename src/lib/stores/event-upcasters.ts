@@ -0,0 +1,155 @@
+/**
+ * Event Upcasters - Convert old event shapes to the current schema
+ *
+ * Events are stored forever, so when an event type changes shape the old
+ * events stay in IndexedDB and in exported files. Before events reach the
+ * reducer they are passed through one upcaster per schema version until they
+ * match the types in types/events.ts.
+ *
+ * To change an event shape:
+ * 1. Update the type in types/events.ts
+ * 2. Bump CURRENT_EVENT_SCHEMA_VERSION
+ * 3. Register an upcaster below keyed by the previous version
+ */
+
+import { CURRENT_EVENT_SCHEMA_VERSION } from '$lib/types/events';
+import type { DesignEvent } from '$lib/types/events';
+import { assertDesignEvents } from './event-validation';
+
+/**
+ * An event as it was stored - its payload may not match the current types
+ */
+export interface StoredEvent {
+	id: string;
+	type: string;
+	timestamp: number;
+	schemaVersion?: number;
+	transactionId?: string;
+	userId?: string;
+	payload?: Record<string, unknown>;
+}
+
+/**
+ * Converts every event of one schema version to the next version
+ * Receives the whole log in order (so it can use context from earlier events)
+ * and must leave events of other versions untouched. Returning fewer events drops them.
+ */
+export type EventUpcaster = (events: StoredEvent[]) => StoredEvent[];
+
+/** Events recorded before versioning was introduced */
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+// ============================================================================
+// Upcasters
+// ============================================================================
+
+// Event types removed when views became div elements with isView = true
+const REMOVED_VIEW_EVENT_TYPES = ['CREATE_VIEW', 'UPDATE_VIEW', 'DELETE_VIEW', 'RESIZE_VIEW'];
+
+/**
+ * Version 1 -> 2: single-view refactor
+ *
+ * Before the refactor, pages owned separate View objects and elements referenced a
+ * `viewId`. Views no longer exist as a data structure, so their events are dropped
+ * and `viewId` references are resolved to the page the view belonged to.
+ * Unversioned logs recorded after the refactor pass through unchanged.
+ */
+function upcastSingleViewRefactor(events: StoredEvent[]): StoredEvent[] {
+	const viewPageIds = new Map<string, string>();
+	let lastPageId: string | null = null;
+	const result: StoredEvent[] = [];
+
+	for (const event of events) {
+		if (getSchemaVersion(event) !== 1) {
+			result.push(event);
+			continue;
+		}
+
+		const payload = event.payload ?? {};
+
+		if (event.type === 'CREATE_PAGE' && typeof payload.pageId === 'string') {
+			lastPageId = payload.pageId;
+		}
+
+		if (REMOVED_VIEW_EVENT_TYPES.includes(event.type)) {
+			if (
+				event.type === 'CREATE_VIEW' &&
+				typeof payload.viewId === 'string' &&
+				typeof payload.pageId === 'string'
+			) {
+				viewPageIds.set(payload.viewId, payload.pageId);
+			}
+			continue;
+		}
+
+		if (typeof payload.viewId === 'string' && payload.pageId === undefined) {
+			const { viewId, ...rest } = payload;
+			const pageId = viewPageIds.get(viewId) ?? lastPageId;
+			result.push({
+				...event,
+				schemaVersion: 2,
+				payload: pageId ? { ...rest, pageId } : rest
+			});
+			continue;
+		}
+
+		result.push({ ...event, schemaVersion: 2 });
+	}
+
+	return result;
+}
+
+/**
+ * Upcaster registry - keyed by the schema version an upcaster converts from
+ */
+const upcasters: Record<number, EventUpcaster> = {
+	1: upcastSingleViewRefactor
+};
+
+// ============================================================================
+// Upcasting
+// ============================================================================
+
+/**
+ * Get the schema version of a stored event
+ */
+export function getSchemaVersion(event: StoredEvent): number {
+	return event.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+}
+
+/**
+ * Bring a stored event log up to CURRENT_EVENT_SCHEMA_VERSION
+ *
+ * @returns The upcasted events, and whether anything had to be converted
+ * @throws {Error} If an event is newer than this build, no upcaster covers its version,
+ *   or an event still doesn't match the current types once upcast
+ */
+export function upcastEvents(events: StoredEvent[]): { events: DesignEvent[]; upcasted: boolean } {
+	const oldestVersion = events.reduce(
+		(min, event) => Math.min(min, getSchemaVersion(event)),
+		CURRENT_EVENT_SCHEMA_VERSION
+	);
+
+	const newerEvent = events.find((event) => getSchemaVersion(event) > CURRENT_EVENT_SCHEMA_VERSION);
+	if (newerEvent) {
+		throw new Error(
+			`Event ${newerEvent.id} has schema version ${getSchemaVersion(newerEvent)}, ` +
+				`but this version of the editor only supports up to ${CURRENT_EVENT_SCHEMA_VERSION}`
+		);
+	}
+
+	let result = events;
+	for (let version = oldestVersion; version < CURRENT_EVENT_SCHEMA_VERSION; version++) {
+		const upcaster = upcasters[version];
+		if (!upcaster) {
+			throw new Error(`No upcaster registered for event schema version ${version}`);
+		}
+		result = upcaster(result);
+	}
+
+	assertDesignEvents(result);
+	return {
+		events: result,
+		upcasted: oldestVersion < CURRENT_EVENT_SCHEMA_VERSION
+	};
+}
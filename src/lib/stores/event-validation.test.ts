@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { validateEvent, validateEventLog, formatValidationIssues } from './event-validation';
+
+const createPage = {
+	id: 'event-1',
+	type: 'CREATE_PAGE',
+	timestamp: 1,
+	payload: { pageId: 'page-1', name: 'Home' }
+};
+
+const createElement = {
+	id: 'event-2',
+	type: 'CREATE_ELEMENT',
+	timestamp: 2,
+	payload: {
+		elementId: 'element-1',
+		parentId: null,
+		pageId: 'page-1',
+		elementType: 'div',
+		position: { x: 0, y: 0 },
+		size: { width: 100, height: 100 },
+		styles: { backgroundColor: '#fff', opacity: 1 }
+	}
+};
+
+describe('validateEvent', () => {
+	it('should accept well-formed events', () => {
+		expect(validateEvent(createPage)).toBeNull();
+		expect(validateEvent(createElement)).toBeNull();
+	});
+
+	it('should report the failing payload field', () => {
+		const event = {
+			...createElement,
+			payload: { ...createElement.payload, position: { x: 0, y: '10' } }
+		};
+
+		expect(validateEvent(event)).toBe('payload.position: y: expected a finite number');
+	});
+
+	it('should reject unknown event types and missing payloads', () => {
+		expect(validateEvent({ ...createPage, type: 'CREATE_VIEW' })).toBe(
+			'unknown event type "CREATE_VIEW"'
+		);
+		expect(validateEvent({ id: 'event-3', type: 'DELETE_PAGE', timestamp: 3 })).toBe(
+			'payload: expected an object'
+		);
+	});
+
+	it('should check enum fields against the allowed values', () => {
+		const event = {
+			id: 'event-3',
+			type: 'SHIFT_ELEMENT_LAYER',
+			timestamp: 3,
+			payload: { elementId: 'element-1', direction: 'sideways' }
+		};
+
+		expect(validateEvent(event)).toMatch(/^payload\.direction: expected one of/);
+	});
+});
+
+describe('validateEventLog', () => {
+	it('should list every bad event with its position and reason', () => {
+		const issues = validateEventLog([
+			createPage,
+			{ ...createElement, payload: { ...createElement.payload, elementType: 'blink' } },
+			{ ...createPage },
+			'not an event'
+		]);
+
+		expect(issues.map((issue) => [issue.index, issue.eventId])).toEqual([
+			[1, 'event-2'],
+			[2, 'event-1'],
+			[3, null]
+		]);
+		expect(issues[1].reason).toBe('duplicate event id');
+		expect(formatValidationIssues(issues).split('\n')).toHaveLength(3);
+	});
+});
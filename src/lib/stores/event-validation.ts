@@ -0,0 +1,342 @@
+/**
+ * Event Validation - Runtime checks for events coming from outside the editor
+ *
+ * Imported files are untrusted: a malformed payload would otherwise only fail
+ * later inside the reducer. Every event type in the DesignEvent union has a
+ * payload schema below; the mapped type makes TypeScript reject a schema that
+ * is missing an event type or a payload field.
+ */
+
+import type { DesignEvent, ElementType } from '$lib/types/events';
+
+/**
+ * Checks a value and returns the reason it is invalid (null if valid)
+ */
+type Validator = (value: unknown) => string | null;
+
+/**
+ * One validator per payload field, required fields included
+ */
+type PayloadSchema<P> = { [K in keyof P]-?: Validator };
+
+type EventSchemas = {
+	[E in DesignEvent as E['type']]: PayloadSchema<E['payload']>;
+};
+
+export interface EventValidationIssue {
+	index: number; // Position of the event in the imported log
+	eventId: string | null;
+	type: string | null;
+	reason: string;
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+const string: Validator = (value) => (typeof value === 'string' ? null : 'expected a string');
+
+const number: Validator = (value) =>
+	typeof value === 'number' && Number.isFinite(value) ? null : 'expected a finite number';
+
+const boolean: Validator = (value) => (typeof value === 'boolean' ? null : 'expected a boolean');
+
+function optional(validator: Validator): Validator {
+	return (value) => (value === undefined ? null : validator(value));
+}
+
+function nullable(validator: Validator): Validator {
+	return (value) => (value === null ? null : validator(value));
+}
+
+function oneOf(values: readonly string[]): Validator {
+	return (value) =>
+		typeof value === 'string' && values.includes(value)
+			? null
+			: `expected one of ${values.join(', ')}`;
+}
+
+function arrayOf(validator: Validator): Validator {
+	return (value) => {
+		if (!Array.isArray(value)) return 'expected an array';
+		for (let i = 0; i < value.length; i++) {
+			const reason = validator(value[i]);
+			if (reason) return `[${i}] ${reason}`;
+		}
+		return null;
+	};
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function object(fields: Record<string, Validator>): Validator {
+	return (value) => {
+		if (!isPlainObject(value)) return 'expected an object';
+		for (const [key, validator] of Object.entries(fields)) {
+			const reason = validator(value[key]);
+			if (reason) return `${key}: ${reason}`;
+		}
+		return null;
+	};
+}
+
+/**
+ * Partial style objects (styles, typography, spacing, auto layout)
+ * Keys are open-ended CSS properties, but values must be plain scalars
+ */
+const styleMap: Validator = (value) => {
+	if (!isPlainObject(value)) return 'expected an object';
+	for (const [key, entry] of Object.entries(value)) {
+		if (
+			entry !== undefined &&
+			typeof entry !== 'string' &&
+			typeof entry !== 'number' &&
+			typeof entry !== 'boolean'
+		) {
+			return `${key}: expected a string, number or boolean`;
+		}
+	}
+	return null;
+};
+
+const ELEMENT_TYPES: readonly ElementType[] = [
+	'div',
+	'section',
+	'header',
+	'footer',
+	'article',
+	'aside',
+	'nav',
+	'main',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'p',
+	'span',
+	'a',
+	'button',
+	'img',
+	'video',
+	'form',
+	'input',
+	'textarea',
+	'label',
+	'ul',
+	'ol',
+	'li'
+];
+
+const position = object({ x: number, y: number });
+const size = object({ width: number, height: number });
+const stringArray = arrayOf(string);
+
+// ============================================================================
+// Payload Schemas
+// ============================================================================
+
+const eventSchemas: EventSchemas = {
+	CREATE_ELEMENT: {
+		elementId: string,
+		parentId: nullable(string),
+		pageId: string,
+		elementType: oneOf(ELEMENT_TYPES),
+		position,
+		size,
+		styles: optional(styleMap),
+		content: optional(string)
+	},
+	UPDATE_ELEMENT: {
+		elementId: string,
+		changes: object({
+			content: optional(string),
+			alt: optional(string),
+			href: optional(string),
+			src: optional(string)
+		}),
+		unset: optional(arrayOf(oneOf(['content', 'alt', 'href', 'src'])))
+	},
+	DELETE_ELEMENT: { elementId: string },
+	GROUP_DELETE_ELEMENTS: { elementIds: stringArray },
+	MOVE_ELEMENT: { elementId: string, position, snapToBaseline: optional(boolean) },
+	RESIZE_ELEMENT: { elementId: string, size, position: optional(position) },
+	ROTATE_ELEMENT: { elementId: string, rotation: number },
+	REORDER_ELEMENT: { elementId: string, newParentId: nullable(string), newIndex: number },
+	SHIFT_ELEMENT_LAYER: {
+		elementId: string,
+		direction: oneOf(['forward', 'backward', 'front', 'back'])
+	},
+	TOGGLE_VIEW: {
+		elementId: string,
+		isView: boolean,
+		viewName: optional(string),
+		breakpointWidth: optional(number),
+		unset: optional(arrayOf(oneOf(['viewName', 'breakpointWidth'])))
+	},
+	TOGGLE_VISIBILITY: { elementId: string, visible: boolean },
+	TOGGLE_LOCK: { elementId: string, locked: boolean },
+	TOGGLE_BASELINE_SNAP: { elementId: string, enabled: boolean },
+	SET_LAYOUT_GRID: {
+		elementId: string,
+		layoutGrid: nullable(
+			object({
+				columns: number,
+				gutter: number,
+				margin: number,
+				type: oneOf(['fluid', 'fixed']),
+				columnWidth: number,
+				visible: boolean
+			})
+		)
+	},
+	RENAME_ELEMENT: { elementId: string, name: string },
+	GROUP_MOVE_ELEMENTS: { elements: arrayOf(object({ elementId: string, position })) },
+	GROUP_RESIZE_ELEMENTS: {
+		elements: arrayOf(object({ elementId: string, size, position: optional(position) }))
+	},
+	GROUP_ROTATE_ELEMENTS: {
+		elements: arrayOf(object({ elementId: string, rotation: number, position }))
+	},
+	GROUP_UPDATE_STYLES: { elements: arrayOf(object({ elementId: string, styles: styleMap })) },
+	GROUP_UPDATE_TYPOGRAPHY: { elements: arrayOf(object({ elementId: string, typography: styleMap })) },
+	GROUP_UPDATE_SPACING: { elements: arrayOf(object({ elementId: string, spacing: styleMap })) },
+	GROUP_UPDATE_AUTO_LAYOUT: { elements: arrayOf(object({ elementId: string, autoLayout: styleMap })) },
+	GROUP_ELEMENTS: { groupId: string, elementIds: stringArray },
+	UNGROUP_ELEMENTS: { groupId: string },
+	UPDATE_STYLES: { elementId: string, styles: styleMap, unset: optional(stringArray) },
+	UPDATE_TYPOGRAPHY: { elementId: string, typography: styleMap, unset: optional(stringArray) },
+	UPDATE_SPACING: { elementId: string, spacing: styleMap, unset: optional(stringArray) },
+	UPDATE_AUTO_LAYOUT: { elementId: string, autoLayout: styleMap, unset: optional(stringArray) },
+	CREATE_PAGE: {
+		pageId: string,
+		name: string,
+		slug: optional(string),
+		width: optional(number),
+		height: optional(number)
+	},
+	UPDATE_PAGE: {
+		pageId: string,
+		changes: object({
+			name: optional(string),
+			slug: optional(string),
+			width: optional(number),
+			height: optional(number)
+		})
+	},
+	DELETE_PAGE: { pageId: string },
+	REORDER_PAGES: { pageIds: stringArray },
+	CREATE_COMPONENT: { componentId: string, name: string, elementIds: stringArray },
+	UPDATE_COMPONENT: { componentId: string, changes: object({ name: optional(string) }) },
+	DELETE_COMPONENT: { componentId: string },
+	INSTANCE_COMPONENT: { componentId: string, instanceId: string, pageId: string, position },
+	CREATE_GUIDE: {
+		guideId: string,
+		pageId: string,
+		viewId: nullable(string),
+		axis: oneOf(['x', 'y']),
+		position: number,
+		locked: optional(boolean)
+	},
+	MOVE_GUIDE: { guideId: string, position: number },
+	DELETE_GUIDE: { guideId: string },
+	TOGGLE_GUIDE_LOCK: { guideId: string, locked: boolean }
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a single event against the schema for its type
+ * Returns the reason it is invalid (null if valid)
+ */
+export function validateEvent(event: unknown): string | null {
+	if (!isPlainObject(event)) return 'event is not an object';
+	if (typeof event.id !== 'string') return 'id: expected a string';
+	if (typeof event.timestamp !== 'number') return 'timestamp: expected a number';
+	if (typeof event.type !== 'string') return 'type: expected a string';
+
+	if (!Object.prototype.hasOwnProperty.call(eventSchemas, event.type)) {
+		return `unknown event type "${event.type}"`;
+	}
+	const schema: Record<string, Validator> = eventSchemas[event.type as DesignEvent['type']];
+
+	if (!isPlainObject(event.payload)) return 'payload: expected an object';
+	for (const [field, validator] of Object.entries(schema)) {
+		const reason = validator(event.payload[field]);
+		if (reason) return `payload.${field}: ${reason}`;
+	}
+
+	for (const key of ['transactionId', 'userId'] as const) {
+		if (event[key] !== undefined && typeof event[key] !== 'string') {
+			return `${key}: expected a string`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check that every event matches the current event types (narrows the log to DesignEvent[])
+ * @throws {Error} With the first invalid event and the reason
+ */
+export function assertDesignEvents(events: readonly unknown[]): asserts events is DesignEvent[] {
+	events.forEach((event, index) => {
+		const reason = validateEvent(event);
+		if (reason) {
+			const id = isPlainObject(event) && typeof event.id === 'string' ? event.id : `#${index}`;
+			throw new Error(`Event ${id} doesn't match the current event schema: ${reason}`);
+		}
+	});
+}
+
+/**
+ * Validate a whole event log, listing every bad event and the reason
+ */
+export function validateEventLog(events: unknown): EventValidationIssue[] {
+	if (!Array.isArray(events)) {
+		return [{ index: -1, eventId: null, type: null, reason: 'expected an array of events' }];
+	}
+
+	const issues: EventValidationIssue[] = [];
+	const seenIds = new Set<string>();
+
+	events.forEach((event, index) => {
+		const eventId = isPlainObject(event) && typeof event.id === 'string' ? event.id : null;
+		const type = isPlainObject(event) && typeof event.type === 'string' ? event.type : null;
+
+		let reason = validateEvent(event);
+		if (!reason && eventId !== null && seenIds.has(eventId)) {
+			reason = 'duplicate event id';
+		}
+		if (eventId !== null) seenIds.add(eventId);
+
+		if (reason) {
+			issues.push({ index, eventId, type, reason });
+		}
+	});
+
+	return issues;
+}
+
+/**
+ * Format a validation report for display
+ */
+export function formatValidationIssues(issues: EventValidationIssue[]): string {
+	return issues
+		.map((issue) => {
+			const label = [
+				issue.index >= 0 ? `#${issue.index}` : null,
+				issue.type,
+				issue.eventId ? `(${issue.eventId})` : null
+			]
+				.filter(Boolean)
+				.join(' ');
+			return label ? `${label}: ${issue.reason}` : issue.reason;
+		})
+		.join('\n');
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { planCompaction } from './history-compaction';
+import type { CompactionContext } from './history-compaction';
+
+function makeContext(overrides: Partial<CompactionContext> = {}): CompactionContext {
+	return {
+		currentEventIndex: 999,
+		keepEvents: 500,
+		hasBranches: false,
+		isLinkedToPage: false,
+		isCoEditing: false,
+		...overrides
+	};
+}
+
+describe('planCompaction', () => {
+	it('should compact everything older than the kept undo steps', () => {
+		expect(planCompaction(makeContext())).toEqual({ cutoff: 500, skipReason: null });
+		expect(planCompaction(makeContext({ keepEvents: 10 })).cutoff).toBe(990);
+	});
+
+	it('should leave short logs alone', () => {
+		expect(planCompaction(makeContext({ currentEventIndex: 99 }))).toEqual({
+			cutoff: 0,
+			skipReason: 'history has no more than 500 undo steps'
+		});
+	});
+
+	it('should leave the log alone while branches share it', () => {
+		expect(planCompaction(makeContext({ hasBranches: true }))).toEqual({
+			cutoff: 0,
+			skipReason: 'the design has branches'
+		});
+	});
+
+	it('should leave the log alone while it is synced with a server page', () => {
+		expect(planCompaction(makeContext({ isLinkedToPage: true }))).toEqual({
+			cutoff: 0,
+			skipReason: 'the design is synced with a server page'
+		});
+	});
+
+	it('should leave the log alone while co-editing', () => {
+		expect(planCompaction(makeContext({ isCoEditing: true }))).toEqual({
+			cutoff: 0,
+			skipReason: 'a co-editing session is open'
+		});
+	});
+});
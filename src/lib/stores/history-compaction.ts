@@ -0,0 +1,38 @@
+/**
+ * History Compaction - Decides how much of the event log can be folded into the baseline
+ *
+ * Folded events only exist in the local baseline snapshot. Logs shared with anyone else
+ * (a synced server page, a co-editing session, or branches that merge by shared events)
+ * must keep every event, or the other side would replay them on top of the baseline.
+ */
+
+export interface CompactionContext {
+	currentEventIndex: number;
+	keepEvents: number; // Undo steps kept behind the current position
+	hasBranches: boolean;
+	isLinkedToPage: boolean; // Synced with a server page
+	isCoEditing: boolean; // A collaboration session is open
+}
+
+export interface CompactionPlan {
+	cutoff: number; // Number of events at the start of the log to compact (0 = leave the log alone)
+	skipReason: string | null; // Why nothing is compacted, shown to the user
+}
+
+// Helper: A plan that leaves the log alone
+function skip(skipReason: string): CompactionPlan {
+	return { cutoff: 0, skipReason };
+}
+
+/**
+ * How much of the log can be compacted, or why none of it can
+ */
+export function planCompaction(context: CompactionContext): CompactionPlan {
+	if (context.isCoEditing) return skip('a co-editing session is open');
+	if (context.isLinkedToPage) return skip('the design is synced with a server page');
+	if (context.hasBranches) return skip('the design has branches');
+
+	const cutoff = Math.max(0, context.currentEventIndex + 1 - context.keepEvents);
+	if (cutoff === 0) return skip(`history has no more than ${context.keepEvents} undo steps`);
+	return { cutoff, skipReason: null };
+}
@@ -0,0 +1,34 @@
+/**
+ * Snap Store - Snapping preferences for dragging and resizing
+ *
+ * - smartGuides: snap to edges/centres of siblings and the parent, equal spacing
+ * - pixelGrid: round positions and sizes to whole pixels
+ * - baselineGrid: show the baseline grid over every view (views with baseline
+ *   snapping on always show it)
+ * - rulers: show the rulers (guides dragged from them snap either way)
+ *
+ * Holding Cmd/Ctrl during a drag or resize turns snapping off temporarily.
+ */
+
+import { writable } from 'svelte/store';
+
+export interface SnapSettings {
+	smartGuides: boolean;
+	pixelGrid: boolean;
+	baselineGrid: boolean;
+	rulers: boolean;
+}
+
+export const snapSettings = writable<SnapSettings>({
+	smartGuides: true,
+	pixelGrid: true,
+	baselineGrid: false,
+	rulers: true
+});
+
+/**
+ * Whether a pointer event asks to bypass snapping
+ */
+export function isSnapBypassed(e: MouseEvent): boolean {
+	return e.metaKey || e.ctrlKey;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignEvent } from '$lib/types/events';
+import { reduceEvents, getInitialState } from './event-reducer';
+import {
+	CHECKPOINT_INTERVAL,
+	createStateCheckpoints,
+	findCheckpoint,
+	getStateAt,
+	replayEvents,
+	truncateCheckpoints
+} from './state-checkpoints';
+
+const PAGE_ID = 'page-1';
+const ELEMENT_COUNT = 20;
+
+/**
+ * Build a history of `length` events: one page, a few elements, then lots of moves
+ */
+function buildHistory(length: number): DesignEvent[] {
+	const events: DesignEvent[] = [
+		{
+			id: 'event-page',
+			type: 'CREATE_PAGE',
+			timestamp: 0,
+			payload: { pageId: PAGE_ID, name: 'Home' }
+		}
+	];
+
+	for (let i = 0; i < ELEMENT_COUNT; i++) {
+		events.push({
+			id: `event-create-${i}`,
+			type: 'CREATE_ELEMENT',
+			timestamp: events.length,
+			payload: {
+				elementId: `element-${i}`,
+				parentId: null,
+				pageId: PAGE_ID,
+				elementType: 'div',
+				position: { x: 0, y: 0 },
+				size: { width: 100, height: 100 }
+			}
+		});
+	}
+
+	while (events.length < length) {
+		const i = events.length;
+		events.push({
+			id: `event-move-${i}`,
+			type: 'MOVE_ELEMENT',
+			timestamp: i,
+			payload: {
+				elementId: `element-${i % ELEMENT_COUNT}`,
+				position: { x: i, y: i * 2 }
+			}
+		});
+	}
+
+	return events;
+}
+
+/**
+ * Load a history the way the design store does, then count the events a burst of undos replays
+ */
+function countUndoReplays(events: DesignEvent[], undoCount: number): number[] {
+	const checkpoints = createStateCheckpoints();
+	replayEvents(checkpoints, events, 0, events.length, getInitialState());
+
+	const replayed: number[] = [];
+	for (let count = events.length - 1; count >= events.length - undoCount; count--) {
+		replayed.push(count - findCheckpoint(checkpoints, count).count);
+		getStateAt(checkpoints, events, count);
+	}
+	return replayed;
+}
+
+describe('getStateAt', () => {
+	it('should match a full replay at any point in history', () => {
+		const events = buildHistory(500);
+		const checkpoints = createStateCheckpoints();
+		replayEvents(checkpoints, events, 0, events.length, getInitialState());
+
+		for (const count of [0, 1, 21, 49, 50, 51, 137, 250, 499, 500]) {
+			expect(getStateAt(checkpoints, events, count)).toEqual(
+				reduceEvents(events.slice(0, count))
+			);
+		}
+	});
+
+	it('should replay at most CHECKPOINT_INTERVAL events once history is checkpointed', () => {
+		const events = buildHistory(5000);
+		const checkpoints = createStateCheckpoints();
+		replayEvents(checkpoints, events, 0, events.length, getInitialState());
+
+		for (let count = 0; count <= events.length; count += 37) {
+			const checkpoint = findCheckpoint(checkpoints, count);
+			expect(count - checkpoint.count).toBeLessThan(CHECKPOINT_INTERVAL);
+		}
+	});
+
+	it('should checkpoint lazily when undoing past an unreplayed range', () => {
+		const events = buildHistory(1000);
+		const checkpoints = createStateCheckpoints();
+
+		// Nothing recorded yet (e.g. loaded from a snapshot) - first lookup replays and checkpoints
+		expect(getStateAt(checkpoints, events, 800)).toEqual(reduceEvents(events.slice(0, 800)));
+		expect(800 - findCheckpoint(checkpoints, 800).count).toBeLessThan(CHECKPOINT_INTERVAL);
+	});
+});
+
+describe('truncateCheckpoints', () => {
+	it('should drop checkpoints past the truncation point', () => {
+		const events = buildHistory(500);
+		const checkpoints = createStateCheckpoints();
+		replayEvents(checkpoints, events, 0, events.length, getInitialState());
+
+		truncateCheckpoints(checkpoints, 120);
+
+		expect(checkpoints.counts.every((count) => count <= 120)).toBe(true);
+		expect(checkpoints.states.size).toBe(checkpoints.counts.length);
+	});
+});
+
+describe('undo cost', () => {
+	it('should replay the same bounded number of events regardless of history length', () => {
+		const undoCount = 200;
+		const shortReplays = countUndoReplays(buildHistory(1_000), undoCount);
+		const longReplays = countUndoReplays(buildHistory(40_000), undoCount);
+
+		// A full replay per undo would replay the whole log every time
+		expect(Math.max(...longReplays)).toBeLessThan(CHECKPOINT_INTERVAL);
+		expect(longReplays).toEqual(shortReplays);
+	});
+});
@@ -0,0 +1,142 @@
+/**
+ * State Checkpoints - Bounded-cost state lookup for undo/redo
+ *
+ * Keeps a DesignState every CHECKPOINT_INTERVAL events. Rebuilding the state
+ * at any point in history starts from the nearest checkpoint at or before it,
+ * so undo/redo replays at most CHECKPOINT_INTERVAL events regardless of how
+ * long the event log is. States share structure, so checkpoints are cheap.
+ */
+
+import type { DesignEvent, DesignState } from '$lib/types/events';
+import { reduceEvent, getInitialState } from './event-reducer';
+
+/** Minimum number of events between two checkpoints */
+export const CHECKPOINT_INTERVAL = 50;
+
+export interface StateCheckpoints {
+	baseState: DesignState; // State at count 0 (initial state, or the compacted baseline)
+	counts: number[]; // Sorted event counts that have a checkpoint
+	states: Map<number, DesignState>; // Event count -> state after applying that many events
+}
+
+/**
+ * Create an empty checkpoint index
+ */
+export function createStateCheckpoints(baseState: DesignState = getInitialState()): StateCheckpoints {
+	return {
+		baseState,
+		counts: [],
+		states: new Map()
+	};
+}
+
+/**
+ * Remove every checkpoint, optionally starting from a new base state
+ */
+export function clearCheckpoints(
+	checkpoints: StateCheckpoints,
+	baseState: DesignState = getInitialState()
+): void {
+	checkpoints.baseState = baseState;
+	checkpoints.counts = [];
+	checkpoints.states.clear();
+}
+
+/**
+ * Find the index in `counts` of the greatest checkpoint count <= count (-1 if none)
+ */
+function findCheckpointIndex(checkpoints: StateCheckpoints, count: number): number {
+	let low = 0;
+	let high = checkpoints.counts.length - 1;
+	let result = -1;
+
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if (checkpoints.counts[mid] <= count) {
+			result = mid;
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Get the nearest checkpoint at or before `count`
+ * Falls back to the base state at count 0
+ */
+export function findCheckpoint(
+	checkpoints: StateCheckpoints,
+	count: number
+): { count: number; state: DesignState } {
+	const index = findCheckpointIndex(checkpoints, count);
+	if (index === -1) {
+		return { count: 0, state: checkpoints.baseState };
+	}
+
+	const checkpointCount = checkpoints.counts[index];
+	return { count: checkpointCount, state: checkpoints.states.get(checkpointCount)! };
+}
+
+/**
+ * Record the state after `count` events if the previous checkpoint is far enough behind
+ */
+export function recordCheckpoint(
+	checkpoints: StateCheckpoints,
+	count: number,
+	state: DesignState
+): void {
+	if (count <= 0 || checkpoints.states.has(count)) return;
+
+	const index = findCheckpointIndex(checkpoints, count);
+	const previousCount = index === -1 ? 0 : checkpoints.counts[index];
+	if (count - previousCount < CHECKPOINT_INTERVAL) return;
+
+	checkpoints.counts.splice(index + 1, 0, count);
+	checkpoints.states.set(count, state);
+}
+
+/**
+ * Drop checkpoints past `count` (the log was truncated after an undo)
+ */
+export function truncateCheckpoints(checkpoints: StateCheckpoints, count: number): void {
+	const index = findCheckpointIndex(checkpoints, count);
+	for (const removed of checkpoints.counts.splice(index + 1)) {
+		checkpoints.states.delete(removed);
+	}
+}
+
+/**
+ * Replay events[fromCount..toCount) on top of a base state, recording checkpoints along the way
+ */
+export function replayEvents(
+	checkpoints: StateCheckpoints,
+	events: DesignEvent[],
+	fromCount: number,
+	toCount: number,
+	baseState: DesignState
+): DesignState {
+	let state = baseState;
+
+	for (let i = fromCount; i < toCount; i++) {
+		state = reduceEvent(state, events[i]);
+		recordCheckpoint(checkpoints, i + 1, state);
+	}
+
+	return state;
+}
+
+/**
+ * Get the design state after the first `count` events
+ * Replays at most CHECKPOINT_INTERVAL events once the history has been checkpointed
+ */
+export function getStateAt(
+	checkpoints: StateCheckpoints,
+	events: DesignEvent[],
+	count: number
+): DesignState {
+	const checkpoint = findCheckpoint(checkpoints, count);
+	return replayEvents(checkpoints, events, checkpoint.count, count, checkpoint.state);
+}
@@ -0,0 +1,35 @@
+/**
+ * Tokens Store - The team's design tokens on the client
+ *
+ * Starts with the default tokens and is replaced by the team's tokens from
+ * GET /api/tokens once the editor has loaded them.
+ */
+
+import { writable, derived } from 'svelte/store';
+import { defaultTokens, type DesignTokens } from '$lib/types/tokens';
+
+export const designTokens = writable<DesignTokens>(defaultTokens);
+
+/** Baseline grid unit in px (vertical rhythm of text and boxes) */
+export const baselineGridUnit = derived(designTokens, ($tokens) => $tokens.baseline.gridUnit);
+
+/**
+ * Load the current user's team tokens (keeps the defaults when signed out or on error)
+ */
+export async function loadDesignTokens(): Promise<void> {
+	const token = localStorage.getItem('accessToken');
+	if (!token) return;
+
+	try {
+		const response = await fetch('/api/tokens', {
+			headers: { Authorization: `Bearer ${token}` }
+		});
+
+		if (!response.ok) throw new Error('Failed to load design tokens');
+
+		const data = await response.json();
+		designTokens.set(data.tokens);
+	} catch (error) {
+		console.error('Failed to load design tokens:', error);
+	}
+}
@@ -0,0 +1,129 @@
+/**
+ * Collaboration Protocol Types
+ * Messages exchanged between editors and the collaboration server
+ *
+ * The server is the sequencer: it commits transactions one at a time, stamps
+ * them with a sequence number, server timestamp and author, and relays them to
+ * every editor of the page (the author receives its own commit as the ack).
+ * Every editor applies commits in sequence order, so all of them converge.
+ */
+
+import type { DesignEvent } from './events';
+
+/** Port built servers accept collaboration connections on (PUBLIC_COLLAB_PORT overrides it) */
+export const DEFAULT_COLLAB_PORT = 5174;
+
+export interface CollabUser {
+	id: string;
+	name: string;
+}
+
+/**
+ * Where an editor is and what it has selected
+ * Presence is relayed as-is and never persisted
+ */
+export interface Presence {
+	cursor: { x: number; y: number } | null; // Canvas space, null when off-canvas
+	designPageId: string | null; // Page of the design the editor is viewing
+	selectedElementIds: string[];
+}
+
+export interface RemotePresence extends Presence {
+	clientId: string;
+	user: CollabUser;
+}
+
+// ============================================================================
+// Client -> Server
+// ============================================================================
+
+export interface JoinMessage {
+	type: 'join';
+	pageId: string;
+	// Rejoining after a dropped connection: the confirmed log the editor already has
+	resume?: { seq: number; lastEventId: string };
+}
+
+export interface SubmitMessage {
+	type: 'submit';
+	transactionId: string; // One undo step - committed or rejected as a whole
+	events: DesignEvent[];
+}
+
+export interface PresenceMessage {
+	type: 'presence';
+	presence: Presence;
+}
+
+export type CollabClientMessage = JoinMessage | SubmitMessage | PresenceMessage;
+
+// ============================================================================
+// Server -> Client
+// ============================================================================
+
+export interface WelcomeMessage {
+	type: 'welcome';
+	clientId: string;
+	userId: string; // The user this connection edits as
+	seq: number; // Number of events in the page log
+	resumed: boolean; // `events` only holds the commits after the editor's `resume` position
+	events: DesignEvent[]; // The whole page log (or the missed commits), in commit order
+	presence: RemotePresence[]; // Other editors already in the session
+}
+
+export interface CommitMessage {
+	type: 'commit';
+	seq: number; // Number of events in the page log after this commit
+	transactionId: string;
+	userId: string;
+	clientId: string; // Connection that submitted the transaction
+	events: DesignEvent[]; // Stamped with server timestamps and userId
+}
+
+export interface RejectMessage {
+	type: 'reject';
+	transactionId: string;
+	reason: string;
+}
+
+export interface PresenceUpdateMessage {
+	type: 'presence';
+	presence: RemotePresence;
+}
+
+export interface LeaveMessage {
+	type: 'leave';
+	clientId: string;
+}
+
+export interface CollabErrorMessage {
+	type: 'error';
+	message: string;
+}
+
+export type CollabServerMessage =
+	| WelcomeMessage
+	| CommitMessage
+	| RejectMessage
+	| PresenceUpdateMessage
+	| LeaveMessage
+	| CollabErrorMessage;
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+export type CollabConnectionStatus = 'connected' | 'reconnecting';
+
+/**
+ * A connection from an editor to the collaboration server
+ * Implemented over WebSocket in the browser and in-process in tests
+ */
+export interface CollabTransport {
+	send(message: CollabClientMessage): void;
+	onMessage(handler: (message: CollabServerMessage) => void): void;
+	// Reports a dropped connection ('reconnecting') and its return ('connected')
+	// Messages sent while it is down are lost; transports that can't drop leave this out
+	onConnectionChange?(handler: (status: CollabConnectionStatus) => void): void;
+	close(): void;
+}
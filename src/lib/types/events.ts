@@ -23,6 +23,8 @@ export type EventType =
 	| 'TOGGLE_VIEW'
 	| 'TOGGLE_VISIBILITY'
 	| 'TOGGLE_LOCK'
+	| 'TOGGLE_BASELINE_SNAP'
+	| 'SET_LAYOUT_GRID'
 	| 'RENAME_ELEMENT'
 	| 'GROUP_MOVE_ELEMENTS'
 	| 'GROUP_RESIZE_ELEMENTS'
@@ -33,6 +35,9 @@ export type EventType =
 	// Style operations
 	| 'UPDATE_STYLES'
 	| 'GROUP_UPDATE_STYLES'
+	| 'GROUP_UPDATE_TYPOGRAPHY'
+	| 'GROUP_UPDATE_SPACING'
+	| 'GROUP_UPDATE_AUTO_LAYOUT'
 	| 'UPDATE_TYPOGRAPHY'
 	| 'UPDATE_SPACING'
 	| 'UPDATE_AUTO_LAYOUT'
@@ -45,13 +50,27 @@ export type EventType =
 	| 'CREATE_COMPONENT'
 	| 'UPDATE_COMPONENT'
 	| 'DELETE_COMPONENT'
-	| 'INSTANCE_COMPONENT';
+	| 'INSTANCE_COMPONENT'
+	// Guide operations
+	| 'CREATE_GUIDE'
+	| 'MOVE_GUIDE'
+	| 'DELETE_GUIDE'
+	| 'TOGGLE_GUIDE_LOCK';
+
+/**
+ * Schema version stamped on new events
+ * Bump it when an event shape changes, and register an upcaster in event-upcasters.ts
+ * that converts events from the previous version
+ */
+export const CURRENT_EVENT_SCHEMA_VERSION = 2;
 
 export interface BaseEvent {
 	id: string; // UUID for the event
 	type: EventType;
 	timestamp: number; // Unix timestamp in milliseconds
+	schemaVersion?: number; // Shape version of the event (missing on events recorded before versioning)
 	userId?: string; // User who performed the action (for collaboration)
+	transactionId?: string; // Groups events into a single undo/redo step (persisted with the event)
 }
 
 // ============================================================================
@@ -82,6 +101,7 @@ export interface UpdateElementEvent extends BaseEvent {
 			href?: string;
 			src?: string;
 		};
+		unset?: Array<'content' | 'alt' | 'href' | 'src'>; // Keys removed from the element
 	};
 }
 
@@ -104,7 +124,7 @@ export interface MoveElementEvent extends BaseEvent {
 	payload: {
 		elementId: string;
 		position: Position;
-		snapToBaseline?: boolean;
+		snapToBaseline?: boolean; // Position was snapped to the view's baseline grid when the move was made
 	};
 }
 
@@ -149,6 +169,7 @@ export interface ToggleViewEvent extends BaseEvent {
 		isView: boolean;
 		viewName?: string;
 		breakpointWidth?: number;
+		unset?: Array<'viewName' | 'breakpointWidth'>; // Fields cleared (left out fields keep their value)
 	};
 }
 
@@ -168,6 +189,22 @@ export interface ToggleLockEvent extends BaseEvent {
 	};
 }
 
+export interface ToggleBaselineSnapEvent extends BaseEvent {
+	type: 'TOGGLE_BASELINE_SNAP';
+	payload: {
+		elementId: string; // View
+		enabled: boolean;
+	};
+}
+
+export interface SetLayoutGridEvent extends BaseEvent {
+	type: 'SET_LAYOUT_GRID';
+	payload: {
+		elementId: string; // View
+		layoutGrid: LayoutGrid | null; // null removes the grid
+	};
+}
+
 export interface RenameElementEvent extends BaseEvent {
 	type: 'RENAME_ELEMENT';
 	payload: {
@@ -218,6 +255,36 @@ export interface GroupUpdateStylesEvent extends BaseEvent {
 	};
 }
 
+export interface GroupUpdateTypographyEvent extends BaseEvent {
+	type: 'GROUP_UPDATE_TYPOGRAPHY';
+	payload: {
+		elements: Array<{
+			elementId: string;
+			typography: Partial<TypographyStyle>;
+		}>;
+	};
+}
+
+export interface GroupUpdateSpacingEvent extends BaseEvent {
+	type: 'GROUP_UPDATE_SPACING';
+	payload: {
+		elements: Array<{
+			elementId: string;
+			spacing: Partial<SpacingStyle>;
+		}>;
+	};
+}
+
+export interface GroupUpdateAutoLayoutEvent extends BaseEvent {
+	type: 'GROUP_UPDATE_AUTO_LAYOUT';
+	payload: {
+		elements: Array<{
+			elementId: string;
+			autoLayout: Partial<AutoLayoutStyle>;
+		}>;
+	};
+}
+
 // ============================================================================
 // Group Events
 // ============================================================================
@@ -246,6 +313,7 @@ export interface UpdateStylesEvent extends BaseEvent {
 	payload: {
 		elementId: string;
 		styles: Partial<ElementStyles>;
+		unset?: Array<keyof ElementStyles>; // Keys removed after merging `styles`
 	};
 }
 
@@ -254,6 +322,7 @@ export interface UpdateTypographyEvent extends BaseEvent {
 	payload: {
 		elementId: string;
 		typography: Partial<TypographyStyle>;
+		unset?: Array<keyof TypographyStyle>;
 	};
 }
 
@@ -262,6 +331,7 @@ export interface UpdateSpacingEvent extends BaseEvent {
 	payload: {
 		elementId: string;
 		spacing: Partial<SpacingStyle>;
+		unset?: Array<keyof SpacingStyle>;
 	};
 }
 
@@ -270,6 +340,7 @@ export interface UpdateAutoLayoutEvent extends BaseEvent {
 	payload: {
 		elementId: string;
 		autoLayout: Partial<AutoLayoutStyle>;
+		unset?: Array<keyof AutoLayoutStyle>;
 	};
 }
 
@@ -355,6 +426,45 @@ export interface InstanceComponentEvent extends BaseEvent {
 	};
 }
 
+// ============================================================================
+// Guide Events
+// ============================================================================
+
+export interface CreateGuideEvent extends BaseEvent {
+	type: 'CREATE_GUIDE';
+	payload: {
+		guideId: string;
+		pageId: string;
+		viewId: string | null; // View the guide belongs to (null: the page)
+		axis: GuideAxis;
+		position: number;
+		locked?: boolean;
+	};
+}
+
+export interface MoveGuideEvent extends BaseEvent {
+	type: 'MOVE_GUIDE';
+	payload: {
+		guideId: string;
+		position: number;
+	};
+}
+
+export interface DeleteGuideEvent extends BaseEvent {
+	type: 'DELETE_GUIDE';
+	payload: {
+		guideId: string;
+	};
+}
+
+export interface ToggleGuideLockEvent extends BaseEvent {
+	type: 'TOGGLE_GUIDE_LOCK';
+	payload: {
+		guideId: string;
+		locked: boolean;
+	};
+}
+
 // ============================================================================
 // Union Type
 // ============================================================================
@@ -372,11 +482,16 @@ export type DesignEvent =
 	| ToggleViewEvent
 	| ToggleVisibilityEvent
 	| ToggleLockEvent
+	| ToggleBaselineSnapEvent
+	| SetLayoutGridEvent
 	| RenameElementEvent
 	| GroupMoveElementsEvent
 	| GroupResizeElementsEvent
 	| GroupRotateElementsEvent
 	| GroupUpdateStylesEvent
+	| GroupUpdateTypographyEvent
+	| GroupUpdateSpacingEvent
+	| GroupUpdateAutoLayoutEvent
 	| GroupElementsEvent
 	| UngroupElementsEvent
 	| UpdateStylesEvent
@@ -390,7 +505,11 @@ export type DesignEvent =
 	| CreateComponentEvent
 	| UpdateComponentEvent
 	| DeleteComponentEvent
-	| InstanceComponentEvent;
+	| InstanceComponentEvent
+	| CreateGuideEvent
+	| MoveGuideEvent
+	| DeleteGuideEvent
+	| ToggleGuideLockEvent;
 
 // ============================================================================
 // Design State Types (computed from events)
@@ -484,6 +603,9 @@ export interface TypographyStyle {
 	whiteSpace?: 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line'; // White space handling
 	wordBreak?: 'normal' | 'break-all' | 'keep-all' | 'break-word'; // Word breaking behavior
 	hyphens?: 'none' | 'manual' | 'auto'; // Hyphenation
+
+	// Baseline alignment (p/h1-h6)
+	baselineGrid?: number; // Grid unit (px) the baselines are aligned to, 0 when not aligned
 }
 
 export interface SpacingStyle {
@@ -497,6 +619,15 @@ export interface SpacingStyle {
 	paddingLeft: string;
 }
 
+export interface LayoutGrid {
+	columns: number; // Column count
+	gutter: number; // Space between columns (px)
+	margin: number; // Space between the view's edges and the outer columns (px, fluid only)
+	type: 'fluid' | 'fixed'; // Fluid columns stretch with the view, fixed columns are centred
+	columnWidth: number; // Column width (px, fixed only)
+	visible: boolean; // Draw the columns (they are snap targets either way)
+}
+
 export interface AutoLayoutStyle {
 	enabled: boolean; // Toggle between freeform (false) and auto layout (true)
 	direction: 'row' | 'column' | 'row-wrap'; // Flex direction
@@ -534,6 +665,8 @@ export interface Element {
 	isView?: boolean; // Whether this div is a view (page/breakpoint)
 	viewName?: string; // Name of the view if isView is true
 	breakpointWidth?: number; // Width of the view if isView is true
+	baselineSnap?: boolean; // View only: snap elements inside it to the baseline grid
+	layoutGrid?: LayoutGrid | null; // View only: column grid
 }
 
 export interface Page {
@@ -555,11 +688,24 @@ export interface Component {
 	elementIds: string[]; // Element IDs that make up this component
 }
 
+/** 'x': vertical guide at x = position, 'y': horizontal guide at y = position */
+export type GuideAxis = 'x' | 'y';
+
+export interface Guide {
+	id: string;
+	pageId: string;
+	viewId: string | null; // View guides move with the view: position is relative to its top-left
+	axis: GuideAxis;
+	position: number; // Canvas units (page guides: canvas coordinates)
+	locked: boolean; // Locked guides can't be moved or deleted
+}
+
 export interface DesignState {
 	pages: Record<string, Page>;
 	elements: Record<string, Element>;
 	groups: Record<string, Group>;
 	components: Record<string, Component>;
+	guides: Record<string, Guide>; // Ruler guides of all pages
 	pageOrder: string[];
 	currentPageId: string | null;
 	selectedElementIds: string[];
@@ -569,10 +715,48 @@ export interface DesignState {
 // Event Store Types
 // ============================================================================
 
+export interface DesignProject {
+	id: string; // Also names the project's IndexedDB database
+	name: string;
+	pageId?: string | null; // Server page the event log is synced with (null = local only)
+	syncCursor?: number; // Server sequence number of the newest event already pulled
+	branchId?: string; // Checked-out branch (undefined = main)
+	createdAt: number;
+	updatedAt: number;
+}
+
+/**
+ * A named point in the history (e.g. "Client review v2"), stored next to the event log
+ */
+export interface NamedCheckpoint {
+	id: string;
+	name: string;
+	eventId: string | null; // Last event included (null if the log was empty)
+	eventCount: number; // Position in the log when it was created
+	state: DesignState; // Design state at that point - kept so undo and compaction can't lose it
+	createdAt: number;
+}
+
+/**
+ * An alternative line of history for exploring a design direction
+ * The checked-out branch's log lives in the events store; the others are kept here
+ */
+export interface DesignBranch {
+	id: string;
+	name: string;
+	parentBranchId: string | null; // Branch it was forked from (null for main)
+	forkEventId: string | null; // Last event shared with the parent when forked
+	events: DesignEvent[]; // The branch's log while another branch is checked out
+	baseline: EventStoreSnapshot | null; // Compacted history the log starts from
+	createdAt: number;
+	updatedAt: number;
+	mergedAt?: number; // Last time it was merged into another branch
+}
+
 export interface EventStoreSnapshot {
-	version: number;
-	events: DesignEvent[];
-	lastEventId: string | null;
+	version: number; // Number of events folded into this snapshot (also the IndexedDB key)
+	state: DesignState; // Design state after applying the first `version` events
+	lastEventId: string | null; // ID of the last folded event, used to validate against the log
 	createdAt: number;
 	updatedAt: number;
 }
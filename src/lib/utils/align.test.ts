@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { alignBounds, distributeBounds } from './align';
+
+const boxes = [
+	{ x: 10, y: 0, width: 20, height: 10 },
+	{ x: 50, y: 30, width: 40, height: 20 }
+];
+const target = { x: 0, y: 0, width: 100, height: 60 };
+
+describe('alignBounds', () => {
+	it('should align left and right edges to the target', () => {
+		expect(alignBounds(boxes, 'left', target)).toEqual([
+			{ x: -10, y: 0 },
+			{ x: -50, y: 0 }
+		]);
+		expect(alignBounds(boxes, 'right', target)).toEqual([
+			{ x: 70, y: 0 },
+			{ x: 10, y: 0 }
+		]);
+	});
+
+	it('should centre boxes on the target', () => {
+		expect(alignBounds(boxes, 'center', target)).toEqual([
+			{ x: 30, y: 0 },
+			{ x: -20, y: 0 }
+		]);
+		expect(alignBounds(boxes, 'middle', target)).toEqual([
+			{ x: 0, y: 25 },
+			{ x: 0, y: -10 }
+		]);
+	});
+
+	it('should align top and bottom edges to the target', () => {
+		expect(alignBounds(boxes, 'top', target)).toEqual([
+			{ x: 0, y: 0 },
+			{ x: 0, y: -30 }
+		]);
+		expect(alignBounds(boxes, 'bottom', target)).toEqual([
+			{ x: 0, y: 50 },
+			{ x: 0, y: 10 }
+		]);
+	});
+});
+
+describe('distributeBounds', () => {
+	it('should space boxes evenly between the first and last', () => {
+		const items = [
+			{ x: 100, y: 0, width: 20, height: 10 },
+			{ x: 0, y: 0, width: 10, height: 10 },
+			{ x: 30, y: 0, width: 30, height: 10 }
+		];
+
+		// Span 0..120, 60 occupied, so gaps of 30: the middle box moves to x = 40
+		expect(distributeBounds(items, 'x')).toEqual([
+			{ x: 0, y: 0 },
+			{ x: 0, y: 0 },
+			{ x: 10, y: 0 }
+		]);
+	});
+
+	it('should leave fewer than three boxes in place', () => {
+		expect(distributeBounds(boxes, 'y')).toEqual([
+			{ x: 0, y: 0 },
+			{ x: 0, y: 0 }
+		]);
+	});
+});
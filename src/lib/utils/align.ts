@@ -0,0 +1,85 @@
+/**
+ * Align & distribute - Offsets that line up bounds or space them evenly
+ *
+ * Works on visual bounds (rotated elements by the box around their corners) and
+ * returns, for each input, the offset to move it by.
+ */
+
+import type { Axis, Bounds } from './smart-guides';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/** What to align to: the box around the selection, or the elements' parent */
+export type AlignTarget = 'selection' | 'parent';
+
+export interface Offset {
+	x: number;
+	y: number;
+}
+
+const ALIGNMENT_AXIS: Record<Alignment, Axis> = {
+	left: 'x',
+	center: 'x',
+	right: 'x',
+	top: 'y',
+	middle: 'y',
+	bottom: 'y'
+};
+
+function start(bounds: Bounds, axis: Axis): number {
+	return axis === 'x' ? bounds.x : bounds.y;
+}
+
+function size(bounds: Bounds, axis: Axis): number {
+	return axis === 'x' ? bounds.width : bounds.height;
+}
+
+function toOffset(axis: Axis, delta: number): Offset {
+	return axis === 'x' ? { x: delta, y: 0 } : { x: 0, y: delta };
+}
+
+/**
+ * Offsets that align every box to an edge or the centre of the target
+ */
+export function alignBounds(items: Bounds[], alignment: Alignment, target: Bounds): Offset[] {
+	const axis = ALIGNMENT_AXIS[alignment];
+
+	return items.map((bounds) => {
+		let delta: number;
+		if (alignment === 'left' || alignment === 'top') {
+			delta = start(target, axis) - start(bounds, axis);
+		} else if (alignment === 'right' || alignment === 'bottom') {
+			delta = start(target, axis) + size(target, axis) - (start(bounds, axis) + size(bounds, axis));
+		} else {
+			delta = start(target, axis) + size(target, axis) / 2 - (start(bounds, axis) + size(bounds, axis) / 2);
+		}
+		return toOffset(axis, delta);
+	});
+}
+
+/**
+ * Offsets that space the boxes evenly along an axis, keeping the first and last in place
+ * (ordered by position; fewer than three boxes stay where they are)
+ */
+export function distributeBounds(items: Bounds[], axis: Axis): Offset[] {
+	const offsets = items.map(() => toOffset(axis, 0));
+	if (items.length < 3) return offsets;
+
+	const order = items
+		.map((bounds, index) => ({ bounds, index }))
+		.sort((a, b) => start(a.bounds, axis) - start(b.bounds, axis));
+
+	const first = order[0].bounds;
+	const last = order[order.length - 1].bounds;
+	const span = start(last, axis) + size(last, axis) - start(first, axis);
+	const occupied = order.reduce((total, { bounds }) => total + size(bounds, axis), 0);
+	const gap = (span - occupied) / (order.length - 1);
+
+	let cursor = start(first, axis);
+	for (const { bounds, index } of order) {
+		offsets[index] = toOffset(axis, cursor - start(bounds, axis));
+		cursor += size(bounds, axis) + gap;
+	}
+
+	return offsets;
+}
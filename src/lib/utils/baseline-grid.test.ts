@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignState, Element } from '$lib/types/events';
+import { makeElement, makeState } from '$tests/state';
+import {
+	snapPositionToBaseline,
+	snapSizeToBaseline,
+	isOffRhythm,
+	getFirstBaselineOffset,
+	getBaselineAlignment,
+	getBaselineAlignmentCss
+} from './baseline-grid';
+
+// A view on page-1 holding the elements
+function makeViewState(baselineSnap: boolean, children: Element[]): DesignState {
+	const view = makeElement('view', {
+		isView: true,
+		baselineSnap,
+		position: { x: 100, y: 50 },
+		size: { width: 400, height: 800 },
+		children: children.map((child) => child.id)
+	});
+
+	return makeState([view, ...children]);
+}
+
+describe('baseline grid snapping', () => {
+	it('should snap box tops and heights to whole grid units', () => {
+		const box = makeElement('box', { parentId: 'view' });
+		const state = makeViewState(true, [box]);
+
+		expect(snapPositionToBaseline(state, box, { x: 5, y: 13 }, 8)).toEqual({ x: 5, y: 16 });
+		expect(snapSizeToBaseline(state, box, { width: 50, height: 30 }, 8)).toEqual({ width: 50, height: 32 });
+	});
+
+	it('should put the first baseline of text on the grid', () => {
+		const text = makeElement('text', {
+			type: 'p',
+			parentId: 'view',
+			typography: { fontSize: '16px', lineHeight: '24px' }
+		});
+		const state = makeViewState(true, [text]);
+
+		const snapped = snapPositionToBaseline(state, text, { x: 0, y: 10 }, 8);
+
+		expect(snapped.y + getFirstBaselineOffset(text)).toBeCloseTo(24);
+		expect(isOffRhythm(state, { ...text, position: snapped }, 8)).toBe(false);
+		expect(isOffRhythm(state, { ...text, position: { x: 0, y: 10 } }, 8)).toBe(true);
+	});
+
+	it('should leave elements alone when the view has snapping off', () => {
+		const box = makeElement('box', { parentId: 'view', position: { x: 0, y: 13 } });
+		const state = makeViewState(false, [box]);
+		const position = { x: 0, y: 13 };
+
+		expect(snapPositionToBaseline(state, box, position, 8)).toBe(position);
+		expect(isOffRhythm(state, box, 8)).toBe(false);
+	});
+});
+
+describe('baseline alignment', () => {
+	it('should place the first baseline from the font metrics', () => {
+		// Arial: ascent 0.905, descent 0.212 - 20px text on a 30px line
+		const text = makeElement('text', {
+			type: 'p',
+			typography: { fontFamily: 'Arial, sans-serif', fontSize: '20px', lineHeight: '30px' }
+		});
+
+		// Half of (30 - 22.34) leading, then the 18.1px ascent
+		expect(getFirstBaselineOffset(text)).toBeCloseTo(21.93, 2);
+	});
+
+	it('should round the line height to the grid and pad the first baseline onto it', () => {
+		const heading = makeElement('heading', {
+			type: 'h2',
+			typography: { fontFamily: 'Arial', fontSize: '20px', lineHeight: '1.5', baselineGrid: 8 },
+			spacing: { paddingBottom: '4px' }
+		});
+
+		const alignment = getBaselineAlignment(heading);
+
+		expect(alignment?.lineHeight).toBe(32);
+		expect(getFirstBaselineOffset(heading) % 8).toBeCloseTo(0, 1);
+		expect(((alignment?.paddingTop ?? 0) + (alignment?.paddingBottom ?? 0)) % 8).toBeCloseTo(0, 1);
+		expect(getBaselineAlignmentCss(heading)).toEqual([
+			'line-height: 32px',
+			`padding-top: ${alignment?.paddingTop}px`,
+			`padding-bottom: ${alignment?.paddingBottom}px`
+		]);
+	});
+
+	it('should only align paragraphs and headings that opted in', () => {
+		const typography = { fontSize: '16px', baselineGrid: 8 };
+
+		expect(getBaselineAlignment(makeElement('span', { type: 'span', typography }))).toBeNull();
+		expect(getBaselineAlignment(makeElement('p', { type: 'p', typography: { ...typography, baselineGrid: 0 } }))).toBeNull();
+		expect(getBaselineAlignmentCss(makeElement('div'))).toEqual([]);
+	});
+});
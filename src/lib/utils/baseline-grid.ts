@@ -0,0 +1,307 @@
+/**
+ * Baseline grid - Vertical rhythm of elements inside a view
+ *
+ * The rhythm starts at the top edge of the view. An element is on the grid when
+ * its top (for text: its first baseline) is a whole number of grid units below
+ * the view's top, and - for boxes - its height is a whole number of units.
+ *
+ * Elements positioned by auto layout, and rotated elements (or elements inside
+ * rotated parents), don't follow the rhythm.
+ *
+ * Paragraphs and headings can also align all their baselines to a grid: the
+ * first baseline comes from the font's metrics, size and line height, and the
+ * compensating padding is part of the element's CSS (see getBaselineAlignment).
+ */
+
+import type { DesignState, Element, Position, Size } from '$lib/types/events';
+import { getAbsoluteElementBounds } from './viewport-culling';
+import { roundToGrid } from './smart-guides';
+
+/** The parts of an element the rhythm depends on (also fits elements not created yet) */
+export type RhythmSubject = Pick<
+	Element,
+	'type' | 'parentId' | 'pageId' | 'position' | 'size' | 'rotation' | 'typography' | 'spacing' | 'autoLayout'
+> & { isView?: boolean };
+
+export const TEXT_ELEMENT_TYPES: Element['type'][] = [
+	'p',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'span',
+	'a',
+	'label',
+	'button'
+];
+
+/** Text that can align its baselines to the grid (typography.baselineGrid) */
+export const BASELINE_ALIGNABLE_TYPES: Element['type'][] = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+/** Vertical font metrics as a share of the font size (the font's ascender/descender over units per em) */
+export interface FontMetrics {
+	ascent: number;
+	descent: number;
+}
+
+const FONT_METRICS: Record<string, FontMetrics> = {
+	arial: { ascent: 0.905, descent: 0.212 },
+	helvetica: { ascent: 0.905, descent: 0.212 },
+	'times new roman': { ascent: 0.891, descent: 0.216 },
+	georgia: { ascent: 0.917, descent: 0.219 },
+	'courier new': { ascent: 0.833, descent: 0.3 },
+	inter: { ascent: 0.969, descent: 0.242 },
+	roboto: { ascent: 0.928, descent: 0.244 },
+	'open sans': { ascent: 1.069, descent: 0.293 },
+	lato: { ascent: 0.987, descent: 0.213 },
+	montserrat: { ascent: 0.968, descent: 0.251 },
+	'playfair display': { ascent: 1.082, descent: 0.251 },
+	merriweather: { ascent: 0.984, descent: 0.273 },
+	serif: { ascent: 0.891, descent: 0.216 },
+	monospace: { ascent: 0.833, descent: 0.3 }
+};
+
+// Generic fallback ('system-ui', 'sans-serif' and unknown fonts)
+const DEFAULT_FONT_METRICS: FontMetrics = { ascent: 0.905, descent: 0.212 };
+
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_LINE_HEIGHT = 1.2; // 'normal'
+const TOLERANCE = 0.01;
+
+export function isTextElement(element: Pick<Element, 'type'>): boolean {
+	return TEXT_ELEMENT_TYPES.includes(element.type);
+}
+
+function parsePx(value: string | undefined, fallback: number): number {
+	const parsed = parseFloat(value ?? '');
+	return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/** Positive remainder, with values within the tolerance of a whole unit counted as 0 */
+function remainder(value: number, unit: number): number {
+	const rest = ((value % unit) + unit) % unit;
+	return rest < TOLERANCE || rest > unit - TOLERANCE ? 0 : rest;
+}
+
+/**
+ * Metrics of the first font in a font-family stack that we know
+ */
+export function getFontMetrics(fontFamily: string | undefined): FontMetrics {
+	for (const family of (fontFamily ?? '').split(',')) {
+		const name = family.trim().replace(/^["']|["']$/g, '').toLowerCase();
+		if (FONT_METRICS[name]) return FONT_METRICS[name];
+	}
+	return DEFAULT_FONT_METRICS;
+}
+
+/**
+ * Line height in px ('24px', unitless '1.5', '1.5em', '150%' or 'normal')
+ */
+export function resolveLineHeight(lineHeight: string | undefined, fontSize: number): number {
+	if (!lineHeight || lineHeight === 'normal') return fontSize * DEFAULT_LINE_HEIGHT;
+	const value = parseFloat(lineHeight);
+	if (!Number.isFinite(value)) return fontSize * DEFAULT_LINE_HEIGHT;
+	if (lineHeight.endsWith('px')) return value;
+	if (lineHeight.endsWith('%')) return (fontSize * value) / 100;
+	return fontSize * value; // Unitless or em
+}
+
+/**
+ * Distance from the top of a line box to its baseline
+ * The glyphs' content area (ascent + descent) is centred in the line: half the leading sits above it
+ */
+export function getBaselineInLine(fontSize: number, lineHeight: number, metrics: FontMetrics): number {
+	const contentHeight = (metrics.ascent + metrics.descent) * fontSize;
+	return (lineHeight - contentHeight) / 2 + metrics.ascent * fontSize;
+}
+
+/** Line height and padding (px) that put every baseline of a text element on its grid */
+export interface BaselineAlignment {
+	gridUnit: number;
+	lineHeight: number;
+	paddingTop: number;
+	paddingBottom: number;
+}
+
+/**
+ * Baseline alignment of a p/h1-h6 element with typography.baselineGrid set (null otherwise)
+ *
+ * The line height rounds to whole grid units so every following baseline stays on the grid,
+ * padding-top grows until the first baseline reaches the next grid line, and padding-bottom
+ * grows so the element's height stays a whole number of units.
+ */
+export function getBaselineAlignment(element: RhythmSubject): BaselineAlignment | null {
+	const gridUnit = element.typography?.baselineGrid ?? 0;
+	if (!BASELINE_ALIGNABLE_TYPES.includes(element.type) || !(gridUnit > 0)) return null;
+
+	const fontSize = parsePx(element.typography?.fontSize, DEFAULT_FONT_SIZE);
+	const metrics = getFontMetrics(element.typography?.fontFamily);
+	const lineHeight = Math.max(
+		gridUnit,
+		roundToGrid(resolveLineHeight(element.typography?.lineHeight, fontSize), gridUnit)
+	);
+	const basePaddingTop = parsePx(element.spacing?.paddingTop, 0);
+	const basePaddingBottom = parsePx(element.spacing?.paddingBottom, 0);
+
+	const firstBaseline = basePaddingTop + getBaselineInLine(fontSize, lineHeight, metrics);
+	const paddingTop = basePaddingTop + remainder(-firstBaseline, gridUnit);
+	const paddingBottom = basePaddingBottom + remainder(-(paddingTop + basePaddingBottom), gridUnit);
+
+	return {
+		gridUnit,
+		lineHeight,
+		paddingTop: Math.round(paddingTop * 100) / 100,
+		paddingBottom: Math.round(paddingBottom * 100) / 100
+	};
+}
+
+/**
+ * CSS declarations for an element's baseline alignment (empty when it isn't aligned)
+ * They come after the element's own line-height and padding, which they override
+ */
+export function getBaselineAlignmentCss(element: RhythmSubject): string[] {
+	const alignment = getBaselineAlignment(element);
+	if (!alignment) return [];
+
+	return [
+		`line-height: ${alignment.lineHeight}px`,
+		`padding-top: ${alignment.paddingTop}px`,
+		`padding-bottom: ${alignment.paddingBottom}px`
+	];
+}
+
+/**
+ * Distance from the top of a text element to its first baseline (0 for other elements)
+ */
+export function getFirstBaselineOffset(element: RhythmSubject): number {
+	if (!isTextElement(element)) return 0;
+
+	const fontSize = parsePx(element.typography?.fontSize, DEFAULT_FONT_SIZE);
+	const metrics = getFontMetrics(element.typography?.fontFamily);
+	const alignment = getBaselineAlignment(element);
+	if (alignment) {
+		return alignment.paddingTop + getBaselineInLine(fontSize, alignment.lineHeight, metrics);
+	}
+
+	const lineHeight = resolveLineHeight(element.typography?.lineHeight, fontSize);
+	return parsePx(element.spacing?.paddingTop, 0) + getBaselineInLine(fontSize, lineHeight, metrics);
+}
+
+/**
+ * The view an element sits in: its view ancestor, or for root elements the view under its top-left
+ */
+export function findBaselineView(state: DesignState, element: RhythmSubject): Element | null {
+	if (element.isView) return null;
+
+	let parentId = element.parentId;
+	while (parentId) {
+		const parent = state.elements[parentId];
+		if (!parent) return null;
+		if (parent.isView) return parent;
+		parentId = parent.parentId;
+	}
+
+	const rootIds = state.pages[element.pageId]?.canvasElements ?? [];
+	for (const id of rootIds) {
+		const view = state.elements[id];
+		if (!view?.isView) continue;
+		const { position, size } = view;
+		if (
+			element.position.x >= position.x &&
+			element.position.x <= position.x + size.width &&
+			element.position.y >= position.y &&
+			element.position.y <= position.y + size.height
+		) {
+			return view;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Whether the element is free to be placed on the rhythm (not in auto layout, not rotated)
+ */
+function followsRhythm(state: DesignState, element: RhythmSubject): boolean {
+	if (element.rotation) return false;
+
+	const parent = element.parentId ? state.elements[element.parentId] : null;
+	if (parent?.autoLayout?.enabled && !element.autoLayout?.ignoreAutoLayout) return false;
+
+	let ancestorId = element.parentId;
+	while (ancestorId) {
+		const ancestor = state.elements[ancestorId];
+		if (!ancestor) break;
+		if (ancestor.rotation) return false;
+		ancestorId = ancestor.parentId;
+	}
+
+	return true;
+}
+
+/**
+ * The view whose baseline grid applies to the element, if snapping is on there
+ */
+export function getSnappingView(state: DesignState, element: RhythmSubject): Element | null {
+	const view = findBaselineView(state, element);
+	return view?.baselineSnap && followsRhythm(state, element) ? view : null;
+}
+
+/**
+ * Distance from the view's top to the element's rhythm line (top, or first baseline for text)
+ */
+function getRhythmTop(state: DesignState, element: RhythmSubject, view: Element): number {
+	const parent = element.parentId ? state.elements[element.parentId] : null;
+	const parentTop = parent ? getAbsoluteElementBounds(parent, state.elements).y : 0;
+	const viewTop = getAbsoluteElementBounds(view, state.elements).y;
+	return parentTop + element.position.y + getFirstBaselineOffset(element) - viewTop;
+}
+
+/**
+ * Move the element's top (or first baseline) onto the grid
+ * Returns the same position object when snapping doesn't apply
+ */
+export function snapPositionToBaseline(
+	state: DesignState,
+	element: RhythmSubject,
+	position: Position,
+	gridUnit: number
+): Position {
+	const subject = { ...element, position };
+	const view = getSnappingView(state, subject);
+	if (!view || gridUnit <= 0) return position;
+
+	const rhythmTop = getRhythmTop(state, subject, view);
+	return { x: position.x, y: position.y + roundToGrid(rhythmTop, gridUnit) - rhythmTop };
+}
+
+/**
+ * Round a box's height to whole grid units (text heights follow their line height)
+ * Returns the same size object when snapping doesn't apply
+ */
+export function snapSizeToBaseline(
+	state: DesignState,
+	element: RhythmSubject,
+	size: Size,
+	gridUnit: number
+): Size {
+	if (isTextElement(element) || gridUnit <= 0 || !getSnappingView(state, element)) return size;
+	return { width: size.width, height: Math.max(gridUnit, roundToGrid(size.height, gridUnit)) };
+}
+
+function isOnGrid(value: number, gridUnit: number): boolean {
+	return Math.abs(value - roundToGrid(value, gridUnit)) < TOLERANCE;
+}
+
+/**
+ * Whether an element in a snapping view is off the vertical rhythm
+ */
+export function isOffRhythm(state: DesignState, element: Element, gridUnit: number): boolean {
+	const view = getSnappingView(state, element);
+	if (!view || gridUnit <= 0) return false;
+
+	if (!isOnGrid(getRhythmTop(state, element, view), gridUnit)) return true;
+	return !isTextElement(element) && !isOnGrid(element.size.height, gridUnit);
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignState } from '$lib/types/events';
+import { makeElement, makeState } from '$tests/state';
+import { generateSvelteComponent, getBreakpointViews, getComponentParts, toContentMarkup } from './code-generator';
+
+// Sample design: a desktop and a mobile view of a landing page
+function makeLandingPage(): DesignState {
+	return makeState([
+		makeElement('desktop', {
+			isView: true,
+			viewName: 'Desktop',
+			breakpointWidth: 1440,
+			size: { width: 1440, height: 900 },
+			styles: { backgroundColor: '#ffffff' },
+			children: ['hero', 'nav']
+		}),
+		makeElement('hero', {
+			parentId: 'desktop',
+			type: 'h1',
+			position: { x: 120, y: 200 },
+			size: { width: 600, height: 72 },
+			typography: { fontFamily: 'Inter, sans-serif', fontSize: '64px', fontWeight: '700', lineHeight: '1.1' },
+			content: 'Design <strong>faster</strong>'
+		}),
+		makeElement('nav', {
+			parentId: 'desktop',
+			type: 'nav',
+			position: { x: 0, y: 0 },
+			size: { width: 1440, height: 80 },
+			autoLayout: { enabled: true, direction: 'row', justifyContent: 'space-between', alignItems: 'center', gap: '24px' },
+			spacing: { paddingLeft: '120px', paddingRight: '120px' },
+			children: ['logo', 'cta']
+		}),
+		makeElement('logo', {
+			parentId: 'nav',
+			type: 'img',
+			size: { width: 120, height: 32 },
+			src: '/uploads/logo.svg',
+			alt: 'Logo',
+			styles: { objectFit: 'contain' }
+		}),
+		makeElement('cta', {
+			parentId: 'nav',
+			type: 'a',
+			size: { width: 140, height: 44 },
+			href: '/signup',
+			content: 'Sign up',
+			styles: { backgroundColor: '#111111', color: '#ffffff', borderRadius: '8px' },
+			typography: { textAlign: 'center', lineHeight: '44px' }
+		}),
+		makeElement('mobile', {
+			isView: true,
+			viewName: 'Mobile',
+			breakpointWidth: 375,
+			position: { x: 1600, y: 0 },
+			size: { width: 375, height: 812 },
+			children: ['mobile-hero']
+		}),
+		makeElement('mobile-hero', {
+			parentId: 'mobile',
+			type: 'h1',
+			position: { x: 24, y: 120 },
+			size: { width: 327, height: 80 },
+			rotation: -2,
+			typography: { fontSize: '36px', baselineGrid: 8 },
+			content: 'Design faster'
+		})
+	]);
+}
+
+describe('generateSvelteComponent', () => {
+	it('should generate a landing page with a breakpoint per view', () => {
+		expect(generateSvelteComponent(makeLandingPage(), 'page-1')).toMatchSnapshot();
+	});
+
+	it('should generate a single view page without media queries', () => {
+		const state = makeState([
+			makeElement('view', {
+				isView: true,
+				viewName: 'Tablet',
+				breakpointWidth: 768,
+				size: { width: 768, height: 600 },
+				children: ['card']
+			}),
+			makeElement('card', {
+				parentId: 'view',
+				type: 'section',
+				position: { x: 40, y: 40 },
+				size: { width: 300, height: 200 },
+				styles: { borderWidth: '1px', borderStyle: 'solid', borderColor: '#dddddd', borderTopLeftRadius: '12px' },
+				spacing: { paddingTop: '16px' },
+				children: ['title', 'body', 'hidden']
+			}),
+			makeElement('title', { parentId: 'card', type: 'h3', content: 'Card {title}' }),
+			makeElement('body', { parentId: 'card', type: 'p', position: { x: 0, y: 48 }, content: 'Line one<br>Line two' }),
+			makeElement('hidden', { parentId: 'card', type: 'p', visible: false, content: 'Not published' })
+		]);
+
+		const code = generateSvelteComponent(state, 'page-1');
+		expect(code).not.toContain('@media');
+		expect(code).not.toContain('Not published');
+		expect(code).toMatchSnapshot();
+	});
+
+	it('should leave out elements outside views', () => {
+		const state = makeState([makeElement('loose', { type: 'p', content: 'Scratch' })]);
+		expect(generateSvelteComponent(state, 'page-1')).not.toContain('Scratch');
+	});
+});
+
+describe('getComponentParts', () => {
+	it('should split a generated component into markup and CSS', () => {
+		const { markup, css } = getComponentParts(generateSvelteComponent(makeLandingPage(), 'page-1'));
+
+		expect(markup).toMatch(/^<!-- Generated/);
+		expect(markup).toMatch(/<\/div>$/);
+		expect(markup).not.toContain('<style>');
+		expect(css).toMatch(/^\.page \{/);
+		expect(css).toContain('@media (min-width: 1440px)');
+	});
+});
+
+describe('getBreakpointViews', () => {
+	it('should order views narrowest first', () => {
+		const views = getBreakpointViews(makeLandingPage(), 'page-1');
+		expect(views.map((view) => view.id)).toEqual(['mobile', 'desktop']);
+	});
+});
+
+describe('toContentMarkup', () => {
+	it('should keep formatting and drop other tags and attributes', () => {
+		expect(toContentMarkup('<p onclick="x()">Hi <strong>there</strong><script>alert(1)</script></p>')).toBe(
+			'<p>Hi <strong>there</strong>alert(1)</p>'
+		);
+	});
+
+	it('should drop unsafe links and escape braces', () => {
+		expect(toContentMarkup('<a href="javascript:alert(1)">{x}</a>')).toBe('<a>&#123;x&#125;</a>');
+	});
+
+	it('should balance tags', () => {
+		expect(toContentMarkup('<em>open</strong> text')).toBe('<em>open text</em>');
+	});
+});
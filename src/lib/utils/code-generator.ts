@@ -0,0 +1,480 @@
+/**
+ * Code generator - Turns a page of the design into a Svelte component
+ *
+ * Each view of the page becomes a breakpoint. Views are ordered by breakpointWidth and
+ * the CSS is mobile-first: the narrowest view shows by default, and each wider view
+ * takes over from its width up (@media (min-width)). Elements become semantic HTML of
+ * their type with one class each: freeform children are positioned absolutely inside
+ * their parent, auto layout maps to flexbox, and spacing and typography map one to one.
+ *
+ * Root elements outside views and hidden elements are left out.
+ */
+
+import type { DesignState, Element, ElementStyles, SpacingStyle, TypographyStyle } from '$lib/types/events';
+import { getBaselineAlignmentCss } from './baseline-grid';
+
+/** Element types that hold text content (when they have no children) */
+const TEXT_TYPES = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'span', 'a', 'button', 'label'];
+
+/** Types with browser default margins (the canvas draws every element without them) */
+const RESET_MARGIN_TYPES = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'form'];
+
+/** Formatting tags kept in text content (same as the text editor allows) */
+const CONTENT_TAGS = ['p', 'br', 'strong', 'em', 'u', 's', 'span', 'a', 'b', 'i'];
+
+const STYLE_PROPERTIES: Array<keyof ElementStyles> = [
+	'backgroundColor',
+	'color',
+	'borderWidth',
+	'borderStyle',
+	'borderColor'
+];
+
+const CORNER_PROPERTIES: Array<keyof ElementStyles> = [
+	'borderTopLeftRadius',
+	'borderTopRightRadius',
+	'borderBottomRightRadius',
+	'borderBottomLeftRadius'
+];
+
+const TYPOGRAPHY_PROPERTIES: Array<keyof TypographyStyle> = [
+	'fontFamily',
+	'fontSize',
+	'fontWeight',
+	'fontStyle',
+	'lineHeight',
+	'letterSpacing',
+	'wordSpacing',
+	'textAlign',
+	'textDecoration',
+	'textDecorationColor',
+	'textDecorationStyle',
+	'textTransform',
+	'textIndent',
+	'whiteSpace',
+	'wordBreak',
+	'hyphens'
+];
+
+const SPACING_PROPERTIES: Array<keyof SpacingStyle> = [
+	'marginTop',
+	'marginRight',
+	'marginBottom',
+	'marginLeft',
+	'paddingTop',
+	'paddingRight',
+	'paddingBottom',
+	'paddingLeft'
+];
+
+interface CssRule {
+	selector: string;
+	declarations: string[];
+}
+
+interface Breakpoint {
+	view: Element;
+	className: string;
+	minWidth: number | null; // null for the narrowest view (no media query)
+	markup: string[];
+	rules: CssRule[];
+}
+
+interface GeneratorContext {
+	elements: Record<string, Element>;
+	classCount: number;
+}
+
+// ============================================================================
+// Escaping
+// ============================================================================
+
+// Text in Svelte markup: braces would start expressions
+function escapeText(text: string): string {
+	return text.replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/{/g, '&#123;').replace(/}/g, '&#125;');
+}
+
+function escapeAttribute(value: string): string {
+	return escapeText(value).replace(/"/g, '&quot;');
+}
+
+// URLs with a scheme other than http(s)/mailto/tel are dropped (relative URLs are kept)
+function isSafeUrl(url: string, allowDataImages = false): boolean {
+	const value = url.trim();
+	if (allowDataImages && /^data:image\//i.test(value)) return true;
+	const scheme = value.match(/^([a-z][a-z0-9+.-]*):/i);
+	return !scheme || ['http', 'https', 'mailto', 'tel'].includes(scheme[1].toLowerCase());
+}
+
+// Names in HTML and CSS comments can't end the comment or the style block
+function toCommentText(text: string): string {
+	return text.replace(/[<>{}]|\*\/|--/g, '');
+}
+
+// CSS values can't close the rule or the style block
+function isSafeCssValue(value: string): boolean {
+	return !/[{};<>]/.test(value);
+}
+
+/**
+ * Text content as static markup: only the formatting tags (and their href/style) are kept,
+ * unclosed tags are closed and stray closing tags dropped
+ */
+export function toContentMarkup(html: string): string {
+	const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/g;
+	const open: string[] = [];
+	let markup = '';
+	let last = 0;
+
+	for (const match of html.matchAll(tagPattern)) {
+		markup += escapeText(html.slice(last, match.index));
+		last = (match.index ?? 0) + match[0].length;
+
+		const [, closing, name, attributes] = match;
+		const tag = name.toLowerCase();
+		if (!CONTENT_TAGS.includes(tag)) continue;
+
+		if (tag === 'br') {
+			if (!closing) markup += '<br>';
+		} else if (closing) {
+			const index = open.lastIndexOf(tag);
+			if (index === -1) continue;
+			while (open.length > index) markup += `</${open.pop()}>`;
+		} else {
+			markup += `<${tag}${getContentAttributes(tag, attributes)}>`;
+			open.push(tag);
+		}
+	}
+
+	markup += escapeText(html.slice(last));
+	while (open.length > 0) markup += `</${open.pop()}>`;
+	return markup;
+}
+
+// Helper: href (links only) and style attributes of a content tag
+function getContentAttributes(tag: string, source: string): string {
+	const attributePattern = /([a-zA-Z-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+	let attributes = '';
+
+	for (const [, rawName, doubleQuoted, singleQuoted] of source.matchAll(attributePattern)) {
+		const name = rawName.toLowerCase();
+		const value = doubleQuoted ?? singleQuoted ?? '';
+		if (name === 'href' && tag === 'a' && isSafeUrl(value)) {
+			attributes += ` href="${escapeAttribute(value)}"`;
+		} else if (name === 'style') {
+			attributes += ` style="${escapeAttribute(value)}"`;
+		}
+	}
+
+	return attributes;
+}
+
+// ============================================================================
+// CSS
+// ============================================================================
+
+function px(value: number): string {
+	return `${Math.round(value * 100) / 100}px`;
+}
+
+function toKebabCase(property: string): string {
+	return property.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+// Helper: Declarations for the set properties of a style object
+function getPropertyCss<T extends object>(values: Partial<T> | undefined, properties: Array<keyof T>): string[] {
+	const declarations: string[] = [];
+	for (const property of properties) {
+		const value = values?.[property];
+		if (value === undefined || value === null || value === '') continue;
+		if (!isSafeCssValue(String(value))) continue;
+		declarations.push(`${toKebabCase(String(property))}: ${value}`);
+	}
+	return declarations;
+}
+
+// Helper: Whether an element is laid out by its auto layout (flex) parent
+function isInFlow(element: Element, parent: Element | null): boolean {
+	return !!parent?.autoLayout?.enabled && !element.autoLayout?.ignoreAutoLayout;
+}
+
+/**
+ * Position, size and flexbox declarations of an element
+ */
+function getLayoutCss(element: Element, parent: Element | null): string[] {
+	const css: string[] = ['box-sizing: border-box'];
+
+	if (isInFlow(element, parent)) {
+		// Keep their size in the flex row/column, like on the canvas
+		css.push('position: relative', 'flex-shrink: 0', 'flex-grow: 0');
+	} else {
+		css.push('position: absolute', `left: ${px(element.position.x)}`, `top: ${px(element.position.y)}`);
+	}
+
+	if (element.styles.display === 'inline-block') {
+		css.push('width: auto', 'height: auto');
+	} else {
+		css.push(`width: ${px(element.size.width)}`, `height: ${px(element.size.height)}`);
+	}
+
+	if (element.rotation) {
+		css.push(`transform: rotate(${element.rotation}deg)`, 'transform-origin: center center');
+	}
+
+	if (RESET_MARGIN_TYPES.includes(element.type)) css.push('margin: 0');
+
+	return [...css, ...getDisplayCss(element)];
+}
+
+// Helper: display, or flexbox for auto layout
+function getDisplayCss(element: Element): string[] {
+	const autoLayout = element.autoLayout;
+	if (!autoLayout?.enabled) {
+		return element.styles.display ? [`display: ${element.styles.display}`] : [];
+	}
+
+	const css = ['display: flex'];
+	const direction = autoLayout.direction || 'row';
+	if (direction === 'row-wrap') {
+		css.push('flex-direction: row', 'flex-wrap: wrap');
+	} else {
+		css.push(`flex-direction: ${direction}`);
+	}
+	css.push(...getPropertyCss(autoLayout, ['justifyContent', 'alignItems', 'gap']));
+	return css;
+}
+
+/**
+ * Colours, borders, effects, typography and spacing of an element
+ */
+function getAppearanceCss(element: Element): string[] {
+	const { styles } = element;
+	const css = getPropertyCss(styles, STYLE_PROPERTIES);
+
+	const corners = getPropertyCss(styles, CORNER_PROPERTIES);
+	css.push(...(corners.length > 0 ? corners : getPropertyCss(styles, ['borderRadius'])));
+	css.push(...getPropertyCss(styles, ['opacity', 'boxShadow', 'overflow']));
+
+	if (element.type === 'img' || element.type === 'video') {
+		css.push(`object-fit: ${styles.objectFit || 'cover'}`);
+	}
+
+	// Text wraps like on the canvas unless white-space is set
+	if (isTextLeaf(element) && !element.typography.whiteSpace) {
+		css.push('white-space: pre-wrap', 'overflow-wrap: anywhere');
+	}
+
+	css.push(...getPropertyCss(element.typography, TYPOGRAPHY_PROPERTIES));
+	css.push(...getPropertyCss(element.spacing, SPACING_PROPERTIES));
+	css.push(...getBaselineAlignmentCss(element));
+	return css;
+}
+
+function renderRules(rules: CssRule[], indent: string): string[] {
+	const lines: string[] = [];
+	for (const rule of rules) {
+		if (lines.length > 0) lines.push('');
+		lines.push(`${indent}${rule.selector} {`);
+		for (const declaration of rule.declarations) {
+			lines.push(`${indent}\t${declaration};`);
+		}
+		lines.push(`${indent}}`);
+	}
+	return lines;
+}
+
+// ============================================================================
+// Markup
+// ============================================================================
+
+function isTextLeaf(element: Element): boolean {
+	return TEXT_TYPES.includes(element.type) && element.children.length === 0;
+}
+
+function nextClassName(element: Element, context: GeneratorContext): string {
+	context.classCount++;
+	return `${element.type}-${context.classCount}`;
+}
+
+/**
+ * Markup lines of an element and its children (adds their CSS rules)
+ */
+function renderElement(
+	element: Element,
+	parent: Element,
+	depth: number,
+	context: GeneratorContext,
+	rules: CssRule[]
+): string[] {
+	if (element.visible === false) return [];
+
+	const className = nextClassName(element, context);
+	rules.push({
+		selector: `.${className}`,
+		declarations: [...getLayoutCss(element, parent), ...getAppearanceCss(element)]
+	});
+
+	const indent = '\t'.repeat(depth);
+	const classAttribute = `class="${className}"`;
+
+	switch (element.type) {
+		case 'img': {
+			const src = element.src && isSafeUrl(element.src, true) ? element.src : '';
+			return [`${indent}<img ${classAttribute} src="${escapeAttribute(src)}" alt="${escapeAttribute(element.alt || '')}" />`];
+		}
+		case 'video': {
+			const src = element.src && isSafeUrl(element.src) ? element.src : '';
+			return [`${indent}<video ${classAttribute} src="${escapeAttribute(src)}" controls></video>`];
+		}
+		case 'input':
+			return [`${indent}<input ${classAttribute} type="text" placeholder="${escapeAttribute(element.content || '')}" />`];
+		case 'textarea':
+			return [`${indent}<textarea ${classAttribute} placeholder="${escapeAttribute(element.content || '')}"></textarea>`];
+	}
+
+	let attributes = classAttribute;
+	if (element.type === 'a') {
+		const href = element.href && isSafeUrl(element.href) ? element.href : '#';
+		attributes += ` href="${escapeAttribute(href)}"`;
+	} else if (element.type === 'button') {
+		attributes += ' type="button"';
+	}
+
+	if (isTextLeaf(element)) {
+		const fallback = element.type === 'a' ? 'Link' : element.type === 'button' ? 'Button' : '';
+		const content = toContentMarkup(element.content || '') || fallback;
+		return [`${indent}<${element.type} ${attributes}>${content}</${element.type}>`];
+	}
+
+	const children = element.children.flatMap((childId) => {
+		const child = context.elements[childId];
+		return child ? renderElement(child, element, depth + 1, context, rules) : [];
+	});
+	if (children.length === 0) {
+		return [`${indent}<${element.type} ${attributes}></${element.type}>`];
+	}
+	return [`${indent}<${element.type} ${attributes}>`, ...children, `${indent}</${element.type}>`];
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Views of a page, narrowest first
+ */
+export function getBreakpointViews(state: DesignState, pageId: string): Element[] {
+	const rootIds = state.pages[pageId]?.canvasElements ?? [];
+	return rootIds
+		.map((id) => state.elements[id])
+		.filter((element): element is Element => !!element?.isView)
+		.sort((a, b) => (a.breakpointWidth ?? a.size.width) - (b.breakpointWidth ?? b.size.width));
+}
+
+// Helper: Markup and CSS of one view
+function renderBreakpoint(view: Element, index: number, minWidth: number | null, context: GeneratorContext): Breakpoint {
+	const className = `view-${index + 1}`;
+	const rules: CssRule[] = [];
+	const width = view.breakpointWidth ?? view.size.width;
+
+	// The view fills the screen up to its width (views are hidden outside their breakpoint)
+	rules.push({
+		selector: `.${className}`,
+		declarations: [
+			`display: ${getViewDisplay(view)}`,
+			'box-sizing: border-box',
+			'position: relative',
+			'width: 100%',
+			`max-width: ${px(width)}`,
+			`min-height: ${px(view.size.height)}`,
+			'margin: 0 auto',
+			...getDisplayCss(view).filter((declaration) => !declaration.startsWith('display:')),
+			...getAppearanceCss(view)
+		]
+	});
+
+	const children = view.children.flatMap((childId) => {
+		const child = context.elements[childId];
+		return child ? renderElement(child, view, 2, context, rules) : [];
+	});
+	const label = view.viewName ? ` aria-label="${escapeAttribute(view.viewName)}"` : '';
+	const markup =
+		children.length > 0
+			? [`\t<div class="view ${className}"${label}>`, ...children, '\t</div>']
+			: [`\t<div class="view ${className}"${label}></div>`];
+
+	return { view, className, minWidth, markup, rules };
+}
+
+function getViewDisplay(view: Element): string {
+	if (view.autoLayout?.enabled) return 'flex';
+	return view.styles.display && view.styles.display !== 'none' ? view.styles.display : 'block';
+}
+
+/**
+ * Svelte component for a page of the design
+ */
+export function generateSvelteComponent(state: DesignState, pageId: string): string {
+	const context: GeneratorContext = { elements: state.elements, classCount: 0 };
+	const views = getBreakpointViews(state, pageId);
+
+	const breakpoints = views.map((view, index) =>
+		renderBreakpoint(view, index, index === 0 ? null : view.breakpointWidth ?? view.size.width, context)
+	);
+
+	const pageName = toCommentText(state.pages[pageId]?.name ?? pageId);
+	const lines: string[] = [`<!-- Generated from the design of "${pageName}" - edits are overwritten on publish -->`];
+
+	if (breakpoints.length === 0) {
+		lines.push('<div class="page"></div>');
+	} else {
+		lines.push('<div class="page">');
+		for (const breakpoint of breakpoints) lines.push(...breakpoint.markup);
+		lines.push('</div>');
+	}
+
+	const baseRules: CssRule[] = [
+		{ selector: '.page', declarations: ['position: relative', 'width: 100%', 'overflow-x: hidden'] },
+		{ selector: '.view', declarations: ['display: none'] }
+	];
+
+	lines.push('', '<style>');
+	const css: string[] = [];
+	for (const [index, breakpoint] of breakpoints.entries()) {
+		// A wider view replaces the previous one
+		const previous = breakpoints[index - 1];
+		const rules = previous
+			? [{ selector: `.${previous.className}`, declarations: ['display: none'] }, ...breakpoint.rules]
+			: breakpoint.rules;
+		const name = toCommentText(breakpoint.view.viewName ?? breakpoint.className);
+
+		css.push('');
+		if (breakpoint.minWidth === null) {
+			css.push(`\t/* ${name} */`);
+			css.push(...renderRules(rules, '\t'));
+		} else {
+			css.push(`\t/* ${name} (${breakpoint.minWidth}px and up) */`);
+			css.push(`\t@media (min-width: ${breakpoint.minWidth}px) {`);
+			css.push(...renderRules(rules, '\t\t'));
+			css.push('\t}');
+		}
+	}
+	lines.push(...renderRules(baseRules, '\t'), ...css);
+	lines.push('</style>', '');
+
+	return lines.join('\n');
+}
+
+/**
+ * Markup and CSS of a generated component, to serve it as static HTML
+ * (generated components have no script, so rendering them is taking the markup as is)
+ */
+export function getComponentParts(code: string): { markup: string; css: string } {
+	const style = code.match(/<style>([\s\S]*?)<\/style>/);
+	if (!style) return { markup: code.trim(), css: '' };
+
+	return {
+		markup: code.replace(style[0], '').trim(),
+		css: style[1].trim()
+	};
+}
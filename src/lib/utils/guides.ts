@@ -0,0 +1,98 @@
+/**
+ * Guides - Ruler guides of a page and its views
+ *
+ * Page guides are stored in canvas coordinates and run across the whole canvas.
+ * View guides are stored relative to the view's top-left, so they move with the
+ * view, and only run across it. Guides of views that no longer exist are ignored.
+ */
+
+import type { DesignState, Element, Guide, GuideAxis } from '$lib/types/events';
+import type { AlignmentGuide } from './smart-guides';
+import { getAbsoluteElementBounds } from './viewport-culling';
+
+/** Thickness of the rulers along the canvas edges (screen px) */
+export const RULER_SIZE = 20;
+
+/** Extent of page guides on the canvas (they have no owner to span) */
+const PAGE_GUIDE_EXTENT = 100000;
+
+/** A guide placed on the canvas */
+export interface PlacedGuide {
+	guide: Guide;
+	position: number; // Canvas coordinate on the guide's axis
+	from: number; // Extent on the other axis
+	to: number;
+}
+
+/**
+ * Guides of a page, resolved to canvas coordinates
+ */
+export function getPlacedGuides(state: DesignState, pageId: string | null): PlacedGuide[] {
+	if (!pageId) return [];
+
+	const placed: PlacedGuide[] = [];
+	for (const guide of Object.values(state.guides ?? {})) {
+		if (guide.pageId !== pageId) continue;
+
+		if (!guide.viewId) {
+			placed.push({ guide, position: guide.position, from: -PAGE_GUIDE_EXTENT, to: PAGE_GUIDE_EXTENT });
+			continue;
+		}
+
+		const view = state.elements[guide.viewId];
+		if (!view) continue;
+
+		const bounds = getAbsoluteElementBounds(view, state.elements);
+		placed.push(
+			guide.axis === 'x'
+				? { guide, position: bounds.x + guide.position, from: bounds.y, to: bounds.y + bounds.height }
+				: { guide, position: bounds.y + guide.position, from: bounds.x, to: bounds.x + bounds.width }
+		);
+	}
+
+	return placed;
+}
+
+/**
+ * Snap lines for the guides of a page
+ */
+export function getGuideLines(state: DesignState, pageId: string | null): AlignmentGuide[] {
+	return getPlacedGuides(state, pageId).map(({ guide, position, from, to }) => ({
+		axis: guide.axis,
+		position,
+		from,
+		to
+	}));
+}
+
+/**
+ * View a new guide dropped at a canvas point belongs to (the topmost view under it), if any
+ */
+export function findGuideOwner(views: Element[], elements: Record<string, Element>, point: { x: number; y: number }): Element | null {
+	for (const view of [...views].reverse()) {
+		const bounds = getAbsoluteElementBounds(view, elements);
+		if (
+			point.x >= bounds.x &&
+			point.x <= bounds.x + bounds.width &&
+			point.y >= bounds.y &&
+			point.y <= bounds.y + bounds.height
+		) {
+			return view;
+		}
+	}
+	return null;
+}
+
+/**
+ * Position to store for a guide at a canvas coordinate (relative to its view, if it has one)
+ */
+export function toGuidePosition(
+	axis: GuideAxis,
+	canvasPosition: number,
+	view: Element | null,
+	elements: Record<string, Element>
+): number {
+	if (!view) return canvasPosition;
+	const bounds = getAbsoluteElementBounds(view, elements);
+	return canvasPosition - (axis === 'x' ? bounds.x : bounds.y);
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getGridColumns, getLayoutGridLines, DEFAULT_LAYOUT_GRID } from './layout-grid';
+
+describe('getGridColumns', () => {
+	it('should stretch fluid columns between the margins', () => {
+		const grid = { ...DEFAULT_LAYOUT_GRID, columns: 4, gutter: 20, margin: 40 };
+
+		expect(getGridColumns(grid, 500)).toEqual([
+			{ x: 40, width: 90 },
+			{ x: 150, width: 90 },
+			{ x: 260, width: 90 },
+			{ x: 370, width: 90 }
+		]);
+	});
+
+	it('should centre fixed columns in the view', () => {
+		const grid = { ...DEFAULT_LAYOUT_GRID, type: 'fixed' as const, columns: 2, gutter: 20, columnWidth: 100 };
+
+		expect(getGridColumns(grid, 400)).toEqual([
+			{ x: 90, width: 100 },
+			{ x: 210, width: 100 }
+		]);
+	});
+
+	it('should give no columns when they do not fit', () => {
+		expect(getGridColumns({ ...DEFAULT_LAYOUT_GRID, margin: 300 }, 400)).toEqual([]);
+	});
+});
+
+describe('getLayoutGridLines', () => {
+	it('should put a snap line on both edges of every column, in canvas coordinates', () => {
+		const grid = { ...DEFAULT_LAYOUT_GRID, columns: 2, gutter: 20, margin: 40 };
+
+		const lines = getLayoutGridLines(grid, { x: 100, y: 50, width: 300, height: 600 });
+
+		expect(lines.map((line) => line.position)).toEqual([140, 240, 260, 360]);
+		expect(lines[0]).toMatchObject({ axis: 'x', from: 50, to: 650 });
+	});
+});
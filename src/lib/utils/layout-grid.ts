@@ -0,0 +1,69 @@
+/**
+ * Layout grid - Column grids on views
+ *
+ * Fluid grids stretch their columns across the view between the margins.
+ * Fixed grids use a fixed column width and are centred in the view.
+ *
+ * Column edges are snap lines for moving and resizing elements in the view.
+ */
+
+import type { LayoutGrid } from '$lib/types/events';
+import type { AlignmentGuide, Bounds } from './smart-guides';
+
+export const DEFAULT_LAYOUT_GRID: LayoutGrid = {
+	columns: 12,
+	gutter: 24,
+	margin: 32,
+	type: 'fluid',
+	columnWidth: 64,
+	visible: true
+};
+
+/** A column, relative to the view's left edge */
+export interface GridColumn {
+	x: number;
+	width: number;
+}
+
+/**
+ * Columns of a grid in a view of the given width (none when they don't fit)
+ */
+export function getGridColumns(grid: LayoutGrid, viewWidth: number): GridColumn[] {
+	const count = Math.max(0, Math.floor(grid.columns));
+	if (count === 0) return [];
+
+	const gutters = grid.gutter * (count - 1);
+	let left: number;
+	let width: number;
+
+	if (grid.type === 'fixed') {
+		width = grid.columnWidth;
+		left = (viewWidth - (width * count + gutters)) / 2;
+	} else {
+		width = (viewWidth - grid.margin * 2 - gutters) / count;
+		left = grid.margin;
+	}
+
+	if (width <= 0) return [];
+
+	return Array.from({ length: count }, (_, i) => ({
+		x: left + i * (width + grid.gutter),
+		width
+	}));
+}
+
+/**
+ * Vertical snap lines at every column edge, in canvas coordinates
+ */
+export function getLayoutGridLines(grid: LayoutGrid, view: Bounds): AlignmentGuide[] {
+	const lines: AlignmentGuide[] = [];
+	const from = view.y;
+	const to = view.y + view.height;
+
+	for (const column of getGridColumns(grid, view.width)) {
+		lines.push({ axis: 'x', position: view.x + column.x, from, to });
+		lines.push({ axis: 'x', position: view.x + column.x + column.width, from, to });
+	}
+
+	return lines;
+}
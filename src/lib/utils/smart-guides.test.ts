@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { snapBounds, getRotatedBounds, measureDistances } from './smart-guides';
+
+const box = (x: number, y: number, width = 100, height = 50) => ({ x, y, width, height });
+
+describe('snapBounds', () => {
+	it('should snap edges and centres within the threshold and report the guide', () => {
+		const targets = [box(0, 0)];
+
+		const result = snapBounds(box(103, 200), targets, { threshold: 6 });
+
+		expect(result.offset).toEqual({ x: -3, y: 0 });
+		expect(result.alignments).toContainEqual({ axis: 'x', position: 100, from: 0, to: 250 });
+		expect(snapBounds(box(110, 200), targets, { threshold: 6 }).offset).toEqual({ x: 0, y: 0 });
+	});
+
+	it('should only snap the anchors it is given', () => {
+		// Right edge of a resize: the left edge at 2 must not pull it
+		const result = snapBounds(box(2, 0, 0, 0), [box(0, 100)], {
+			threshold: 6,
+			anchors: { x: ['start'], y: [] }
+		});
+
+		expect(result.offset).toEqual({ x: -2, y: 0 });
+	});
+
+	it('should snap to equal spacing between neighbours in the same row', () => {
+		const targets = [box(0, 0), box(120, 0)];
+
+		// Repeat the existing 20px gap after the second box
+		const result = snapBounds(box(243, 0), targets, { threshold: 6, equalSpacing: true });
+
+		expect(result.offset.x).toBe(-3);
+		expect(result.spacings.map((gap) => [gap.from, gap.to])).toEqual([
+			[100, 120],
+			[220, 240]
+		]);
+	});
+});
+
+describe('geometry', () => {
+	it('should use the rotated extent of an element', () => {
+		const bounds = getRotatedBounds(box(0, 0, 100, 100), 45);
+
+		expect(bounds.width).toBeCloseTo(141.42, 1);
+		expect(bounds.x).toBeCloseTo(-20.71, 1);
+	});
+
+	it('should measure to the nearest neighbour, or to the parent edge', () => {
+		const distances = measureDistances(box(50, 50), [box(0, 50, 30, 50)], box(0, 0, 300, 300));
+
+		expect(distances.map((d) => [d.axis, d.to - d.from])).toEqual([
+			['x', 20],
+			['x', 150],
+			['y', 50],
+			['y', 200]
+		]);
+	});
+});
+
+describe('fixed lines', () => {
+	it('should snap to lines and draw the guide along the line', () => {
+		const lines = [{ axis: 'x' as const, position: 40, from: 0, to: 800 }];
+
+		const result = snapBounds(box(37, 100), [], { threshold: 6, lines });
+
+		expect(result.offset).toEqual({ x: 3, y: 0 });
+		expect(result.alignments).toEqual([{ axis: 'x', position: 40, from: 0, to: 800 }]);
+	});
+});
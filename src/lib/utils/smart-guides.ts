@@ -0,0 +1,373 @@
+/**
+ * Smart guides - Snapping of moved/resized bounds to nearby elements
+ *
+ * All values are canvas coordinates. Bounds are axis-aligned: rotated elements
+ * are represented by the box around their rotated corners, so a rotated element
+ * snaps by its visible extent.
+ *
+ * Per axis, the moving bounds snap to:
+ * - the edges and centres of the targets (siblings and the parent)
+ * - equal spacing: the same gap on both sides, or a gap that already exists
+ *   between two targets in the same row/column
+ * - fixed lines, such as the column edges of a view's layout grid
+ */
+
+export interface Bounds {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export type Axis = 'x' | 'y';
+export type SnapAnchor = 'start' | 'center' | 'end';
+
+/** Alignment line; axis 'x' is a vertical line at x = position, from y = from to y = to */
+export interface AlignmentGuide {
+	axis: Axis;
+	position: number;
+	from: number;
+	to: number;
+}
+
+/** Measured gap between two bounds along an axis, drawn at `cross` on the other axis */
+export interface GapGuide {
+	axis: Axis;
+	from: number;
+	to: number;
+	cross: number;
+}
+
+export interface SnapGuides {
+	alignments: AlignmentGuide[];
+	spacings: GapGuide[]; // Equal gaps (equal-spacing hint)
+	distances: GapGuide[]; // Distance to the nearest neighbour on each side
+}
+
+export interface SnapResult extends SnapGuides {
+	offset: { x: number; y: number };
+}
+
+export interface SnapOptions {
+	threshold: number; // Canvas units (screen threshold / scale)
+	anchors?: { x: SnapAnchor[]; y: SnapAnchor[] }; // Which parts of the moving bounds may snap
+	container?: Bounds | null; // Parent; distances fall back to its inner edges
+	equalSpacing?: boolean;
+	lines?: AlignmentGuide[]; // Fixed lines to snap to (layout grid columns)
+}
+
+/** Screen pixels within which a guide catches */
+export const SNAP_THRESHOLD = 6;
+
+const ALL_ANCHORS: SnapAnchor[] = ['start', 'center', 'end'];
+const EPSILON = 0.5;
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Axis-aligned bounds around a rectangle rotated about its centre
+ */
+export function getRotatedBounds(rect: Bounds, rotation: number): Bounds {
+	if (!rotation) return rect;
+
+	const angle = rotation * (Math.PI / 180);
+	const cos = Math.abs(Math.cos(angle));
+	const sin = Math.abs(Math.sin(angle));
+	const width = rect.width * cos + rect.height * sin;
+	const height = rect.width * sin + rect.height * cos;
+
+	return {
+		x: rect.x + rect.width / 2 - width / 2,
+		y: rect.y + rect.height / 2 - height / 2,
+		width,
+		height
+	};
+}
+
+/**
+ * Smallest bounds containing all of the given bounds
+ */
+export function unionBounds(bounds: Bounds[]): Bounds {
+	const minX = Math.min(...bounds.map((b) => b.x));
+	const minY = Math.min(...bounds.map((b) => b.y));
+	const maxX = Math.max(...bounds.map((b) => b.x + b.width));
+	const maxY = Math.max(...bounds.map((b) => b.y + b.height));
+	return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function translateBounds(bounds: Bounds, offset: { x: number; y: number }): Bounds {
+	return { ...bounds, x: bounds.x + offset.x, y: bounds.y + offset.y };
+}
+
+/**
+ * Round to the pixel grid (or a coarser step)
+ */
+export function roundToGrid(value: number, step: number = 1): number {
+	return Math.round(value / step) * step;
+}
+
+function start(bounds: Bounds, axis: Axis): number {
+	return axis === 'x' ? bounds.x : bounds.y;
+}
+
+function size(bounds: Bounds, axis: Axis): number {
+	return axis === 'x' ? bounds.width : bounds.height;
+}
+
+function end(bounds: Bounds, axis: Axis): number {
+	return start(bounds, axis) + size(bounds, axis);
+}
+
+function anchorValue(bounds: Bounds, axis: Axis, anchor: SnapAnchor): number {
+	if (anchor === 'start') return start(bounds, axis);
+	if (anchor === 'end') return end(bounds, axis);
+	return start(bounds, axis) + size(bounds, axis) / 2;
+}
+
+function crossAxis(axis: Axis): Axis {
+	return axis === 'x' ? 'y' : 'x';
+}
+
+/** Do the bounds share some extent on the other axis (same row for 'x', same column for 'y')? */
+function overlapsOnCross(a: Bounds, b: Bounds, axis: Axis): boolean {
+	const cross = crossAxis(axis);
+	return start(a, cross) < end(b, cross) && start(b, cross) < end(a, cross);
+}
+
+/** Middle of the shared extent on the other axis, where a gap line is drawn */
+function sharedCross(a: Bounds, b: Bounds, axis: Axis): number {
+	const cross = crossAxis(axis);
+	const from = Math.max(start(a, cross), start(b, cross));
+	const to = Math.min(end(a, cross), end(b, cross));
+	return (from + to) / 2;
+}
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+interface AxisSnap {
+	delta: number;
+	distance: number;
+}
+
+function closer(best: AxisSnap | null, candidate: AxisSnap): AxisSnap {
+	return !best || candidate.distance < best.distance ? candidate : best;
+}
+
+function snapAxisToLines(
+	moving: Bounds,
+	targets: Bounds[],
+	lines: AlignmentGuide[],
+	axis: Axis,
+	anchors: SnapAnchor[],
+	threshold: number
+): AxisSnap | null {
+	const positions = [
+		...targets.flatMap((target) => ALL_ANCHORS.map((a) => anchorValue(target, axis, a))),
+		...lines.filter((line) => line.axis === axis).map((line) => line.position)
+	];
+
+	let best: AxisSnap | null = null;
+	for (const anchor of anchors) {
+		const value = anchorValue(moving, axis, anchor);
+		for (const position of positions) {
+			const distance = Math.abs(position - value);
+			if (distance <= threshold) {
+				best = closer(best, { delta: position - value, distance });
+			}
+		}
+	}
+	return best;
+}
+
+/** Neighbours in the same row/column, ordered along the axis */
+function neighbours(moving: Bounds, targets: Bounds[], axis: Axis): Bounds[] {
+	return targets
+		.filter((target) => overlapsOnCross(moving, target, axis))
+		.sort((a, b) => start(a, axis) - start(b, axis));
+}
+
+/** Closest neighbour ending before the bounds start (within tolerance) */
+function nearestBefore(row: Bounds[], moving: Bounds, axis: Axis, tolerance: number): Bounds | null {
+	const before = row.filter((t) => end(t, axis) <= start(moving, axis) + tolerance);
+	return before.length > 0 ? before.reduce((a, b) => (end(b, axis) > end(a, axis) ? b : a)) : null;
+}
+
+/** Closest neighbour starting after the bounds end (within tolerance) */
+function nearestAfter(row: Bounds[], moving: Bounds, axis: Axis, tolerance: number): Bounds | null {
+	const after = row.filter((t) => start(t, axis) >= end(moving, axis) - tolerance);
+	return after.length > 0 ? after.reduce((a, b) => (start(b, axis) < start(a, axis) ? b : a)) : null;
+}
+
+/** Gaps between consecutive, non-overlapping targets in the same row/column */
+function existingGaps(row: Bounds[], axis: Axis): number[] {
+	const gaps: number[] = [];
+	for (let i = 1; i < row.length; i++) {
+		const gap = start(row[i], axis) - end(row[i - 1], axis);
+		if (gap > 0) gaps.push(gap);
+	}
+	return gaps;
+}
+
+function snapAxisToSpacing(moving: Bounds, targets: Bounds[], axis: Axis, threshold: number): AxisSnap | null {
+	const row = neighbours(moving, targets, axis);
+	const prev = nearestBefore(row, moving, axis, threshold);
+	const next = nearestAfter(row, moving, axis, threshold);
+	const gaps = existingGaps(row, axis);
+
+	let best: AxisSnap | null = null;
+	const consider = (target: number) => {
+		const distance = Math.abs(target - start(moving, axis));
+		if (distance <= threshold) {
+			best = closer(best, { delta: target - start(moving, axis), distance });
+		}
+	};
+
+	// Centred between the two neighbours
+	if (prev && next) {
+		const free = start(next, axis) - end(prev, axis) - size(moving, axis);
+		if (free > 0) consider(end(prev, axis) + free / 2);
+	}
+
+	// Repeat a gap that already exists in the row
+	for (const gap of gaps) {
+		if (prev) consider(end(prev, axis) + gap);
+		if (next) consider(start(next, axis) - gap - size(moving, axis));
+	}
+
+	return best;
+}
+
+/**
+ * Find the offset that snaps the moving bounds to the targets, and the guides to draw
+ */
+export function snapBounds(moving: Bounds, targets: Bounds[], options: SnapOptions): SnapResult {
+	const anchors = options.anchors ?? { x: ALL_ANCHORS, y: ALL_ANCHORS };
+	const offset = { x: 0, y: 0 };
+
+	for (const axis of ['x', 'y'] as const) {
+		let snap = snapAxisToLines(moving, targets, options.lines ?? [], axis, anchors[axis], options.threshold);
+		if (options.equalSpacing && anchors[axis].length === ALL_ANCHORS.length) {
+			const spacing = snapAxisToSpacing(moving, targets, axis, options.threshold);
+			if (spacing) snap = closer(snap, spacing);
+		}
+		if (snap) offset[axis] = snap.delta;
+	}
+
+	const snapped = translateBounds(moving, offset);
+	return {
+		offset,
+		alignments: findAlignments(snapped, targets, anchors, options.lines),
+		spacings: options.equalSpacing ? findEqualSpacing(snapped, targets) : [],
+		distances: measureDistances(snapped, targets, options.container ?? null)
+	};
+}
+
+// ============================================================================
+// Guides
+// ============================================================================
+
+/**
+ * Lines shared by the (already snapped) bounds and the targets or fixed lines
+ */
+export function findAlignments(
+	moving: Bounds,
+	targets: Bounds[],
+	anchors: { x: SnapAnchor[]; y: SnapAnchor[] } = { x: ALL_ANCHORS, y: ALL_ANCHORS },
+	lines: AlignmentGuide[] = []
+): AlignmentGuide[] {
+	const guides: AlignmentGuide[] = [];
+
+	for (const axis of ['x', 'y'] as const) {
+		const cross = crossAxis(axis);
+		for (const anchor of anchors[axis]) {
+			const position = anchorValue(moving, axis, anchor);
+			const aligned = targets.filter((target) =>
+				ALL_ANCHORS.some((a) => Math.abs(anchorValue(target, axis, a) - position) < EPSILON)
+			);
+			const onLines = lines.filter((line) => line.axis === axis && Math.abs(line.position - position) < EPSILON);
+			if (aligned.length === 0 && onLines.length === 0) continue;
+
+			const span = [moving, ...aligned];
+			guides.push({
+				axis,
+				position,
+				from: Math.min(...span.map((b) => start(b, cross)), ...onLines.map((line) => line.from)),
+				to: Math.max(...span.map((b) => end(b, cross)), ...onLines.map((line) => line.to))
+			});
+		}
+	}
+
+	return guides;
+}
+
+/**
+ * Gap from the bounds to the nearest neighbour on each side of each axis,
+ * or to the container's inner edge where there is no neighbour
+ */
+export function measureDistances(moving: Bounds, targets: Bounds[], container: Bounds | null): GapGuide[] {
+	const distances: GapGuide[] = [];
+
+	for (const axis of ['x', 'y'] as const) {
+		const row = neighbours(moving, targets, axis);
+		const prev = nearestBefore(row, moving, axis, EPSILON);
+		const next = nearestAfter(row, moving, axis, EPSILON);
+		const cross = crossAxis(axis);
+		const middle = start(moving, cross) + size(moving, cross) / 2;
+
+		if (prev) {
+			distances.push({ axis, from: end(prev, axis), to: start(moving, axis), cross: sharedCross(prev, moving, axis) });
+		} else if (container && start(container, axis) <= start(moving, axis)) {
+			distances.push({ axis, from: start(container, axis), to: start(moving, axis), cross: middle });
+		}
+
+		if (next) {
+			distances.push({ axis, from: end(moving, axis), to: start(next, axis), cross: sharedCross(moving, next, axis) });
+		} else if (container && end(container, axis) >= end(moving, axis)) {
+			distances.push({ axis, from: end(moving, axis), to: end(container, axis), cross: middle });
+		}
+	}
+
+	return distances.filter((d) => d.to - d.from >= EPSILON);
+}
+
+/**
+ * Gaps equal to the gap next to the bounds, in the same row/column
+ */
+export function findEqualSpacing(moving: Bounds, targets: Bounds[]): GapGuide[] {
+	const guides: GapGuide[] = [];
+
+	for (const axis of ['x', 'y'] as const) {
+		const row = [...neighbours(moving, targets, axis), moving].sort((a, b) => start(a, axis) - start(b, axis));
+		const index = row.indexOf(moving);
+		const sideGaps = [
+			index > 0 ? start(moving, axis) - end(row[index - 1], axis) : null,
+			index < row.length - 1 ? start(row[index + 1], axis) - end(moving, axis) : null
+		];
+
+		for (const gap of sideGaps) {
+			if (gap === null || gap <= 0) continue;
+
+			const matches: GapGuide[] = [];
+			for (let i = 1; i < row.length; i++) {
+				const from = end(row[i - 1], axis);
+				const to = start(row[i], axis);
+				if (Math.abs(to - from - gap) < EPSILON) {
+					matches.push({ axis, from, to, cross: sharedCross(row[i - 1], row[i], axis) });
+				}
+			}
+
+			// Only a hint when the gap repeats somewhere
+			if (matches.length > 1) guides.push(...matches);
+		}
+	}
+
+	// The same gap can match from both sides
+	return guides.filter(
+		(guide, i) =>
+			guides.findIndex((g) => g.axis === guide.axis && g.from === guide.from && g.to === guide.to) === i
+	);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { findPathCollisions, getPagePath, renderStaticPage, rewriteMediaUrls } from './static-site';
+import type { StaticPage } from './static-site';
+
+function makePage(overrides: Partial<StaticPage> = {}): StaticPage {
+	return {
+		slug: 'about',
+		title: 'About',
+		metaTitle: null,
+		metaDescription: null,
+		metaImage: null,
+		markup: '<div class="page"></div>',
+		css: '.page {\n\tposition: relative;\n}',
+		...overrides
+	};
+}
+
+describe('getPagePath', () => {
+	it('should write pages to <slug>/index.html', () => {
+		expect(getPagePath('about')).toBe('about/index.html');
+		expect(getPagePath('blog/first-post')).toBe('blog/first-post/index.html');
+	});
+
+	it('should write the index slug to the site root', () => {
+		expect(getPagePath('index')).toBe('index.html');
+	});
+
+	it('should drop unsafe segments', () => {
+		expect(getPagePath('../../etc/passwd')).toBe('etc/passwd/index.html');
+		expect(getPagePath('..')).toBe('index.html');
+	});
+});
+
+describe('findPathCollisions', () => {
+	it('should accept slugs with distinct files', () => {
+		expect(findPathCollisions(['index', 'about', 'a/b', 'a-b', 'uploads'])).toEqual([]);
+	});
+
+	it('should report slugs written to the same file', () => {
+		expect(findPathCollisions(['index', 'about', '', 'a/b', 'a//b'])).toEqual([
+			{ path: 'index.html', slugs: ['index', ''] },
+			{ path: 'a/b/index.html', slugs: ['a/b', 'a//b'] }
+		]);
+	});
+
+	it('should report pages that need a directory where a file is written', () => {
+		expect(findPathCollisions(['about', 'about/index.html/team', 'styles.css', 'uploads/logo.png'])).toEqual([
+			{ path: 'about/index.html', slugs: ['about', 'about/index.html/team'] },
+			{ path: 'styles.css', slugs: ['styles.css'] },
+			{ path: 'uploads', slugs: ['uploads/logo.png'] }
+		]);
+	});
+});
+
+describe('rewriteMediaUrls', () => {
+	it('should make upload URLs relative and collect the files', () => {
+		const media = new Set<string>();
+		const markup = '<img src="/uploads/a-1.png" /><a href="/uploads/b.pdf">PDF</a><a href="/about">About</a>';
+
+		expect(rewriteMediaUrls(markup, '../', media)).toBe(
+			'<img src="../uploads/a-1.png" /><a href="../uploads/b.pdf">PDF</a><a href="/about">About</a>'
+		);
+		expect([...media]).toEqual(['a-1.png', 'b.pdf']);
+	});
+});
+
+describe('renderStaticPage', () => {
+	it('should render a standalone document with SEO fields and the shared stylesheet', () => {
+		const media = new Set<string>();
+		const { path, html } = renderStaticPage(
+			makePage({
+				metaTitle: 'About "us"',
+				metaDescription: 'Who we are',
+				metaImage: '/uploads/cover.jpg',
+				markup: '<div class="page"><img class="img-1" src="/uploads/team.jpg" alt="" /></div>'
+			}),
+			media
+		);
+
+		expect(path).toBe('about/index.html');
+		expect(html).toContain('<title>About &quot;us&quot;</title>');
+		expect(html).toContain('<meta name="description" content="Who we are" />');
+		expect(html).toContain('<meta property="og:image" content="../uploads/cover.jpg" />');
+		expect(html).toContain('<link rel="stylesheet" href="../styles.css" />');
+		expect(html).toContain('src="../uploads/team.jpg"');
+		expect([...media]).toEqual(['cover.jpg', 'team.jpg']);
+	});
+
+	it('should link root pages without a prefix', () => {
+		const { html } = renderStaticPage(makePage({ slug: 'index' }), new Set());
+		expect(html).toContain('<link rel="stylesheet" href="styles.css" />');
+	});
+});
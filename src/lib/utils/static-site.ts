@@ -0,0 +1,145 @@
+/**
+ * Static site - Published pages as standalone HTML files
+ *
+ * Each page is written to <slug>/index.html (the "index" slug to the site root), so
+ * /<slug> URLs keep working on plain static hosting. Media under /uploads is linked
+ * relative to the page, as uploads/<file> at the site root, and every page links the
+ * shared styles.css. Slugs that would land on the same file (or on a file another page
+ * needs as a directory) are reported by findPathCollisions before anything is written.
+ */
+
+export interface StaticPage {
+	slug: string;
+	title: string;
+	metaTitle: string | null;
+	metaDescription: string | null;
+	metaImage: string | null;
+	markup: string; // Generated component markup
+	css: string; // Generated component CSS
+}
+
+export const STYLESHEET_PATH = 'styles.css';
+export const MEDIA_DIR = 'uploads';
+
+const MEDIA_URL_PATTERN = /(["'(])\/uploads\/([A-Za-z0-9._-]+)/g;
+
+/**
+ * Path of a page's HTML file in the site (unsafe slug segments are dropped)
+ */
+export function getPagePath(slug: string): string {
+	const segments = slug.split('/').filter((segment) => segment && segment !== '.' && segment !== '..');
+	if (segments.length === 0 || (segments.length === 1 && segments[0] === 'index')) {
+		return 'index.html';
+	}
+	return `${segments.join('/')}/index.html`;
+}
+
+export interface PathCollision {
+	path: string; // The file or directory more than one thing needs
+	slugs: string[]; // Pages involved (a single page when it clashes with the site's own files)
+}
+
+/**
+ * Pages that can't all be written to the site
+ *
+ * Different slugs can map to one file ("index" and "", "a/b" and "a//b"), a page can need a
+ * directory where another page's file is ("a" and "a/index.html"), and pages can't go where
+ * the stylesheet or the media are written.
+ */
+export function findPathCollisions(slugs: string[]): PathCollision[] {
+	const owners = new Map<string, string[]>([[STYLESHEET_PATH, []]]);
+	for (const slug of slugs) {
+		const path = getPagePath(slug);
+		owners.set(path, [...(owners.get(path) ?? []), slug]);
+	}
+
+	const collisions: PathCollision[] = [];
+	for (const [path, pathSlugs] of owners) {
+		if (pathSlugs.length > 1) {
+			collisions.push({ path, slugs: pathSlugs });
+		}
+	}
+
+	for (const slug of slugs) {
+		const directories = getPagePath(slug).split('/').slice(0, -1);
+		if (directories.length > 1 && directories[0] === MEDIA_DIR) {
+			collisions.push({ path: MEDIA_DIR, slugs: [slug] });
+			continue;
+		}
+		for (let depth = 1; depth <= directories.length; depth++) {
+			const directory = directories.slice(0, depth).join('/');
+			const fileOwners = owners.get(directory);
+			if (fileOwners) {
+				collisions.push({ path: directory, slugs: [...fileOwners, slug] });
+				break;
+			}
+		}
+	}
+
+	return collisions;
+}
+
+// Helper: Relative path from a page's directory back to the site root
+function getRootPrefix(pagePath: string): string {
+	return '../'.repeat(pagePath.split('/').length - 1);
+}
+
+/**
+ * Point /uploads URLs at the site's copy of the media (collects the file names)
+ */
+export function rewriteMediaUrls(text: string, rootPrefix: string, media: Set<string>): string {
+	return text.replace(MEDIA_URL_PATTERN, (_, quote: string, filename: string) => {
+		media.add(filename);
+		return `${quote}${rootPrefix}${MEDIA_DIR}/${filename}`;
+	});
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML document of a page (adds the media it uses to `media`)
+ */
+export function renderStaticPage(page: StaticPage, media: Set<string>): { path: string; html: string } {
+	const path = getPagePath(page.slug);
+	const prefix = getRootPrefix(path);
+	const title = escapeHtml(page.metaTitle || page.title);
+
+	const head = [
+		'<meta charset="utf-8" />',
+		'<meta name="viewport" content="width=device-width, initial-scale=1" />',
+		`<title>${title}</title>`,
+		`<meta property="og:title" content="${title}" />`
+	];
+	if (page.metaDescription) {
+		const description = escapeHtml(page.metaDescription);
+		head.push(`<meta name="description" content="${description}" />`);
+		head.push(`<meta property="og:description" content="${description}" />`);
+	}
+	if (page.metaImage) {
+		const upload = page.metaImage.match(/^\/uploads\/([A-Za-z0-9._-]+)$/);
+		if (upload) media.add(upload[1]);
+		const image = upload ? `${prefix}${MEDIA_DIR}/${upload[1]}` : page.metaImage;
+		head.push(`<meta property="og:image" content="${escapeHtml(image)}" />`);
+	}
+	head.push(`<link rel="stylesheet" href="${prefix}${STYLESHEET_PATH}" />`);
+	if (page.css) {
+		head.push('<style>', rewriteMediaUrls(page.css, prefix, media), '</style>');
+	}
+
+	const html = [
+		'<!doctype html>',
+		'<html lang="en">',
+		'<head>',
+		...head,
+		'</head>',
+		'<body>',
+		rewriteMediaUrls(page.markup, prefix, media),
+		'</body>',
+		'</html>',
+		''
+	].join('\n');
+
+	return { path, html };
+}
@@ -1,5 +1,18 @@
+import type { PageLoad } from './$types';
+
 /**
  * Disable SSR for page builder
  * The page builder requires browser APIs (IndexedDB, DOM, etc.)
  */
 export const ssr = false;
+
+/**
+ * Open a specific project with ?project=<id>, or a server page with ?page=<id>
+ * (the default project opens without either)
+ */
+export const load: PageLoad = ({ url }) => {
+	return {
+		projectId: url.searchParams.get('project'),
+		pageId: url.searchParams.get('page')
+	};
+};
@@ -0,0 +1,16 @@
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { getPublishedPage } from '$lib/server/services/publishing';
+
+/**
+ * Published pages, served by their slug
+ */
+export const load: PageServerLoad = async ({ params }) => {
+	const page = await getPublishedPage(params.slug);
+
+	if (!page) {
+		throw error(404, { message: 'Page not found' });
+	}
+
+	return { page };
+};
@@ -0,0 +1,30 @@
+/**
+ * GET /api/export - Download the team's published pages as a static site (.zip)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireAuth } from '$lib/server/middleware/auth';
+import { exportStaticSite } from '$lib/server/services/export';
+
+export const GET: RequestHandler = requireAuth(async ({ locals }) => {
+	const user = locals.user;
+
+	if (!user.teamId) {
+		return json({ error: 'User must belong to a team' }, { status: 403 });
+	}
+
+	const result = await exportStaticSite(user.teamId);
+
+	if ('error' in result) {
+		return json({ error: result.error }, { status: result.status });
+	}
+
+	return new Response(result.stream, {
+		headers: {
+			'Content-Type': 'application/zip',
+			'Content-Disposition': 'attachment; filename="site.zip"',
+			'Cache-Control': 'no-store'
+		}
+	});
+});
@@ -0,0 +1,79 @@
+/**
+ * GET /api/pages/:id/events?since=<cursor>&frame=<frameId> - Get events recorded after a cursor
+ * POST /api/pages/:id/events?frame=<frameId> - Append a batch of events
+ *
+ * The cursor is the server's sequence number of the newest event the client has.
+ * Without `frame`, the page's own event log is used.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireAuth, requireDesigner } from '$lib/server/middleware/auth';
+import { getPageEvents, appendPageEvents } from '$lib/server/services/pages';
+import { refreshCollaborationRoom } from '$lib/server/services/collaboration-socket';
+
+export const GET: RequestHandler = requireAuth(async ({ params, url, locals }) => {
+	const user = locals.user;
+
+	if (!user.teamId) {
+		return json({ error: 'User must belong to a team' }, { status: 403 });
+	}
+
+	if (!params.id) {
+		return json({ error: 'Page ID required' }, { status: 400 });
+	}
+
+	const since = parseInt(url.searchParams.get('since') || '0');
+	if (Number.isNaN(since) || since < 0) {
+		return json({ error: 'Invalid since: must be a non-negative integer' }, { status: 400 });
+	}
+
+	const result = await getPageEvents(
+		{ pageId: params.id, teamId: user.teamId, frameId: url.searchParams.get('frame') || undefined },
+		since
+	);
+
+	if ('error' in result) {
+		return json({ error: result.error }, { status: 404 });
+	}
+
+	return json(result);
+});
+
+export const POST: RequestHandler = requireDesigner(async ({ params, url, request, locals }) => {
+	const user = locals.user;
+
+	if (!user.teamId) {
+		return json({ error: 'User must belong to a team' }, { status: 403 });
+	}
+
+	if (!params.id) {
+		return json({ error: 'Page ID required' }, { status: 400 });
+	}
+
+	let body;
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const frameId = url.searchParams.get('frame') || undefined;
+	const result = await appendPageEvents(
+		{ pageId: params.id, teamId: user.teamId, frameId },
+		{ events: body?.events, discardedEventIds: body?.discardedEventIds }
+	);
+
+	if ('error' in result) {
+		return json({ error: result.error }, { status: result.status });
+	}
+
+	// Editors co-editing the page get the new events too
+	if (!frameId) {
+		await refreshCollaborationRoom(params.id).catch((error) => {
+			console.error('Failed to refresh collaboration room:', error);
+		});
+	}
+
+	return json(result);
+});
@@ -0,0 +1,30 @@
+/**
+ * POST /api/pages/:id/publish - Publish a page
+ *
+ * Regenerates the page's component from its current design and serves it at /<slug>.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireRole } from '$lib/server/middleware/auth';
+import { publishPage } from '$lib/server/services/publishing';
+
+export const POST: RequestHandler = requireRole(['owner', 'manager'], async ({ params, locals }) => {
+	const user = locals.user;
+
+	if (!user.teamId) {
+		return json({ error: 'User must belong to a team' }, { status: 403 });
+	}
+
+	if (!params.id) {
+		return json({ error: 'Page ID required' }, { status: 400 });
+	}
+
+	const result = await publishPage(params.id, user.teamId);
+
+	if ('error' in result) {
+		return json({ error: result.error }, { status: result.status });
+	}
+
+	return json({ isPublished: true, ...result });
+});
@@ -0,0 +1,28 @@
+/**
+ * POST /api/pages/:id/unpublish - Take a published page offline
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireRole } from '$lib/server/middleware/auth';
+import { unpublishPage } from '$lib/server/services/publishing';
+
+export const POST: RequestHandler = requireRole(['owner', 'manager'], async ({ params, locals }) => {
+	const user = locals.user;
+
+	if (!user.teamId) {
+		return json({ error: 'User must belong to a team' }, { status: 403 });
+	}
+
+	if (!params.id) {
+		return json({ error: 'Page ID required' }, { status: 400 });
+	}
+
+	const result = await unpublishPage(params.id, user.teamId);
+
+	if ('error' in result) {
+		return json({ error: result.error }, { status: result.status });
+	}
+
+	return json({ isPublished: false, publishedAt: null, ...result });
+});
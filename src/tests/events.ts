@@ -0,0 +1,51 @@
+/**
+ * Event Fixtures
+ * Builds design events for tests, typed as the event their `type` names
+ */
+
+import type { DesignEvent } from '$lib/types/events';
+import type { EventDraft } from '$lib/stores/compensating-events';
+
+type EventType = DesignEvent['type'];
+
+// Payload of each event type, looked up by type so `event()` can stay generic
+type EventPayloads = { [E in DesignEvent as E['type']]: E['payload'] };
+
+export interface TestEvent<T extends EventType> {
+	id: string;
+	type: T;
+	timestamp: number;
+	payload: EventPayloads[T];
+}
+
+let eventCounter = 0;
+
+/**
+ * A new event with a unique ID and increasing timestamp
+ */
+export function event<T extends EventType>(type: T, payload: EventPayloads[T]): TestEvent<T> {
+	eventCounter++;
+	return { id: `event-${eventCounter}`, type, timestamp: eventCounter, payload };
+}
+
+/**
+ * A div on page-1 at the canvas origin
+ */
+export function createElement(elementId: string, parentId: string | null = null): TestEvent<'CREATE_ELEMENT'> {
+	return event('CREATE_ELEMENT', {
+		elementId,
+		parentId,
+		pageId: 'page-1',
+		elementType: 'div',
+		position: { x: 0, y: 0 },
+		size: { width: 100, height: 100 }
+	});
+}
+
+/**
+ * Turn drafts (compensation or merge output) into events that can be reduced
+ */
+export function fromDrafts(drafts: EventDraft[], idPrefix: string): DesignEvent[] {
+	return drafts.map((draft, i) => ({ ...draft, id: `${idPrefix}-${i}`, timestamp: 0 }));
+}
+
@@ -0,0 +1,48 @@
+/**
+ * State Fixtures
+ * Builds elements and design states directly, without going through events
+ */
+
+import type { DesignState, Element } from '$lib/types/events';
+
+/**
+ * A div on page-1 at the canvas origin
+ */
+export function makeElement(id: string, overrides: Partial<Element> = {}): Element {
+	return {
+		id,
+		type: 'div',
+		parentId: null,
+		pageId: 'page-1',
+		position: { x: 0, y: 0 },
+		size: { width: 100, height: 40 },
+		styles: {},
+		typography: {},
+		spacing: {},
+		children: [],
+		...overrides
+	};
+}
+
+/**
+ * A design with one page holding the elements (those without a parent are on its canvas)
+ */
+export function makeState(elements: Element[]): DesignState {
+	return {
+		pages: {
+			'page-1': {
+				id: 'page-1',
+				name: 'Home',
+				slug: 'home',
+				canvasElements: elements.filter((el) => !el.parentId).map((el) => el.id)
+			}
+		},
+		elements: Object.fromEntries(elements.map((el) => [el.id, el])),
+		groups: {},
+		components: {},
+		guides: {},
+		pageOrder: ['page-1'],
+		currentPageId: 'page-1',
+		selectedElementIds: []
+	};
+}
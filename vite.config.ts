@@ -1,8 +1,25 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vitest/config';
+import { defineConfig, type Plugin } from 'vitest/config';
+
+/**
+ * Serve the collaboration WebSocket from the dev server
+ * Built servers start their own from the init hook in src/hooks.server.ts
+ */
+function collaboration(): Plugin {
+	return {
+		name: 'linebasis-collaboration',
+		async configureServer(server) {
+			if (!server.httpServer) return;
+			const { attachCollaborationServer } = await server.ssrLoadModule(
+				'/src/lib/server/services/collaboration-socket.ts'
+			);
+			attachCollaborationServer(server.httpServer);
+		}
+	};
+}
 
 export default defineConfig({
-	plugins: [sveltekit()],
+	plugins: [sveltekit(), collaboration()],
 	test: {
 		include: ['src/**/*.{test,spec}.{js,ts}'],
 		environment: 'jsdom',